@@ -4,7 +4,7 @@
  * @author Charley Scholz, ELEV8
  * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
  * @created 2026-02-23
- * @updated 2026-02-23
+ * @updated 2026-10-19
  */
 
 import type { LLMClient } from '../core/llm-client.js';
@@ -13,29 +13,30 @@ import type {
   AccessibilityAuditOutput,
   AccessibilityFinding,
   Capability,
+  ExecutionContext,
 } from '../core/types.js';
 import { UXPilotError } from '../core/types.js';
+import { s } from '../core/schema.js';
+import { AccessibilityFindingSchema } from '../core/schemas.js';
+import type { PromptVariables } from '../core/prompt-registry.js';
+import { defaultPrompts } from '../core/prompt-registry.js';
+import { describeChunk, runParts, splitInput } from '../core/input-chunking.js';
+import { Redactor } from '../core/redaction.js';
+import { traced } from '../core/tracing.js';
 import { WCAG_RULES } from '../knowledge/wcag-rules.js';
 
-const SYSTEM_PROMPT = `You are a senior accessibility specialist with deep expertise in WCAG 2.2.
-
-Audit the provided content against WCAG criteria. For each issue found:
-1. Reference the specific WCAG criterion (e.g., "1.4.3 Contrast (Minimum)")
-2. Classify severity: "critical" (blocks access), "major" (significant barrier), "minor" (inconvenience)
-3. Describe the issue clearly
-4. Provide specific evidence from the content
-5. Give an actionable recommendation
-6. Include a corrected code example where applicable
-
-Also identify criteria that are satisfied — list these as passedCriteria.
-
-Output valid JSON. No commentary outside JSON.`;
-
 interface LLMAuditResponse {
   findings: AccessibilityFinding[];
   passedCriteria: string[];
 }
 
+const RESPONSE_SCHEMA = s.object<LLMAuditResponse>({
+  findings: s.array(AccessibilityFindingSchema),
+  passedCriteria: s.array(s.string()),
+});
+
+const SEVERITY_RANK: Record<AccessibilityFinding['severity'], number> = { critical: 0, major: 1, minor: 2 };
+
 export class AccessibilityAuditCapability implements Capability<AccessibilityAuditInput, AccessibilityAuditOutput> {
   readonly id = 'accessibility-audit' as const;
   readonly name = 'Accessibility Audit';
@@ -47,30 +48,57 @@ export class AccessibilityAuditCapability implements Capability<AccessibilityAud
     this.llm = llm;
   }
 
-  async execute(input: AccessibilityAuditInput): Promise<AccessibilityAuditOutput> {
+  async execute(input: AccessibilityAuditInput, context: ExecutionContext = {}): Promise<AccessibilityAuditOutput> {
     this.validateInput(input);
 
-    const userMessage = this.buildPrompt(input);
-    const result = await this.llm.chatJSON<LLMAuditResponse>(
-      SYSTEM_PROMPT,
-      userMessage,
-      { maxTokens: 8192 },
-    );
+    const redactor = context.redactor ?? new Redactor(context.redaction);
+    const target = redactor.redact(input.target, 'target');
+    const chunks = splitInput(target, {
+      maxTokens: input.targetType === 'description' ? 0 : context.inputChunkTokens,
+      language: input.targetType === 'html' ? 'markup' : 'code',
+    });
+    const prompts = chunks.map((chunk) => defaultPrompts.render(
+      'accessibility-audit',
+      this.promptVariables({ ...input, target: chunk.content }, chunks.length > 1 ? describeChunk(chunk, chunks) : undefined),
+      context,
+    ));
+    context.onEvent?.({ type: 'phase', phase: 'prompt-built' });
+
+    const responses = await runParts(prompts, context, (prompt, partContext) => this.llm.chatJSON<LLMAuditResponse>(
+      prompt.system,
+      prompt.user,
+      { maxTokens: 8192, schema: RESPONSE_SCHEMA, context: partContext },
+    ));
+    const result = mergeAudits(responses);
+
+    // The model only saw placeholders; quoted evidence, example code, and the advice built on them go back with the real values.
+    const findings = result.findings.map((finding) => ({
+      ...finding,
+      issue: redactor.restore(finding.issue),
+      evidence: redactor.restore(finding.evidence),
+      recommendation: redactor.restore(finding.recommendation),
+      codeExample: redactor.restore(finding.codeExample),
+    }));
+    const redactions = redactor.report();
 
     const summary = {
-      totalFindings: result.findings.length,
-      critical: result.findings.filter((f) => f.severity === 'critical').length,
-      major: result.findings.filter((f) => f.severity === 'major').length,
-      minor: result.findings.filter((f) => f.severity === 'minor').length,
+      totalFindings: findings.length,
+      critical: findings.filter((f) => f.severity === 'critical').length,
+      major: findings.filter((f) => f.severity === 'major').length,
+      minor: findings.filter((f) => f.severity === 'minor').length,
       passedCriteria: result.passedCriteria,
     };
 
-    const markdownReport = this.generateReport(input, summary, result.findings);
+    context.onEvent?.({ type: 'phase', phase: 'report-rendering' });
+    const markdownReport = traced(context, 'report.generate', { 'capability.id': this.id }, () => (
+      this.generateReport(input, summary, findings)
+    ));
 
     return {
       summary,
-      findings: result.findings,
+      findings,
       markdownReport,
+      ...(redactions.length > 0 ? { redactions } : {}),
     };
   }
 
@@ -93,7 +121,7 @@ export class AccessibilityAuditCapability implements Capability<AccessibilityAud
     }
   }
 
-  private buildPrompt(input: AccessibilityAuditInput): string {
+  private promptVariables(input: AccessibilityAuditInput, chunk?: string): PromptVariables {
     const level = input.wcagLevel ?? 'AA';
 
     const relevantRules = WCAG_RULES.filter((rule) => {
@@ -102,33 +130,18 @@ export class AccessibilityAuditCapability implements Capability<AccessibilityAud
       return true;
     });
 
-    const rulesSummary = relevantRules
-      .map((r) => `${r.id} ${r.name} (Level ${r.level}): ${r.description}`)
-      .join('\n');
-
-    const parts = [
-      `## Target (${input.targetType})`,
-      '',
-      input.targetType === 'component-code' || input.targetType === 'html'
+    return {
+      targetType: input.targetType,
+      target: input.targetType === 'component-code' || input.targetType === 'html'
         ? `\`\`\`\n${input.target}\n\`\`\``
         : input.target,
-      '',
-      `## WCAG Level: ${level}`,
-      '',
-      '## Applicable Criteria',
-      '',
-      rulesSummary,
-    ];
-
-    if (input.additionalContext) {
-      parts.push('', `## Additional Context`, '', input.additionalContext);
-    }
-
-    parts.push('');
-    parts.push('Respond with JSON: {findings: [...], passedCriteria: [...]}');
-    parts.push('findings items: {criterion, criterionName, severity, issue, evidence, recommendation, codeExample}');
-
-    return parts.join('\n');
+      chunk,
+      wcagLevel: level,
+      criteria: relevantRules
+        .map((r) => `${r.id} ${r.name} (Level ${r.level}): ${r.description}`)
+        .join('\n'),
+      additionalContext: input.additionalContext,
+    };
   }
 
   private generateReport(
@@ -202,3 +215,40 @@ export class AccessibilityAuditCapability implements Capability<AccessibilityAud
     return lines.join('\n');
   }
 }
+
+/**
+ * Combines the audits of a split input. A finding reported by more than one
+ * part (shared context, a component cut in two) is kept once, at its highest
+ * severity, and a criterion passes only when no part found an issue with it.
+ */
+function mergeAudits(responses: LLMAuditResponse[]): LLMAuditResponse {
+  const [only] = responses;
+  if (responses.length === 1 && only) {
+    return only;
+  }
+
+  const findings = new Map<string, AccessibilityFinding>();
+  for (const finding of responses.flatMap((response) => response.findings)) {
+    const key = `${criterionId(finding.criterion)}\0${finding.evidence.replace(/\s+/g, ' ').trim().toLowerCase()}`;
+    const existing = findings.get(key);
+    if (!existing) {
+      findings.set(key, finding);
+    } else if (SEVERITY_RANK[finding.severity] < SEVERITY_RANK[existing.severity]) {
+      findings.set(key, { ...existing, severity: finding.severity });
+    }
+  }
+
+  const failed = new Set([...findings.values()].map((finding) => criterionId(finding.criterion)));
+  const passed = new Map<string, string>();
+  for (const criterion of responses.flatMap((response) => response.passedCriteria)) {
+    const id = criterionId(criterion);
+    if (!failed.has(id) && !passed.has(id)) passed.set(id, criterion);
+  }
+
+  return { findings: [...findings.values()], passedCriteria: [...passed.values()] };
+}
+
+/** `1.4.3` from "1.4.3 Contrast (Minimum)"; other labels compare as written. */
+function criterionId(criterion: string): string {
+  return /\b\d+\.\d+\.\d+\b/.exec(criterion)?.[0] ?? criterion.trim();
+}
@@ -0,0 +1,632 @@
+/**
+ * @file builtin-capabilities.ts
+ * @description Registry definitions for the six built-in capabilities, including their CLI commands and MCP tools
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import { resolve } from 'node:path';
+import type { SourceFile } from '../core/input-chunking.js';
+import { joinSourceFiles } from '../core/input-chunking.js';
+import type { ProjectProfile } from '../core/project-profile.js';
+import { profileColors } from '../core/project-profile.js';
+import type { CapabilityDefinition, CliOutputFile, McpInputSchema } from '../core/registry.js';
+import type { JSONSchema, ObjectSchema } from '../core/schema.js';
+import { formatIssues, s, toJSONSchema, validate } from '../core/schema.js';
+import {
+  AccessibilityAuditInputSchema,
+  AccessibilityAuditOutputSchema,
+  ComponentArchInputSchema,
+  ComponentArchOutputSchema,
+  DesignCritiqueInputSchema,
+  DesignCritiqueOutputSchema,
+  DesignSystemInputSchema,
+  DesignSystemOutputSchema,
+  UserFlowInputSchema,
+  UserFlowOutputSchema,
+  WireframeInputSchema,
+  WireframeOutputSchema,
+} from '../core/schemas.js';
+import type {
+  AccessibilityAuditInput,
+  AccessibilityAuditOutput,
+  ComponentArchInput,
+  ComponentArchOutput,
+  DesignCritiqueInput,
+  DesignCritiqueOutput,
+  DesignSystemInput,
+  DesignSystemOutput,
+  UserFlowInput,
+  UserFlowOutput,
+  WireframeInput,
+  WireframeOutput,
+} from '../core/types.js';
+import { UXPilotError } from '../core/types.js';
+import type { TokenExportFormat } from '../exporters/token-exporters.js';
+import {
+  exportTokens,
+  parseTokenExportFormats,
+  platformTokenExportFormats,
+  TOKEN_EXPORT_FORMATS,
+} from '../exporters/token-exporters.js';
+
+// Each MCP tool declares its arguments as a schema; the CLI maps its options
+// onto the same arguments. Both are validated here, and the assembled input
+// is validated again against the capability's inputSchema on execute.
+
+const WCAG_STANDARDS = [
+  'WCAG2.0-A',
+  'WCAG2.0-AA',
+  'WCAG2.0-AAA',
+  'WCAG2.1-A',
+  'WCAG2.1-AA',
+  'WCAG2.1-AAA',
+  'WCAG2.2-A',
+  'WCAG2.2-AA',
+  'WCAG2.2-AAA',
+] as const;
+
+interface DesignSystemArgs {
+  brandColors?: string[];
+  typography?: string;
+  targetPlatform?: 'web' | 'mobile' | 'both';
+  requirements?: string;
+}
+
+interface ComponentArchArgs {
+  description: string;
+  code?: string;
+  files?: SourceFile[];
+  framework?: string;
+}
+
+interface AccessibilityAuditArgs {
+  code?: string;
+  files?: SourceFile[];
+  html?: string;
+  description?: string;
+  standard?: (typeof WCAG_STANDARDS)[number];
+}
+
+interface UserFlowArgs {
+  feature: string;
+  userType?: string;
+  context?: string;
+}
+
+interface WireframeArgs {
+  feature: string;
+  platform?: 'web' | 'mobile' | 'tablet' | 'desktop';
+  constraints?: string;
+}
+
+interface DesignCritiqueArgs {
+  description?: string;
+  code?: string;
+  screenshot?: string;
+}
+
+const sourceFiles = s.optional(s.array(s.object<SourceFile>({ path: s.string(), content: s.string() })));
+
+const DesignSystemArgsSchema = s.object<DesignSystemArgs>({
+  brandColors: s.optional(s.array(s.string())),
+  typography: s.optional(s.string()),
+  targetPlatform: s.optional(s.literal('web', 'mobile', 'both')),
+  requirements: s.optional(s.string()),
+});
+
+const ComponentArchArgsSchema = s.object<ComponentArchArgs>({
+  description: s.string(),
+  code: s.optional(s.string()),
+  files: sourceFiles,
+  framework: s.optional(s.string()),
+});
+
+const AccessibilityAuditArgsSchema = s.object<AccessibilityAuditArgs>({
+  code: s.optional(s.string()),
+  files: sourceFiles,
+  html: s.optional(s.string()),
+  description: s.optional(s.string()),
+  standard: s.optional(s.literal(...WCAG_STANDARDS)),
+});
+
+const UserFlowArgsSchema = s.object<UserFlowArgs>({
+  feature: s.string(),
+  userType: s.optional(s.string()),
+  context: s.optional(s.string()),
+});
+
+const WireframeArgsSchema = s.object<WireframeArgs>({
+  feature: s.string(),
+  platform: s.optional(s.literal('web', 'mobile', 'tablet', 'desktop')),
+  constraints: s.optional(s.string()),
+});
+
+const DesignCritiqueArgsSchema = s.object<DesignCritiqueArgs>({
+  description: s.optional(s.string()),
+  code: s.optional(s.string()),
+  screenshot: s.optional(s.string()),
+});
+
+/** Tool arguments (or CLI options mapped onto them) checked against `schema`; INVALID_INPUT lists the failing paths. */
+function parseArgs<T>(schema: ObjectSchema<T>, args: Record<string, unknown>): T {
+  const result = validate(schema, args);
+  if (!result.ok) {
+    throw new UXPilotError(
+      `Invalid arguments: ${formatIssues(result.issues)}`,
+      'INVALID_INPUT',
+      { issues: result.issues },
+    );
+  }
+  return result.value;
+}
+
+/** The MCP tool schema for `schema`, with a description for every argument. */
+function toolSchema<T>(schema: ObjectSchema<T>, descriptions: Record<keyof T, string>): McpInputSchema {
+  const { properties, required } = toJSONSchema(schema) as Required<McpInputSchema>;
+  return {
+    type: 'object',
+    properties: Object.fromEntries(Object.entries(properties).map(([key, property]) => [
+      key,
+      { ...(property as JSONSchema), description: descriptions[key as keyof T] },
+    ])),
+    required,
+  };
+}
+
+function parseWcagLevel(standard: string | undefined): 'A' | 'AA' | 'AAA' | undefined {
+  const match = /-(A{1,3})$/.exec(standard ?? '');
+  return match?.[1] === 'A' || match?.[1] === 'AA' || match?.[1] === 'AAA' ? match[1] : undefined;
+}
+
+/** Framework names and common meta-framework aliases, lowercased, mapped onto ComponentArchInput's union. */
+const FRAMEWORK_ALIASES: ReadonlyMap<string, NonNullable<ComponentArchInput['framework']>> = new Map([
+  ['react', 'react'],
+  ['react.js', 'react'],
+  ['reactjs', 'react'],
+  ['next', 'react'],
+  ['next.js', 'react'],
+  ['nextjs', 'react'],
+  ['remix', 'react'],
+  ['gatsby', 'react'],
+  ['vue', 'vue'],
+  ['vue.js', 'vue'],
+  ['vuejs', 'vue'],
+  ['nuxt', 'vue'],
+  ['nuxt.js', 'vue'],
+  ['svelte', 'svelte'],
+  ['sveltekit', 'svelte'],
+  ['angular', 'angular'],
+  ['angularjs', 'angular'],
+  ['analog', 'angular'],
+  ['agnostic', 'agnostic'],
+  ['none', 'agnostic'],
+]);
+
+/** A framework name or alias as ComponentArchInput's union, or undefined when it is not one we know. */
+function parseFramework(framework: string | undefined): ComponentArchInput['framework'] {
+  return framework ? FRAMEWORK_ALIASES.get(framework.trim().toLowerCase()) : undefined;
+}
+
+/** Placeholder when the caller names no brand; the project profile's brandName replaces it. */
+const DEFAULT_BRAND_NAME = 'Design System';
+
+const HEX_COLOR_PATTERN = /#(?:[0-9a-f]{6}|[0-9a-f]{3})\b/gi;
+
+/** Hex colors mentioned in free-form text, deduplicated, in order of appearance. */
+function extractHexColors(text: string): string[] | undefined {
+  const colors = [...new Set(text.match(HEX_COLOR_PATTERN) ?? [])];
+  return colors.length > 0 ? colors : undefined;
+}
+
+function missingTarget(flags: string): UXPilotError {
+  return new UXPilotError(
+    `Provide at least one of ${flags}.`,
+    'INVALID_INPUT',
+    { field: 'target' },
+  );
+}
+
+/** `files` (MCP) joined into one target with a `// File:` line per file, else `code`. */
+function codeArgument(args: { code?: string; files?: SourceFile[] }): string | undefined {
+  return args.files?.length ? joinSourceFiles(args.files) : args.code;
+}
+
+function designSystemInput(args: DesignSystemArgs): DesignSystemInput {
+  const input: DesignSystemInput = {
+    brandName: DEFAULT_BRAND_NAME,
+  };
+  if (args.brandColors) input.colors = args.brandColors;
+  if (args.typography) {
+    input.typographyPreferences = { headingFont: args.typography };
+  }
+  if (args.targetPlatform) input.targetPlatform = args.targetPlatform;
+  if (args.requirements) input.additionalContext = args.requirements;
+  return input;
+}
+
+/** Where `design-system --format` writes when `--out-dir` is not given. */
+const DEFAULT_TOKEN_OUT_DIR = 'design-tokens';
+
+/**
+ * Token files for `design-system --format <formats...> --out-dir <dir>`;
+ * `--out-dir` alone exports the formats `--platform` calls for (web when
+ * none is given).
+ */
+function tokenExportFiles(output: DesignSystemOutput, opts: Record<string, unknown>): CliOutputFile[] {
+  const formats = tokenExportFormats(opts);
+  if (!formats) return [];
+  const dir = resolve(typeof opts['outDir'] === 'string' ? opts['outDir'] : DEFAULT_TOKEN_OUT_DIR);
+  return exportTokens(output.tokens, formats).map((file) => ({
+    path: resolve(dir, file.path),
+    content: file.content,
+    label: 'Design tokens',
+  }));
+}
+
+function tokenExportFormats(opts: Record<string, unknown>): TokenExportFormat[] | undefined {
+  const format = opts['format'];
+  if (Array.isArray(format) || typeof format === 'string') {
+    return parseTokenExportFormats(Array.isArray(format) ? format.map(String) : format);
+  }
+  return typeof opts['outDir'] === 'string'
+    ? platformTokenExportFormats(opts['platform'] as DesignSystemInput['targetPlatform'])
+    : undefined;
+}
+
+function componentArchInput(args: ComponentArchArgs): ComponentArchInput {
+  const input: ComponentArchInput = { description: args.description };
+  const code = codeArgument(args);
+  if (code) input.existingCode = code;
+  if (args.framework) {
+    input.framework = parseFramework(args.framework);
+    if (!input.framework) {
+      throw new UXPilotError(
+        `Unknown framework "${args.framework}". Use React, Vue, Svelte, Angular (or a framework built on one, e.g. Next.js), or agnostic.`,
+        'INVALID_INPUT',
+        { field: 'framework', received: args.framework },
+      );
+    }
+  }
+  return input;
+}
+
+function accessibilityAuditInput(args: AccessibilityAuditArgs): AccessibilityAuditInput {
+  const code = codeArgument(args);
+  const input: AccessibilityAuditInput | undefined = code
+    ? { target: code, targetType: 'component-code' }
+    : args.html
+      ? { target: args.html, targetType: 'html' }
+      : args.description
+        ? { target: args.description, targetType: 'description' }
+        : undefined;
+  if (!input) {
+    throw missingTarget('code, files, html, or description');
+  }
+  const wcagLevel = parseWcagLevel(args.standard);
+  if (wcagLevel) input.wcagLevel = wcagLevel;
+  return input;
+}
+
+function userFlowInput(args: UserFlowArgs): UserFlowInput {
+  const input: UserFlowInput = { featureDescription: args.feature };
+  if (args.userType) input.userPersona = args.userType;
+  if (args.context) input.additionalContext = args.context;
+  return input;
+}
+
+/** A responsive web page is laid out for every device class. */
+const WEB_DEVICES: NonNullable<WireframeInput['targetDevices']> = ['mobile', 'tablet', 'desktop'];
+
+function wireframeInput(args: WireframeArgs): WireframeInput {
+  const input: WireframeInput = { requirements: args.feature };
+  if (args.platform) input.targetDevices = args.platform === 'web' ? WEB_DEVICES : [args.platform];
+  if (args.constraints) input.additionalContext = args.constraints;
+  return input;
+}
+
+function designCritiqueInput(args: DesignCritiqueArgs): DesignCritiqueInput {
+  const input: DesignCritiqueInput | undefined = args.code
+    ? { target: args.code, targetType: 'component-code' }
+    : args.description
+      ? { target: args.description, targetType: 'ui-description' }
+      : args.screenshot
+        ? { target: args.screenshot, targetType: 'design-spec' }
+        : undefined;
+  if (!input) {
+    throw missingTarget('code, description, or screenshot');
+  }
+  return input;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Project profile defaults                                                  */
+/* -------------------------------------------------------------------------- */
+
+function designSystemDefaults(input: DesignSystemInput, profile: ProjectProfile): DesignSystemInput {
+  const typography = profile.designTokens?.['typography'];
+  return {
+    ...input,
+    brandName: input.brandName && input.brandName !== DEFAULT_BRAND_NAME
+      ? input.brandName
+      : profile.brandName ?? input.brandName,
+    colors: input.colors ?? profileColors(profile),
+    typographyPreferences: input.typographyPreferences
+      ?? (typography && typeof typography === 'object' ? typography as DesignSystemInput['typographyPreferences'] : undefined),
+    targetPlatform: input.targetPlatform ?? profile.platform,
+  };
+}
+
+/** A profile framework we cannot map (e.g. "Solid") is left out; the profile prompt still names it. */
+function componentArchDefaults(input: ComponentArchInput, profile: ProjectProfile): ComponentArchInput {
+  return {
+    ...input,
+    framework: input.framework ?? parseFramework(profile.framework),
+  };
+}
+
+function accessibilityAuditDefaults(input: AccessibilityAuditInput, profile: ProjectProfile): AccessibilityAuditInput {
+  return { ...input, wcagLevel: input.wcagLevel ?? profile.wcagLevel };
+}
+
+function userFlowDefaults(input: UserFlowInput, profile: ProjectProfile): UserFlowInput {
+  const persona = profile.personas?.[0];
+  return {
+    ...input,
+    userPersona: input.userPersona ?? (persona ? `${persona.name} — ${persona.description}` : undefined),
+  };
+}
+
+function wireframeDefaults(input: WireframeInput, profile: ProjectProfile): WireframeInput {
+  return { ...input, targetDevices: input.targetDevices ?? profile.targetDevices };
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Definitions                                                               */
+/* -------------------------------------------------------------------------- */
+
+const designSystem: CapabilityDefinition<DesignSystemInput, DesignSystemOutput> = {
+  id: 'design-system',
+  name: 'Design System Generation',
+  description: 'Generate a comprehensive design system with tokens, typography, spacing, and color palettes',
+  keywords: ['design system', 'tokens', 'color palette', 'typography', 'spacing', 'brand', 'theme'],
+  inputSchema: DesignSystemInputSchema,
+  outputSchema: DesignSystemOutputSchema,
+  fromRequest: (request) => designSystemInput({ brandColors: extractHexColors(request), requirements: request }),
+  applyProfile: designSystemDefaults,
+  create: async (llm) => new (await import('./design-system.js')).DesignSystemCapability(llm),
+  cli: {
+    name: 'design-system',
+    description: 'Generate a comprehensive design system',
+    label: 'Generating design system',
+    options: [
+      { flags: '--colors <colors...>', description: 'Brand color hex values' },
+      { flags: '--typography <font>', description: 'Typography / font family preference' },
+      { flags: '--platform <platform>', description: 'Target platform (web, mobile, both)' },
+      { flags: '--requirements <req>', description: 'Additional design system requirements' },
+      { flags: '--format <formats...>', description: `Export tokens as ${TOKEN_EXPORT_FORMATS.join(', ')}, web, mobile, or all` },
+      { flags: '--out-dir <dir>', description: `Directory for exported token files (default: ${DEFAULT_TOKEN_OUT_DIR})` },
+    ],
+    toInput: (opts) => {
+      const input = designSystemInput(parseArgs(DesignSystemArgsSchema, {
+        brandColors: opts['colors'],
+        typography: opts['typography'],
+        targetPlatform: opts['platform'],
+        requirements: opts['requirements'],
+      }));
+      // Reject unknown formats before the run rather than after it.
+      tokenExportFormats(opts);
+      return input;
+    },
+    outputFiles: tokenExportFiles,
+  },
+  mcp: {
+    name: 'ux_design_system',
+    description:
+      'Generate a comprehensive design system with tokens, typography, spacing, and color palettes',
+    inputSchema: toolSchema(DesignSystemArgsSchema, {
+      brandColors: 'Brand color hex values (e.g. ["#1a73e8", "#ff5722"])',
+      typography: 'Typography preferences or font family name',
+      targetPlatform: 'Target platform for the design system',
+      requirements: 'Additional design system requirements or constraints',
+    }),
+    toInput: (args) => designSystemInput(parseArgs(DesignSystemArgsSchema, args)),
+  },
+};
+
+const componentArchitecture: CapabilityDefinition<ComponentArchInput, ComponentArchOutput> = {
+  id: 'component-architecture',
+  name: 'Component Architecture Analysis',
+  description: 'Break down UI into reusable components with hierarchy and data flow',
+  keywords: ['component', 'architecture', 'props', 'state', 'composition', 'breakdown'],
+  inputSchema: ComponentArchInputSchema,
+  outputSchema: ComponentArchOutputSchema,
+  fromRequest: (request) => componentArchInput({ description: request }),
+  applyProfile: componentArchDefaults,
+  create: async (llm) => new (await import('./component-architecture.js')).ComponentArchCapability(llm),
+  cli: {
+    name: 'component-arch',
+    description: 'Analyze component architecture',
+    label: 'Analyzing component architecture',
+    options: [
+      { flags: '--description <desc>', description: 'Description of the UI or feature', required: true },
+      { flags: '--code <files...>', description: 'Component code or paths to one or more files', file: true },
+      { flags: '--framework <fw>', description: 'UI framework (React, Vue, Angular, Svelte)' },
+    ],
+    toInput: (opts) => componentArchInput(parseArgs(ComponentArchArgsSchema, opts)),
+  },
+  mcp: {
+    name: 'ux_component_architecture',
+    description:
+      'Analyze component architecture — break down UI into reusable components with hierarchy and data flow',
+    inputSchema: toolSchema(ComponentArchArgsSchema, {
+      description: 'Description of the UI or feature to analyze',
+      code: 'Existing component code to analyze',
+      files: 'Several source files to analyze together (instead of code); large inputs are analyzed in parts',
+      framework: 'UI framework (e.g. React, Vue, Angular, Svelte)',
+    }),
+    toInput: (args) => componentArchInput(parseArgs(ComponentArchArgsSchema, args)),
+  },
+};
+
+const accessibilityAudit: CapabilityDefinition<AccessibilityAuditInput, AccessibilityAuditOutput> = {
+  id: 'accessibility-audit',
+  name: 'Accessibility Audit',
+  description: 'Audit UI against WCAG guidelines — identify issues and suggest fixes',
+  keywords: ['accessibility', 'a11y', 'wcag', 'aria', 'screen reader', 'contrast'],
+  inputSchema: AccessibilityAuditInputSchema,
+  outputSchema: AccessibilityAuditOutputSchema,
+  fromRequest: (request) => accessibilityAuditInput({ description: request }),
+  applyProfile: accessibilityAuditDefaults,
+  create: async (llm) => new (await import('./accessibility-audit.js')).AccessibilityAuditCapability(llm),
+  cli: {
+    name: 'a11y-audit',
+    description: 'Run an accessibility audit',
+    label: 'Running accessibility audit',
+    options: [
+      { flags: '--code <files...>', description: 'Component code or paths to one or more files', file: true },
+      { flags: '--html <file>', description: 'HTML markup or path to file', file: true },
+      { flags: '--description <desc>', description: 'Description of the UI being audited' },
+      { flags: '--standard <std>', description: 'WCAG standard (e.g. WCAG2.1-AA; default: the project profile\'s wcagLevel, else AA)' },
+    ],
+    toInput: (opts) => {
+      if (!opts['code'] && !opts['html'] && !opts['description']) {
+        throw missingTarget('--code, --html, or --description');
+      }
+      return accessibilityAuditInput(parseArgs(AccessibilityAuditArgsSchema, opts));
+    },
+  },
+  mcp: {
+    name: 'ux_accessibility_audit',
+    description:
+      'Run an accessibility audit against WCAG guidelines — identify issues and suggest fixes',
+    inputSchema: toolSchema(AccessibilityAuditArgsSchema, {
+      code: 'Component or page code to audit',
+      files: 'Several source files to audit together (instead of code); large inputs are audited in parts',
+      html: 'Raw HTML markup to audit',
+      description: 'Description of the UI being audited',
+      standard: 'Accessibility standard to audit against (default: WCAG2.1-AA)',
+    }),
+    toInput: (args) => accessibilityAuditInput(parseArgs(AccessibilityAuditArgsSchema, args)),
+  },
+};
+
+const userFlow: CapabilityDefinition<UserFlowInput, UserFlowOutput> = {
+  id: 'user-flow',
+  name: 'User Flow Mapping',
+  description: 'Map user flows with Mermaid diagrams — steps, decision points, and edge cases',
+  keywords: ['user flow', 'journey', 'flowchart', 'navigation path', 'user journey', 'steps'],
+  inputSchema: UserFlowInputSchema,
+  outputSchema: UserFlowOutputSchema,
+  fromRequest: (request) => userFlowInput({ feature: request }),
+  applyProfile: userFlowDefaults,
+  create: async (llm) => new (await import('./user-flow-mapper.js')).UserFlowMapperCapability(llm),
+  cli: {
+    name: 'user-flow',
+    description: 'Map user flows with Mermaid diagrams',
+    label: 'Mapping user flow',
+    options: [
+      { flags: '--feature <feature>', description: 'Feature or task to map', required: true },
+      { flags: '--user-type <type>', description: 'Target user persona or type' },
+      { flags: '--context <ctx>', description: 'Additional context about the application' },
+      { flags: '--output <file>', description: 'Save Mermaid diagram to file' },
+    ],
+    toInput: (opts) => userFlowInput(parseArgs(UserFlowArgsSchema, opts)),
+    outputFiles: (output, opts) => (typeof opts['output'] === 'string' && output.mermaidDiagram
+      ? [{ path: resolve(opts['output']), content: output.mermaidDiagram, label: 'Mermaid diagram' }]
+      : []),
+  },
+  mcp: {
+    name: 'ux_user_flow',
+    description:
+      'Map user flows with Mermaid diagrams — analyze steps, decision points, and edge cases',
+    inputSchema: toolSchema(UserFlowArgsSchema, {
+      feature: 'Feature or task to map the user flow for',
+      userType: 'Target user persona or type',
+      context: 'Additional context about the application or domain',
+    }),
+    toInput: (args) => userFlowInput(parseArgs(UserFlowArgsSchema, args)),
+  },
+};
+
+const wireframe: CapabilityDefinition<WireframeInput, WireframeOutput> = {
+  id: 'wireframe',
+  name: 'Wireframe Advisor',
+  description: 'Generate wireframe recommendations with layout structure and ASCII wireframes',
+  keywords: ['wireframe', 'layout', 'page structure', 'information hierarchy', 'content zones'],
+  inputSchema: WireframeInputSchema,
+  outputSchema: WireframeOutputSchema,
+  fromRequest: (request) => wireframeInput({ feature: request }),
+  applyProfile: wireframeDefaults,
+  create: async (llm) => new (await import('./wireframe-advisor.js')).WireframeAdvisorCapability(llm),
+  cli: {
+    name: 'wireframe',
+    description: 'Generate wireframe recommendations',
+    label: 'Generating wireframe recommendations',
+    options: [
+      { flags: '--feature <feature>', description: 'Feature or screen to wireframe', required: true },
+      { flags: '--platform <platform>', description: 'Target platform (web, mobile, tablet, desktop)' },
+      { flags: '--constraints <constraints>', description: 'Design constraints or requirements' },
+    ],
+    toInput: (opts) => wireframeInput(parseArgs(WireframeArgsSchema, opts)),
+  },
+  mcp: {
+    name: 'ux_wireframe',
+    description:
+      'Generate wireframe recommendations with layout structure and ASCII wireframes',
+    inputSchema: toolSchema(WireframeArgsSchema, {
+      feature: 'Feature or screen to wireframe',
+      platform: 'Target platform for the wireframe',
+      constraints: 'Design constraints or requirements',
+    }),
+    toInput: (args) => wireframeInput(parseArgs(WireframeArgsSchema, args)),
+  },
+};
+
+const designCritique: CapabilityDefinition<DesignCritiqueInput, DesignCritiqueOutput> = {
+  id: 'design-critique',
+  name: 'Design Critique',
+  description: "Critique a design using Nielsen's heuristics",
+  keywords: ['critique', 'review', 'evaluate', 'heuristic', 'usability', 'feedback'],
+  inputSchema: DesignCritiqueInputSchema,
+  outputSchema: DesignCritiqueOutputSchema,
+  fromRequest: (request) => designCritiqueInput({ description: request }),
+  create: async (llm) => new (await import('./design-critique.js')).DesignCritiqueCapability(llm),
+  cli: {
+    name: 'design-critique',
+    description: "Critique a design using Nielsen's heuristics",
+    label: 'Running design critique',
+    options: [
+      { flags: '--description <desc>', description: 'Description of the design to critique' },
+      { flags: '--code <file>', description: 'UI code or path to file', file: true },
+    ],
+    toInput: (opts) => {
+      if (!opts['code'] && !opts['description']) {
+        throw missingTarget('--description or --code');
+      }
+      return designCritiqueInput(parseArgs(DesignCritiqueArgsSchema, opts));
+    },
+  },
+  mcp: {
+    name: 'ux_design_critique',
+    description:
+      "Critique a design using Nielsen's heuristics — evaluate usability, consistency, and error prevention",
+    inputSchema: toolSchema(DesignCritiqueArgsSchema, {
+      description: 'Description of the design to critique',
+      code: 'UI code implementing the design',
+      screenshot: 'Base64-encoded screenshot or image URL of the design',
+    }),
+    toInput: (args) => designCritiqueInput(parseArgs(DesignCritiqueArgsSchema, args)),
+  },
+};
+
+export const BUILTIN_CAPABILITIES: readonly CapabilityDefinition[] = [
+  designSystem,
+  componentArchitecture,
+  accessibilityAudit,
+  userFlow,
+  wireframe,
+  designCritique,
+] as readonly CapabilityDefinition[];
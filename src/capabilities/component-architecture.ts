@@ -4,7 +4,7 @@
  * @author Charley Scholz, ELEV8
  * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
  * @created 2026-02-23
- * @updated 2026-02-23
+ * @updated 2026-10-19
  */
 
 import type { LLMClient } from '../core/llm-client.js';
@@ -13,30 +13,16 @@ import type {
   ComponentArchInput,
   ComponentArchOutput,
   ComponentSpec,
+  ExecutionContext,
 } from '../core/types.js';
 import { UXPilotError } from '../core/types.js';
-
-const SYSTEM_PROMPT = `You are an expert frontend architect specializing in component-based UI systems.
-
-Analyze the given page, feature, or code and produce a comprehensive component architecture recommendation. You must:
-
-1. Break the UI into a hierarchical component tree
-2. Define a typed props interface for each component
-3. Identify all local and shared state
-4. Recommend composition patterns (compound components, render props, slots, etc.)
-5. Produce a Mermaid data flow diagram showing how data moves between components
-6. Include accessibility requirements for every component
-
-Each component spec must include:
-- name: PascalCase component name
-- description: what it renders and why
-- props: array of {name, type, required, defaultValue?, description}
-- state: array of {name, type, initialValue, description}
-- events: array of {name, payload, description}
-- accessibilityRequirements: array of strings
-- children: nested component specs (recursive)
-
-Output valid JSON. No commentary outside JSON.`;
+import { s } from '../core/schema.js';
+import { ComponentArchOutputSchema } from '../core/schemas.js';
+import type { PromptVariables } from '../core/prompt-registry.js';
+import { defaultPrompts } from '../core/prompt-registry.js';
+import { describeChunk, runParts, splitInput } from '../core/input-chunking.js';
+import { Redactor } from '../core/redaction.js';
+import { traced } from '../core/tracing.js';
 
 interface LLMComponentArchResponse {
   rootComponent: ComponentSpec;
@@ -45,6 +31,19 @@ interface LLMComponentArchResponse {
   dataFlowDiagram: string;
 }
 
+const RESPONSE_SCHEMA = s.object<LLMComponentArchResponse>({
+  rootComponent: ComponentArchOutputSchema.shape.rootComponent,
+  stateManagementApproach: ComponentArchOutputSchema.shape.stateManagementApproach,
+  compositionPatterns: ComponentArchOutputSchema.shape.compositionPatterns,
+  dataFlowDiagram: ComponentArchOutputSchema.shape.dataFlowDiagram,
+});
+
+/** Chunked-generation plan: the component tree gets a response of its own. */
+const RESPONSE_SECTIONS = [
+  ['rootComponent'],
+  ['stateManagementApproach', 'compositionPatterns', 'dataFlowDiagram'],
+];
+
 export class ComponentArchCapability implements Capability<ComponentArchInput, ComponentArchOutput> {
   readonly id = 'component-architecture' as const;
   readonly name = 'Component Architecture';
@@ -56,17 +55,42 @@ export class ComponentArchCapability implements Capability<ComponentArchInput, C
     this.llm = llm;
   }
 
-  async execute(input: ComponentArchInput): Promise<ComponentArchOutput> {
+  async execute(input: ComponentArchInput, context: ExecutionContext = {}): Promise<ComponentArchOutput> {
     this.validateInput(input);
 
-    const userMessage = this.buildPrompt(input);
-    const structured = await this.llm.chatJSON<LLMComponentArchResponse>(
-      SYSTEM_PROMPT,
-      userMessage,
-      { maxTokens: 8192 },
-    );
+    const redactor = context.redactor ?? new Redactor(context.redaction);
+    const existingCode = redactor.redact(input.existingCode, 'existingCode');
+    const chunks = existingCode ? splitInput(existingCode, { maxTokens: context.inputChunkTokens }) : [];
+    const prompts = chunks.length > 1
+      ? chunks.map((chunk) => defaultPrompts.render(
+        'component-architecture',
+        this.promptVariables({ ...input, existingCode: chunk.content }, describeChunk(chunk, chunks)),
+        context,
+      ))
+      : [defaultPrompts.render('component-architecture', this.promptVariables({ ...input, existingCode }), context)];
+    context.onEvent?.({ type: 'phase', phase: 'prompt-built' });
+
+    const responses = await runParts(prompts, context, (prompt, partContext) => this.llm.chatJSON<LLMComponentArchResponse>(
+      prompt.system,
+      prompt.user,
+      { maxTokens: 8192, schema: RESPONSE_SCHEMA, sections: RESPONSE_SECTIONS, context: partContext },
+    ));
+    const merged = mergeArchitectures(responses);
+
+    // The model only saw placeholders and copies them into defaults, types and
+    // prose; the caller gets the real values back.
+    const structured: LLMComponentArchResponse = {
+      rootComponent: restoreSpec(merged.rootComponent, redactor),
+      stateManagementApproach: redactor.restore(merged.stateManagementApproach),
+      compositionPatterns: merged.compositionPatterns.map((pattern) => redactor.restore(pattern)),
+      dataFlowDiagram: redactor.restore(merged.dataFlowDiagram),
+    };
 
-    const markdownReport = this.generateReport(input, structured);
+    context.onEvent?.({ type: 'phase', phase: 'report-rendering' });
+    const markdownReport = traced(context, 'report.generate', { 'capability.id': this.id }, () => (
+      this.generateReport(input, structured)
+    ));
+    const redactions = redactor.report();
 
     return {
       rootComponent: structured.rootComponent,
@@ -74,6 +98,7 @@ export class ComponentArchCapability implements Capability<ComponentArchInput, C
       compositionPatterns: structured.compositionPatterns,
       dataFlowDiagram: structured.dataFlowDiagram,
       markdownReport,
+      ...(redactions.length > 0 ? { redactions } : {}),
     };
   }
 
@@ -87,30 +112,14 @@ export class ComponentArchCapability implements Capability<ComponentArchInput, C
     }
   }
 
-  private buildPrompt(input: ComponentArchInput): string {
-    const parts: string[] = [];
-
-    if (input.description) {
-      parts.push(`## Feature / Page Description\n${input.description}`);
-    }
-
-    if (input.existingCode) {
-      parts.push(`## Existing Code\n\`\`\`\n${input.existingCode}\n\`\`\``);
-    }
-
-    if (input.framework && input.framework !== 'agnostic') {
-      parts.push(`Framework: ${input.framework}`);
-    }
-
-    if (input.additionalContext) {
-      parts.push(`## Additional Context\n${input.additionalContext}`);
-    }
-
-    parts.push('');
-    parts.push('Respond with JSON: {rootComponent, stateManagementApproach, compositionPatterns, dataFlowDiagram}');
-    parts.push('dataFlowDiagram must be valid Mermaid flowchart syntax.');
-
-    return parts.join('\n\n');
+  private promptVariables(input: ComponentArchInput, chunk?: string): PromptVariables {
+    return {
+      description: input.description,
+      existingCode: input.existingCode,
+      chunk,
+      framework: input.framework && input.framework !== 'agnostic' ? input.framework : undefined,
+      additionalContext: input.additionalContext,
+    };
   }
 
   private generateReport(input: ComponentArchInput, data: LLMComponentArchResponse): string {
@@ -211,3 +220,127 @@ export class ComponentArchCapability implements Capability<ComponentArchInput, C
     }
   }
 }
+
+/**
+ * Combines the analyses of a split input. Components that share a name are
+ * merged, a part's root that another part's tree already contains is grafted
+ * in there, and any roots left over are gathered under one. The data flow
+ * diagrams become one flowchart.
+ */
+function mergeArchitectures(responses: LLMComponentArchResponse[]): LLMComponentArchResponse {
+  const [only] = responses;
+  if (responses.length === 1 && only) {
+    return only;
+  }
+
+  let roots = mergeSpecs(responses.map((response) => response.rootComponent));
+  for (const name of roots.map((root) => root.name)) {
+    const spec = roots.find((root) => root.name === name);
+    if (!spec || roots.length === 1) continue;
+    for (const host of roots) {
+      const grafted = host === spec ? undefined : graft(host, spec);
+      if (grafted) {
+        roots = roots.filter((root) => root !== spec).map((root) => (root === host ? grafted : root));
+        break;
+      }
+    }
+  }
+
+  const [root] = roots;
+  return {
+    rootComponent: roots.length === 1 && root ? root : {
+      name: 'Root',
+      description: `Top-level components found across ${responses.length} parts of the input`,
+      props: [],
+      state: [],
+      events: [],
+      accessibilityRequirements: [],
+      children: roots,
+    },
+    stateManagementApproach: [...new Set(responses.map((response) => response.stateManagementApproach.trim()).filter(Boolean))]
+      .join('\n\n'),
+    compositionPatterns: [...new Set(responses.flatMap((response) => response.compositionPatterns))],
+    dataFlowDiagram: mergeFlowcharts(responses.map((response) => response.dataFlowDiagram)),
+  };
+}
+
+/** Merges same-named specs, keeping first-seen order. */
+function mergeSpecs(specs: ComponentSpec[]): ComponentSpec[] {
+  const byName = new Map<string, ComponentSpec>();
+  for (const spec of specs) {
+    const existing = byName.get(spec.name);
+    byName.set(spec.name, existing ? mergeSpec(existing, spec) : spec);
+  }
+  return [...byName.values()];
+}
+
+function mergeSpec(first: ComponentSpec, second: ComponentSpec): ComponentSpec {
+  const byName = <T extends { name: string }>(a: T[], b: T[]): T[] => (
+    [...a, ...b.filter((item) => !a.some((other) => other.name === item.name))]
+  );
+  return {
+    name: first.name,
+    description: first.description || second.description,
+    props: byName(first.props, second.props),
+    state: byName(first.state, second.state),
+    events: byName(first.events, second.events),
+    accessibilityRequirements: [...new Set([...first.accessibilityRequirements, ...second.accessibilityRequirements])],
+    children: mergeSpecs([...first.children, ...second.children]),
+  };
+}
+
+/** `tree` with `spec` merged into its first descendant of the same name, or undefined when it has none. */
+function graft(tree: ComponentSpec, spec: ComponentSpec): ComponentSpec | undefined {
+  let grafted = false;
+  const children = tree.children.map((child) => {
+    if (grafted) return child;
+    const replacement = child.name === spec.name ? mergeSpec(child, spec) : graft(child, spec);
+    if (!replacement) return child;
+    grafted = true;
+    return replacement;
+  });
+  return grafted ? { ...tree, children } : undefined;
+}
+
+/** `spec` and its children with every placeholder in their values and descriptions restored. */
+function restoreSpec(spec: ComponentSpec, redactor: Redactor): ComponentSpec {
+  const restore = (text: string): string => redactor.restore(text);
+  return {
+    ...spec,
+    description: restore(spec.description),
+    props: spec.props.map((prop) => ({
+      ...prop,
+      type: restore(prop.type),
+      ...(prop.defaultValue !== undefined ? { defaultValue: restore(prop.defaultValue) } : {}),
+      description: restore(prop.description),
+    })),
+    state: spec.state.map((entry) => ({
+      ...entry,
+      type: restore(entry.type),
+      initialValue: restore(entry.initialValue),
+      description: restore(entry.description),
+    })),
+    events: spec.events.map((event) => ({
+      ...event,
+      payload: restore(event.payload),
+      description: restore(event.description),
+    })),
+    accessibilityRequirements: spec.accessibilityRequirements.map(restore),
+    children: spec.children.map((child) => restoreSpec(child, redactor)),
+  };
+}
+
+/** One Mermaid flowchart from several: the first header, then every distinct statement. */
+function mergeFlowcharts(diagrams: string[]): string {
+  const header = /^\s*((?:flowchart|graph)\b.*)$/m.exec(diagrams.join('\n'))?.[1]?.trim() ?? 'flowchart TD';
+  const statements = new Set<string>();
+  for (const diagram of diagrams) {
+    for (const line of diagram.split('\n')) {
+      const statement = line.trim();
+      if (statement && !statement.startsWith('```') && !/^(?:flowchart|graph)\b/.test(statement)) {
+        statements.add(statement);
+      }
+    }
+  }
+  return [header, ...[...statements].map((statement) => `  ${statement}`)].join('\n');
+}
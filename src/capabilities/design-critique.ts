@@ -4,7 +4,7 @@
  * @author Charley Scholz, ELEV8
  * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
  * @created 2026-02-23
- * @updated 2026-02-23
+ * @updated 2026-10-19
  */
 
 import type { LLMClient } from '../core/llm-client.js';
@@ -13,37 +13,18 @@ import type {
   CritiqueIssue,
   DesignCritiqueInput,
   DesignCritiqueOutput,
+  ExecutionContext,
   HeuristicScore,
 } from '../core/types.js';
 import { UXPilotError } from '../core/types.js';
+import { s } from '../core/schema.js';
+import { DesignCritiqueOutputSchema } from '../core/schemas.js';
+import type { PromptVariables } from '../core/prompt-registry.js';
+import { defaultPrompts } from '../core/prompt-registry.js';
+import { Redactor } from '../core/redaction.js';
+import { traced } from '../core/tracing.js';
 import { NIELSEN_HEURISTICS } from '../knowledge/nielsen-heuristics.js';
 
-const SYSTEM_PROMPT = `You are a senior UX design critic with deep knowledge of usability principles.
-
-Evaluate the given UI against Nielsen's 10 Usability Heuristics. Your approach:
-1. ALWAYS lead with strengths — what the design does well, mapped to specific heuristics
-2. Then identify issues — each mapped to a heuristic, with severity 1-4:
-   - 1: Cosmetic — fix if time permits
-   - 2: Minor — low priority fix
-   - 3: Major — important to fix, top priority
-   - 4: Catastrophe — must fix before release
-3. Score each heuristic 0-10 (10 = perfect adherence)
-4. Provide priority actions sorted by impact and effort
-
-The 10 heuristics:
-1. Visibility of System Status
-2. Match Between System and Real World
-3. User Control and Freedom
-4. Consistency and Standards
-5. Error Prevention
-6. Recognition Rather Than Recall
-7. Flexibility and Efficiency of Use
-8. Aesthetic and Minimalist Design
-9. Help Users Recognize, Diagnose, and Recover from Errors
-10. Help and Documentation
-
-Output valid JSON. No commentary outside JSON.`;
-
 interface LLMCritiqueResponse {
   strengths: Array<{
     area: string;
@@ -60,6 +41,13 @@ interface LLMCritiqueResponse {
   }>;
 }
 
+const RESPONSE_SCHEMA = s.object<LLMCritiqueResponse>({
+  strengths: DesignCritiqueOutputSchema.shape.strengths,
+  issues: DesignCritiqueOutputSchema.shape.issues,
+  heuristicScores: DesignCritiqueOutputSchema.shape.heuristicScores,
+  priorityActions: DesignCritiqueOutputSchema.shape.priorityActions,
+});
+
 export class DesignCritiqueCapability implements Capability<DesignCritiqueInput, DesignCritiqueOutput> {
   readonly id = 'design-critique' as const;
   readonly name = 'Design Critique';
@@ -71,23 +59,45 @@ export class DesignCritiqueCapability implements Capability<DesignCritiqueInput,
     this.llm = llm;
   }
 
-  async execute(input: DesignCritiqueInput): Promise<DesignCritiqueOutput> {
+  async execute(input: DesignCritiqueInput, context: ExecutionContext = {}): Promise<DesignCritiqueOutput> {
     this.validateInput(input);
 
-    const userMessage = this.buildPrompt(input);
-    const result = await this.llm.chatJSON<LLMCritiqueResponse>(
-      SYSTEM_PROMPT,
-      userMessage,
-      { maxTokens: 8192 },
+    const redactor = context.redactor ?? new Redactor(context.redaction);
+    const target = redactor.redact(input.target, 'target');
+    const prompt = defaultPrompts.render('design-critique', this.promptVariables({ ...input, target }), context);
+    context.onEvent?.({ type: 'phase', phase: 'prompt-built' });
+
+    const response = await this.llm.chatJSON<LLMCritiqueResponse>(
+      prompt.system,
+      prompt.user,
+      { maxTokens: 8192, schema: RESPONSE_SCHEMA, context },
     );
 
+    // The model only saw placeholders; quoted evidence and the advice built on it go back with the real values.
+    const result: LLMCritiqueResponse = {
+      ...response,
+      strengths: response.strengths.map((strength) => ({ ...strength, description: redactor.restore(strength.description) })),
+      issues: response.issues.map((issue) => ({
+        ...issue,
+        issue: redactor.restore(issue.issue),
+        evidence: redactor.restore(issue.evidence),
+        recommendation: redactor.restore(issue.recommendation),
+      })),
+      priorityActions: response.priorityActions.map((action) => ({ ...action, action: redactor.restore(action.action) })),
+    };
+
     const overallScore = this.calculateOverallScore(result.heuristicScores);
-    const markdownReport = this.generateReport(input, result, overallScore);
+    context.onEvent?.({ type: 'phase', phase: 'report-rendering' });
+    const markdownReport = traced(context, 'report.generate', { 'capability.id': this.id }, () => (
+      this.generateReport(input, result, overallScore)
+    ));
+    const redactions = redactor.report();
 
     return {
       ...result,
       overallScore,
       markdownReport,
+      ...(redactions.length > 0 ? { redactions } : {}),
     };
   }
 
@@ -110,39 +120,20 @@ export class DesignCritiqueCapability implements Capability<DesignCritiqueInput,
     }
   }
 
-  private buildPrompt(input: DesignCritiqueInput): string {
-    const heuristicsReference = NIELSEN_HEURISTICS
-      .map((h) => `${h.id}. ${h.name}: ${h.description}`)
-      .join('\n');
-
-    const parts = [
-      `## Target (${input.targetType})`,
-      '',
-      input.targetType === 'component-code'
+  private promptVariables(input: DesignCritiqueInput): PromptVariables {
+    return {
+      targetType: input.targetType,
+      target: input.targetType === 'component-code'
         ? `\`\`\`\n${input.target}\n\`\`\``
         : input.target,
-      '',
-      `## Nielsen's Heuristics Reference`,
-      '',
-      heuristicsReference,
-    ];
-
-    if (input.focusAreas?.length) {
-      parts.push('', `## Focus Areas`, '', input.focusAreas.map((a) => `- ${a}`).join('\n'));
-    }
-
-    if (input.additionalContext) {
-      parts.push('', `## Additional Context`, '', input.additionalContext);
-    }
-
-    parts.push('');
-    parts.push('Respond with JSON: {strengths, issues, heuristicScores, priorityActions}');
-    parts.push('strengths: [{area, description, heuristicId}]');
-    parts.push('issues: [{heuristicId, heuristicName, severity (1-4), issue, evidence, recommendation}]');
-    parts.push('heuristicScores: [{heuristicId, heuristicName, score (0-10), maxScore: 10}]');
-    parts.push('priorityActions: [{priority, action, impact, effort}]');
-
-    return parts.join('\n');
+      heuristics: NIELSEN_HEURISTICS
+        .map((h) => `${h.id}. ${h.name}: ${h.description}`)
+        .join('\n'),
+      focusAreas: input.focusAreas?.length
+        ? input.focusAreas.map((a) => `- ${a}`).join('\n')
+        : undefined,
+      additionalContext: input.additionalContext,
+    };
   }
 
   private calculateOverallScore(scores: HeuristicScore[]): number {
@@ -4,7 +4,7 @@
  * @author Charley Scholz, ELEV8
  * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
  * @created 2026-02-23
- * @updated 2026-02-23
+ * @updated 2026-10-19
  */
 
 import type { LLMClient } from '../core/llm-client.js';
@@ -12,30 +12,91 @@ import type {
   Capability,
   DesignSystemInput,
   DesignSystemOutput,
+  ColorScale,
+  ColorTheme,
   DesignTokens,
+  ExecutionContext,
+  TypographyToken,
 } from '../core/types.js';
 import { UXPilotError } from '../core/types.js';
+import { s } from '../core/schema.js';
+import { DesignSystemOutputSchema } from '../core/schemas.js';
+import type { PromptVariables } from '../core/prompt-registry.js';
+import { defaultPrompts } from '../core/prompt-registry.js';
+import { traced } from '../core/tracing.js';
+import { hexToHsl, hslToHex, isHexColor, WCAG_CONTRAST } from '../knowledge/color-math.js';
+import { buildContrastMatrix, evaluateContrast } from '../knowledge/contrast-verifier.js';
+import {
+  generateColorScale,
+  generateColorScaleFromHex,
+  generateSpacingScale,
+  generateTypeScale,
+  STANDARD_BORDER_RADII,
+  STANDARD_BREAKPOINTS,
+  STANDARD_SHADOWS,
+} from '../knowledge/design-tokens.js';
+import { buildSemanticThemes, SEMANTIC_ROLES } from '../knowledge/semantic-themes.js';
 
-const SYSTEM_PROMPT = `You are an expert design systems engineer. You create production-quality design token sets that follow industry best practices.
+interface LLMDesignSystemResponse {
+  colorNames: { primary: string; secondary: string; neutral: string };
+  rationale: string;
+  componentInventory: DesignSystemOutput['componentInventory'];
+}
 
-Given brand requirements, produce a complete design token system. You must:
-1. Generate color palettes with 10-stop scales (50, 100, 200, 300, 400, 500, 600, 700, 800, 900) for each color family
-2. Calculate WCAG contrast ratios for each color against white (#FFFFFF) and black (#000000)
-3. Create a typography scale using the requested ratio
-4. Define an 8-point grid spacing system (with 4px half-step)
-5. Set responsive breakpoints
-6. Define elevation/shadow tokens
-7. Define border-radius tokens
-8. Recommend a component inventory prioritized by necessity
+const RESPONSE_SCHEMA = s.object<LLMDesignSystemResponse>({
+  colorNames: s.object({ primary: s.string(), secondary: s.string(), neutral: s.string() }),
+  rationale: DesignSystemOutputSchema.shape.rationale,
+  componentInventory: DesignSystemOutputSchema.shape.componentInventory,
+});
 
-Output valid JSON matching the exact schema requested. No commentary outside JSON.`;
+/** Primary base when neither the input nor the project profile names a brand color. */
+const DEFAULT_PRIMARY = '#2563eb';
 
-interface LLMDesignSystemResponse {
-  tokens: DesignTokens;
-  contrastReport: DesignSystemOutput['contrastReport'];
-  componentInventory: DesignSystemOutput['componentInventory'];
+const SEMANTIC_BASES = {
+  success: '#16a34a',
+  warning: '#d97706',
+  error: '#dc2626',
+  info: '#0284c7',
+} as const;
+
+/** Neutrals carry a trace of the primary hue. */
+const NEUTRAL_SATURATION = 8;
+
+const BASE_FONT_SIZE_PX = 16;
+const SPACING_BASE_PX = 4;
+const FALLBACK_FONT_STACK = 'system-ui, -apple-system, "Segoe UI", Roboto, sans-serif';
+const MONO_FONT_STACK = 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace';
+
+type ColorFamily = keyof Omit<DesignTokens['colors'], 'semantic'> | keyof DesignTokens['colors']['semantic'];
+
+interface ContrastEndpoint {
+  label: string;
+  hex: string;
 }
 
+const WHITE: ContrastEndpoint = { label: 'white', hex: '#ffffff' };
+
+/**
+ * Pairs every design system needs to get right, as [foreground, background]:
+ * body and muted text, text on surfaces, links, and labels on filled buttons
+ * and status colors.
+ */
+const CONTRAST_PAIRS: ReadonlyArray<readonly [ColorFamily | 'white', number, ColorFamily | 'white', number]> = [
+  ['neutral', 900, 'white', 0],
+  ['neutral', 600, 'white', 0],
+  ['neutral', 900, 'neutral', 50],
+  ['primary', 600, 'white', 0],
+  ['white', 0, 'primary', 500],
+  ['white', 0, 'primary', 600],
+  ['secondary', 600, 'white', 0],
+  ['white', 0, 'secondary', 500],
+  ['success', 700, 'white', 0],
+  ['warning', 700, 'white', 0],
+  ['error', 700, 'white', 0],
+  ['info', 700, 'white', 0],
+  ['white', 0, 'error', 600],
+];
+
 export class DesignSystemCapability implements Capability<DesignSystemInput, DesignSystemOutput> {
   readonly id = 'design-system' as const;
   readonly name = 'Design System Generation';
@@ -47,24 +108,45 @@ export class DesignSystemCapability implements Capability<DesignSystemInput, Des
     this.llm = llm;
   }
 
-  async execute(input: DesignSystemInput): Promise<DesignSystemOutput> {
+  /**
+   * Tokens and contrast ratios are computed here from the brand colors and
+   * the knowledge base; the model only names the color families, explains
+   * the choices, and recommends components.
+   */
+  async execute(input: DesignSystemInput, context: ExecutionContext = {}): Promise<DesignSystemOutput> {
     this.validateInput(input);
 
-    const userMessage = this.buildPrompt(input);
+    const tokens = this.buildTokens(input);
+    const contrastReport = this.buildContrastReport(tokens);
+
+    const prompt = defaultPrompts.render('design-system', this.promptVariables(input, tokens, contrastReport), context);
+    context.onEvent?.({ type: 'phase', phase: 'prompt-built' });
+
     const structured = await this.llm.chatJSON<LLMDesignSystemResponse>(
-      SYSTEM_PROMPT,
-      userMessage,
-      { maxTokens: 8192 },
+      prompt.system,
+      prompt.user,
+      { maxTokens: 4096, schema: RESPONSE_SCHEMA, context },
     );
 
-    const markdownReport = this.generateReport(input, structured);
+    tokens.colors.primary.name = structured.colorNames.primary;
+    tokens.colors.secondary.name = structured.colorNames.secondary;
+    tokens.colors.neutral.name = structured.colorNames.neutral;
 
-    return {
-      tokens: structured.tokens,
-      contrastReport: structured.contrastReport,
+    const output = {
+      tokens,
+      contrastReport,
+      contrastMatrix: buildContrastMatrix(tokens),
+      themes: buildSemanticThemes(tokens),
       componentInventory: structured.componentInventory,
-      markdownReport,
+      rationale: structured.rationale,
     };
+
+    context.onEvent?.({ type: 'phase', phase: 'report-rendering' });
+    const markdownReport = traced(context, 'report.generate', { 'capability.id': this.id }, () => (
+      this.generateReport(input, output)
+    ));
+
+    return { ...output, markdownReport };
   }
 
   private validateInput(input: DesignSystemInput): void {
@@ -75,46 +157,151 @@ export class DesignSystemCapability implements Capability<DesignSystemInput, Des
         { field: 'brandName' },
       );
     }
+
+    const invalid = (input.colors ?? []).filter((color) => !isHexColor(color));
+    if (invalid.length > 0) {
+      throw new UXPilotError(
+        `colors must be hex values like #1a73e8 (received ${invalid.join(', ')})`,
+        'INVALID_INPUT',
+        { field: 'colors', received: invalid },
+      );
+    }
   }
 
-  private buildPrompt(input: DesignSystemInput): string {
-    const parts = [
-      `Brand: ${input.brandName}`,
-    ];
+  /* ------------------------------------------------------------------------ */
+  /*  Deterministic tokens                                                    */
+  /* ------------------------------------------------------------------------ */
 
-    if (input.colors?.length) {
-      parts.push(`Brand colors: ${input.colors.join(', ')}`);
-    }
+  /**
+   * Primary and secondary scales come from the first two brand colors (the
+   * secondary defaults to the primary's complement), neutrals from the
+   * primary hue at low saturation, and status colors from fixed bases.
+   */
+  private buildTokens(input: DesignSystemInput): DesignTokens {
+    const primary = input.colors?.[0] ?? DEFAULT_PRIMARY;
+    const primaryHsl = hexToHsl(primary) ?? { h: 0, s: 0, l: 50 };
+    const secondary = input.colors?.[1] ?? hslToHex((primaryHsl.h + 180) % 360, primaryHsl.s, primaryHsl.l);
 
-    if (input.typographyPreferences) {
-      const tp = input.typographyPreferences;
-      if (tp.headingFont) parts.push(`Heading font: ${tp.headingFont}`);
-      if (tp.bodyFont) parts.push(`Body font: ${tp.bodyFont}`);
-      if (tp.monoFont) parts.push(`Mono font: ${tp.monoFont}`);
-      if (tp.scaleRatio) parts.push(`Type scale ratio: ${tp.scaleRatio}`);
-    }
+    return {
+      colors: {
+        primary: scaleFromHex('Primary', primary),
+        secondary: scaleFromHex('Secondary', secondary),
+        neutral: {
+          name: 'Neutral',
+          stops: [...generateColorScale({ name: 'Neutral', hue: primaryHsl.h, saturation: NEUTRAL_SATURATION })],
+        },
+        semantic: {
+          success: scaleFromHex('Success', SEMANTIC_BASES.success),
+          warning: scaleFromHex('Warning', SEMANTIC_BASES.warning),
+          error: scaleFromHex('Error', SEMANTIC_BASES.error),
+          info: scaleFromHex('Info', SEMANTIC_BASES.info),
+        },
+      },
+      typography: this.buildTypography(input),
+      spacing: generateSpacingScale(SPACING_BASE_PX).map((step) => ({ name: step.name, value: step.rem, px: step.px })),
+      breakpoints: STANDARD_BREAKPOINTS.map((bp) => ({ name: bp.name, value: `${bp.minWidth}px`, minWidth: bp.minWidth })),
+      shadows: STANDARD_SHADOWS.map((shadow) => ({ name: shadow.name, value: shadow.value })),
+      borderRadii: STANDARD_BORDER_RADII.map((radius) => ({ name: radius.name, value: radius.value })),
+    };
+  }
 
-    if (input.targetPlatform) {
-      parts.push(`Target platform: ${input.targetPlatform}`);
-    }
+  /** Modular scale (major third, minor third on mobile, unless requested); headings from 2xl up. */
+  private buildTypography(input: DesignSystemInput): TypographyToken[] {
+    const tp = input.typographyPreferences;
+    const ratio = tp?.scaleRatio ?? (input.targetPlatform === 'mobile' ? 'minor-third' : 'major-third');
+    const body = fontStack(tp?.bodyFont ?? tp?.headingFont, FALLBACK_FONT_STACK);
+    const heading = fontStack(tp?.headingFont ?? tp?.bodyFont, FALLBACK_FONT_STACK);
 
-    if (input.additionalContext) {
-      parts.push(`Additional context: ${input.additionalContext}`);
-    }
+    const tokens = generateTypeScale(BASE_FONT_SIZE_PX, ratio).map((step): TypographyToken => ({
+      name: step.name,
+      fontSize: step.rem,
+      fontWeight: step.suggestedWeight,
+      lineHeight: step.suggestedLineHeight,
+      // Large sizes read better slightly tightened.
+      letterSpacing: step.px >= 30 ? '-0.02em' : step.px >= 24 ? '-0.01em' : '0',
+      fontFamily: step.suggestedWeight >= 600 ? heading : body,
+    }));
+    tokens.push({
+      name: 'mono',
+      fontSize: '0.875rem',
+      fontWeight: 400,
+      lineHeight: '1.6',
+      letterSpacing: '0',
+      fontFamily: fontStack(tp?.monoFont, MONO_FONT_STACK),
+    });
+    return tokens;
+  }
 
-    parts.push('');
-    parts.push('Respond with a JSON object containing:');
-    parts.push('- "tokens": full design tokens object (colors with primary/secondary/neutral/semantic, typography, spacing, breakpoints, shadows, borderRadii)');
-    parts.push('- "contrastReport": array of {foreground, background, ratio, passesAA, passesAAA, passesAALargeText} for key color pairs');
-    parts.push('- "componentInventory": array of {name, category, priority: "essential"|"recommended"|"optional", description}');
-    parts.push('');
-    parts.push('Color scales must have stops: 50, 100, 200, 300, 400, 500, 600, 700, 800, 900');
-    parts.push('Each stop: {shade, hex, hsl, contrastOnWhite, contrastOnBlack}');
+  private buildContrastReport(tokens: DesignTokens): DesignSystemOutput['contrastReport'] {
+    const endpoint = (family: ColorFamily | 'white', shade: number): ContrastEndpoint => {
+      if (family === 'white') return WHITE;
+      const scale = family in tokens.colors.semantic
+        ? tokens.colors.semantic[family as keyof DesignTokens['colors']['semantic']]
+        : tokens.colors[family as keyof Omit<DesignTokens['colors'], 'semantic'>];
+      const stop = scale.stops.find((candidate) => candidate.shade === shade);
+      if (!stop) {
+        throw new UXPilotError(
+          `Contrast pair references ${family}-${shade}, which the ${family} scale does not have`,
+          'UNKNOWN',
+          { family, shade },
+        );
+      }
+      return { label: `${family}-${shade}`, hex: stop.hex };
+    };
+
+    return CONTRAST_PAIRS.map(([fgFamily, fgShade, bgFamily, bgShade]) => {
+      const fg = endpoint(fgFamily, fgShade);
+      const bg = endpoint(bgFamily, bgShade);
+      const result = evaluateContrast(fg.hex, bg.hex);
+      if (!result) {
+        throw new UXPilotError(
+          `Cannot compute contrast for ${fg.label} (${fg.hex}) on ${bg.label} (${bg.hex}): not a hex color`,
+          'UNKNOWN',
+          { foreground: fg.hex, background: bg.hex },
+        );
+      }
+      return {
+        foreground: `${fg.label} (${fg.hex})`,
+        background: `${bg.label} (${bg.hex})`,
+        ...result,
+      };
+    });
+  }
+
+  private promptVariables(
+    input: DesignSystemInput,
+    tokens: DesignTokens,
+    contrastReport: DesignSystemOutput['contrastReport'],
+  ): PromptVariables {
+    const tp = input.typographyPreferences;
+    const families = [
+      ['primary', tokens.colors.primary],
+      ['secondary', tokens.colors.secondary],
+      ['neutral', tokens.colors.neutral],
+    ] as const;
+    const palette = [
+      ...families.map(([family, scale]) => `- ${family}: ${scale.stops.map((stop) => `${stop.shade} ${stop.hex}`).join(', ')}`),
+      '',
+      'Contrast:',
+      ...contrastReport.map((pair) => (
+        `- ${pair.foreground} on ${pair.background}: ${pair.ratio.toFixed(2)}:1${pair.passesAA ? '' : pair.passesAALargeText ? ' (large text only)' : ' (fails AA)'}`
+      )),
+    ].join('\n');
 
-    return parts.join('\n');
+    return {
+      brandName: input.brandName,
+      colors: input.colors?.length ? input.colors.join(', ') : undefined,
+      headingFont: tp?.headingFont,
+      bodyFont: tp?.bodyFont,
+      monoFont: tp?.monoFont,
+      scaleRatio: tp?.scaleRatio,
+      targetPlatform: input.targetPlatform,
+      palette,
+      additionalContext: input.additionalContext,
+    };
   }
 
-  private generateReport(input: DesignSystemInput, data: LLMDesignSystemResponse): string {
+  private generateReport(input: DesignSystemInput, data: Omit<DesignSystemOutput, 'markdownReport'>): string {
     const lines: string[] = [
       `# Design System: ${input.brandName}`,
       '',
@@ -122,6 +309,8 @@ export class DesignSystemCapability implements Capability<DesignSystemInput, Des
       '',
       `Platform: ${input.targetPlatform ?? 'web'}`,
       '',
+      data.rationale,
+      '',
       '## Color Palette',
       '',
     ];
@@ -145,8 +334,10 @@ export class DesignSystemCapability implements Capability<DesignSystemInput, Des
 
     lines.push('### Semantic Colors');
     lines.push('');
-    for (const [name, scale] of Object.entries(data.tokens.colors.semantic)) {
-      lines.push(`- **${name}**: ${(scale as { stops: Array<{ hex: string }> }).stops[5]?.hex ?? 'N/A'} (500)`);
+    for (const [name, scale] of Object.entries(data.tokens.colors.semantic) as Array<[keyof typeof SEMANTIC_BASES, ColorScale]>) {
+      // The base sits on the stop nearest its lightness, not necessarily 500.
+      const base = scale.stops.find((stop) => stop.hex.toLowerCase() === SEMANTIC_BASES[name]);
+      lines.push(`- **${name}**: ${base ? `${base.hex} (${base.shade})` : 'N/A'}`);
     }
     lines.push('');
 
@@ -184,6 +375,35 @@ export class DesignSystemCapability implements Capability<DesignSystemInput, Des
     }
     lines.push('');
 
+    const { foregrounds, backgrounds, ratios } = data.contrastMatrix;
+    lines.push('## Contrast Matrix');
+    lines.push('');
+    lines.push('Backgrounds each text color passes on (AAA ≥ 7:1, AA ≥ 4.5:1, large text ≥ 3:1); the ratios are in `contrastMatrix`.');
+    lines.push('');
+    foregrounds.forEach((fg, i) => {
+      const levels = { AAA: [] as string[], AA: [] as string[], 'large text only': [] as string[] };
+      backgrounds.forEach((bg, j) => {
+        const ratio = ratios[i]?.[j] ?? 1;
+        if (bg.token === fg.token) return;
+        if (ratio >= WCAG_CONTRAST.AAA) levels.AAA.push(bg.token);
+        else if (ratio >= WCAG_CONTRAST.AA) levels.AA.push(bg.token);
+        else if (ratio >= WCAG_CONTRAST.AA_LARGE) levels['large text only'].push(bg.token);
+      });
+      const passes = Object.entries(levels)
+        .filter(([, tokens]) => tokens.length > 0)
+        .map(([level, tokens]) => `${level}: ${tokens.join(', ')}`);
+      lines.push(`- **${fg.token}** (${fg.hex}) — ${passes.length > 0 ? passes.join('; ') : 'no passing backgrounds'}`);
+    });
+    lines.push('');
+
+    lines.push('## Themes');
+    lines.push('');
+    lines.push('Semantic color roles per theme. Text roles are checked against the backgrounds they sit on (light and dark ≥ 4.5:1, high contrast ≥ 7:1), borders and focus rings as non-text (≥ 3:1; high contrast ≥ 4.5:1).');
+    lines.push('');
+    for (const theme of data.themes) {
+      lines.push(...themeSection(theme));
+    }
+
     lines.push('## Component Inventory');
     lines.push('');
     const grouped: Record<string, typeof data.componentInventory> = {};
@@ -204,3 +424,54 @@ export class DesignSystemCapability implements Capability<DesignSystemInput, Des
     return lines.join('\n');
   }
 }
+
+function scaleFromHex(name: string, hex: string): ColorScale {
+  return { name, stops: [...(generateColorScaleFromHex(name, hex) ?? [])] };
+}
+
+/** `"Inter", <fallback>`; just the fallback when no font was requested. */
+function fontStack(font: string | undefined, fallback: string): string {
+  if (!font?.trim()) return fallback;
+  const name = font.trim();
+  return `${/[\s,]/.test(name) && !/^["']/.test(name) ? `"${name}"` : name}, ${fallback}`;
+}
+
+const THEME_TITLES: Readonly<Record<ColorTheme['mode'], string>> = {
+  'light': 'Light',
+  'dark': 'Dark',
+  'high-contrast': 'High Contrast',
+};
+
+function themeSection(theme: ColorTheme): string[] {
+  const lines = [
+    `### ${THEME_TITLES[theme.mode]}`,
+    '',
+    '| Role | Token | Hex | Use |',
+    '|------|-------|-----|-----|',
+    ...theme.colors.map((color) => {
+      const token = color.adjustedFrom ? `${color.token} (from ${color.adjustedFrom})` : color.token;
+      const useCase = SEMANTIC_ROLES.find((definition) => definition.role === color.role)?.useCase ?? '';
+      return `| ${color.role} | ${token} | ${color.hex} | ${useCase} |`;
+    }),
+    '',
+  ];
+
+  const failures = theme.checks.filter((check) => !check.passes);
+  if (failures.length === 0) {
+    const lowest = Math.min(...theme.checks.map((check) => check.ratio));
+    lines.push(`All ${theme.checks.length} contrast checks pass (lowest ${lowest.toFixed(2)}:1).`);
+  } else {
+    lines.push(`⚠ ${failures.length} of ${theme.checks.length} contrast checks fail; no stop in the scale meets them:`);
+    lines.push('');
+    for (const check of failures) {
+      lines.push(`- ${check.foreground} on ${check.background} (${check.kind}): ${check.ratio.toFixed(2)}:1, needs ${check.required}:1`);
+    }
+  }
+  const adjusted = theme.colors.filter((color) => color.adjustedFrom);
+  if (adjusted.length > 0) {
+    lines.push('');
+    lines.push(`Adjusted to meet contrast: ${adjusted.map((color) => `${color.role} ${color.adjustedFrom} → ${color.token}`).join(', ')}.`);
+  }
+  lines.push('');
+  return lines;
+}
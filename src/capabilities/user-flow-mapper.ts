@@ -4,39 +4,23 @@
  * @author Charley Scholz, ELEV8
  * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
  * @created 2026-02-23
- * @updated 2026-02-23
+ * @updated 2026-10-19
  */
 
 import type { LLMClient } from '../core/llm-client.js';
 import type {
   Capability,
+  ExecutionContext,
   FlowStep,
   UserFlowInput,
   UserFlowOutput,
 } from '../core/types.js';
 import { UXPilotError } from '../core/types.js';
-
-const SYSTEM_PROMPT = `You are a UX researcher and information architect specializing in user flow analysis.
-
-Given a feature description, produce a comprehensive user flow analysis:
-
-1. Create a Mermaid flowchart diagram using flowchart TD syntax
-2. Identify all entry points into the flow
-3. Map the happy path (ideal user journey) as an ordered list of steps
-4. Identify all decision points with their possible outcomes
-5. Map error states with triggers, descriptions, and recovery paths
-6. Identify edge cases with their handling strategies
-
-Each flow step must have: id, label, type (start|action|decision|end|error), description.
-Transitions between steps: from (id), to (id), label, optional condition.
-
-The Mermaid diagram should use:
-- Rounded rectangles for start/end
-- Rectangles for actions
-- Diamonds for decisions
-- Hexagons for error states
-
-Output valid JSON. No commentary outside JSON.`;
+import { s } from '../core/schema.js';
+import { UserFlowOutputSchema } from '../core/schemas.js';
+import type { PromptVariables } from '../core/prompt-registry.js';
+import { defaultPrompts } from '../core/prompt-registry.js';
+import { traced } from '../core/tracing.js';
 
 interface LLMFlowResponse {
   mermaidDiagram: string;
@@ -57,6 +41,15 @@ interface LLMFlowResponse {
   }>;
 }
 
+const RESPONSE_SCHEMA = s.object<LLMFlowResponse>({
+  mermaidDiagram: UserFlowOutputSchema.shape.mermaidDiagram,
+  entryPoints: UserFlowOutputSchema.shape.entryPoints,
+  happyPath: UserFlowOutputSchema.shape.happyPath,
+  decisionPoints: UserFlowOutputSchema.shape.decisionPoints,
+  errorStates: UserFlowOutputSchema.shape.errorStates,
+  edgeCases: UserFlowOutputSchema.shape.edgeCases,
+});
+
 export class UserFlowMapperCapability implements Capability<UserFlowInput, UserFlowOutput> {
   readonly id = 'user-flow' as const;
   readonly name = 'User Flow Mapping';
@@ -68,17 +61,22 @@ export class UserFlowMapperCapability implements Capability<UserFlowInput, UserF
     this.llm = llm;
   }
 
-  async execute(input: UserFlowInput): Promise<UserFlowOutput> {
+  async execute(input: UserFlowInput, context: ExecutionContext = {}): Promise<UserFlowOutput> {
     this.validateInput(input);
 
-    const userMessage = this.buildPrompt(input);
+    const prompt = defaultPrompts.render('user-flow', this.promptVariables(input), context);
+    context.onEvent?.({ type: 'phase', phase: 'prompt-built' });
+
     const result = await this.llm.chatJSON<LLMFlowResponse>(
-      SYSTEM_PROMPT,
-      userMessage,
-      { maxTokens: 8192 },
+      prompt.system,
+      prompt.user,
+      { maxTokens: 8192, schema: RESPONSE_SCHEMA, context },
     );
 
-    const markdownReport = this.generateReport(input, result);
+    context.onEvent?.({ type: 'phase', phase: 'report-rendering' });
+    const markdownReport = traced(context, 'report.generate', { 'capability.id': this.id }, () => (
+      this.generateReport(input, result)
+    ));
 
     return {
       ...result,
@@ -96,29 +94,13 @@ export class UserFlowMapperCapability implements Capability<UserFlowInput, UserF
     }
   }
 
-  private buildPrompt(input: UserFlowInput): string {
-    const parts = [
-      `## Feature Description`,
-      '',
-      input.featureDescription,
-    ];
-
-    if (input.userPersona) {
-      parts.push('', `## User Persona`, '', input.userPersona);
-    }
-
-    if (input.existingFlows) {
-      parts.push('', `## Existing Flows`, '', input.existingFlows);
-    }
-
-    if (input.additionalContext) {
-      parts.push('', `## Additional Context`, '', input.additionalContext);
-    }
-
-    parts.push('');
-    parts.push('Respond with JSON: {mermaidDiagram, entryPoints, happyPath, decisionPoints, errorStates, edgeCases}');
-
-    return parts.join('\n');
+  private promptVariables(input: UserFlowInput): PromptVariables {
+    return {
+      featureDescription: input.featureDescription,
+      userPersona: input.userPersona,
+      existingFlows: input.existingFlows,
+      additionalContext: input.additionalContext,
+    };
   }
 
   private generateReport(input: UserFlowInput, data: LLMFlowResponse): string {
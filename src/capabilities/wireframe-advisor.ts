@@ -4,39 +4,23 @@
  * @author Charley Scholz, ELEV8
  * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
  * @created 2026-02-23
- * @updated 2026-02-23
+ * @updated 2026-10-19
  */
 
 import type { LLMClient } from '../core/llm-client.js';
 import type {
   Capability,
   ContentZone,
+  ExecutionContext,
   WireframeInput,
   WireframeOutput,
 } from '../core/types.js';
 import { UXPilotError } from '../core/types.js';
-
-const SYSTEM_PROMPT = `You are a senior UX designer specializing in information architecture and layout design.
-
-Given page/feature requirements, produce layout recommendations:
-
-1. Information Hierarchy — ordered list of content by importance (level 1 = most important), with rationale
-2. Content Zones — named regions with purpose, priority (1 = highest), suggested components, and placement description
-3. Navigation Pattern — which pattern to use (sidebar, top nav, tabs, breadcrumbs, etc.), why, and what items to include
-4. Responsive Strategy — for each breakpoint (mobile, tablet, desktop), specify layout changes
-5. ASCII Wireframes — one per target device, using box-drawing characters:
-   ┌─────────────────────┐
-   │  HEADER / NAV       │
-   ├─────┬───────────────┤
-   │ SB  │  MAIN CONTENT │
-   │     │               │
-   ├─────┴───────────────┤
-   │  FOOTER             │
-   └─────────────────────┘
-
-Keep wireframes clear with labeled zones. Use reasonable widths (60-80 chars for desktop, 30-40 for mobile).
-
-Output valid JSON. No commentary outside JSON.`;
+import { s } from '../core/schema.js';
+import { WireframeOutputSchema } from '../core/schemas.js';
+import type { PromptVariables } from '../core/prompt-registry.js';
+import { defaultPrompts } from '../core/prompt-registry.js';
+import { traced } from '../core/tracing.js';
 
 interface LLMWireframeResponse {
   informationHierarchy: Array<{
@@ -57,6 +41,14 @@ interface LLMWireframeResponse {
   asciiWireframes: Record<string, string>;
 }
 
+const RESPONSE_SCHEMA = s.object<LLMWireframeResponse>({
+  informationHierarchy: WireframeOutputSchema.shape.informationHierarchy,
+  contentZones: WireframeOutputSchema.shape.contentZones,
+  navigationPattern: WireframeOutputSchema.shape.navigationPattern,
+  responsiveStrategy: WireframeOutputSchema.shape.responsiveStrategy,
+  asciiWireframes: WireframeOutputSchema.shape.asciiWireframes,
+});
+
 export class WireframeAdvisorCapability implements Capability<WireframeInput, WireframeOutput> {
   readonly id = 'wireframe' as const;
   readonly name = 'Wireframe Advisor';
@@ -68,17 +60,22 @@ export class WireframeAdvisorCapability implements Capability<WireframeInput, Wi
     this.llm = llm;
   }
 
-  async execute(input: WireframeInput): Promise<WireframeOutput> {
+  async execute(input: WireframeInput, context: ExecutionContext = {}): Promise<WireframeOutput> {
     this.validateInput(input);
 
-    const userMessage = this.buildPrompt(input);
+    const prompt = defaultPrompts.render('wireframe', this.promptVariables(input), context);
+    context.onEvent?.({ type: 'phase', phase: 'prompt-built' });
+
     const result = await this.llm.chatJSON<LLMWireframeResponse>(
-      SYSTEM_PROMPT,
-      userMessage,
-      { maxTokens: 8192 },
+      prompt.system,
+      prompt.user,
+      { maxTokens: 8192, schema: RESPONSE_SCHEMA, context },
     );
 
-    const markdownReport = this.generateReport(input, result);
+    context.onEvent?.({ type: 'phase', phase: 'report-rendering' });
+    const markdownReport = traced(context, 'report.generate', { 'capability.id': this.id }, () => (
+      this.generateReport(input, result)
+    ));
 
     return {
       ...result,
@@ -96,30 +93,13 @@ export class WireframeAdvisorCapability implements Capability<WireframeInput, Wi
     }
   }
 
-  private buildPrompt(input: WireframeInput): string {
-    const parts = [
-      `## Page Requirements`,
-      '',
-      input.requirements,
-    ];
-
-    if (input.pageType) {
-      parts.push('', `Page type: ${input.pageType}`);
-    }
-
-    const devices = input.targetDevices ?? ['mobile', 'desktop'];
-    parts.push('', `Target devices: ${devices.join(', ')}`);
-    parts.push(`Create ASCII wireframes for: ${devices.join(', ')}`);
-
-    if (input.additionalContext) {
-      parts.push('', `## Additional Context`, '', input.additionalContext);
-    }
-
-    parts.push('');
-    parts.push('Respond with JSON: {informationHierarchy, contentZones, navigationPattern, responsiveStrategy, asciiWireframes}');
-    parts.push('asciiWireframes keys should be device names (e.g. "mobile", "desktop").');
-
-    return parts.join('\n');
+  private promptVariables(input: WireframeInput): PromptVariables {
+    return {
+      requirements: input.requirements,
+      pageType: input.pageType,
+      devices: (input.targetDevices ?? ['mobile', 'desktop']).join(', '),
+      additionalContext: input.additionalContext,
+    };
   }
 
   private generateReport(input: WireframeInput, data: LLMWireframeResponse): string {
@@ -5,43 +5,169 @@
  * @author Charley Scholz, ELEV8
  * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
  * @created 2026-02-23
- * @updated 2026-02-23
+ * @updated 2026-10-19
  */
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import { readFileSync, writeFileSync, existsSync } from 'node:fs';
-import { resolve } from 'node:path';
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
 import { createRequire } from 'node:module';
+import type { PipelineDefinition } from '../core/pipeline.js';
+import { loadPipelineFile } from '../core/pipeline.js';
+import { joinSourceFiles } from '../core/input-chunking.js';
+import { renderChanges } from '../core/output-diff.js';
+import type { ProjectProfile } from '../core/project-profile.js';
+import {
+  DEFAULT_PROFILE_FILE,
+  loadProjectProfile,
+  renderProfilePrompt,
+  resolveProfilePath,
+} from '../core/project-profile.js';
+import { defaultPrompts } from '../core/prompt-registry.js';
+import type { RoutePlan } from '../core/router.js';
+import type { ExecuteOptions, UXPilotOptions } from '../core/ux-ui-pilot.js';
 import { UXPilot } from '../core/ux-ui-pilot.js';
+import type { StructuredOutputMode } from '../core/llm-client.js';
+import type { LogLevel } from '../core/logger.js';
+import { JsonLogger, LOG_LEVELS } from '../core/logger.js';
+import { STRUCTURED_OUTPUT_MODES } from '../core/llm-client.js';
+import type { CapabilityEvent, CapabilityPhase, UsageReport } from '../core/types.js';
+import { UXPilotError } from '../core/types.js';
+import type { ProviderId } from '../core/llm-provider.js';
+import { PROVIDER_IDS } from '../core/llm-provider.js';
+import type { FixtureMode, FixtureOptions } from '../core/providers/fixture-provider.js';
+import { FIXTURE_MODES } from '../core/providers/fixture-provider.js';
+import type { CapabilityDefinition } from '../core/registry.js';
+import { defaultRegistry, loadPlugins, resolvePluginSpecifiers } from '../core/registry.js';
+import { ResponseCache } from '../core/response-cache.js';
+import type { RunRecord, RunSummary } from '../core/run-store.js';
+import type { Redaction } from '../core/redaction.js';
+import { RunStore } from '../core/run-store.js';
+import { toJSONSchema } from '../core/schema.js';
+import { createTraceExporters } from '../core/trace-exporters.js';
+import type { SpanExporter } from '../core/tracing.js';
+import type { PriceTable } from '../core/usage.js';
 
 const localRequire = createRequire(import.meta.url);
 const pkg: { version: string } = localRequire('../../package.json');
 
-type CapabilityId =
-  | 'design-system'
-  | 'component-architecture'
-  | 'accessibility-audit'
-  | 'user-flow'
-  | 'wireframe'
-  | 'design-critique';
-
 interface GlobalOptions {
   apiKey?: string;
   model?: string;
+  provider?: string;
+  baseUrl?: string;
+  localHandler?: string;
+  fixtures?: string;
+  fixturesDir?: string;
+  maxRetries?: number;
+  maxConcurrency?: number;
+  budget?: number;
+  prices?: string;
+  timeout?: number;
+  structuredOutput?: string;
+  maxContinuations?: number;
+  chunked?: boolean;
+  inputChunkTokens?: number;
+  /** Commander sets this to false for --no-cache. */
+  cache?: boolean;
+  /** Commander sets this to false for --no-history. */
+  history?: boolean;
+  plugin?: string[];
+  /** A profile path, or false for --no-profile. */
+  profile?: string | false;
+  logLevel?: string;
+  trace?: string;
+  /** Commander sets this to false for --no-redact. */
+  redact?: boolean;
   json?: boolean;
 }
 
+/** EX_TEMPFAIL — lets batch scripts tell "retry later" apart from real failures. */
+const EXIT_RATE_LIMITED = 75;
+
+/** 128 + SIGINT, matching what shells report for an interrupted command. */
+const EXIT_CANCELLED = 130;
+
 const program = new Command();
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
-function resolveApiKey(): string {
+function resolveProvider(): ProviderId {
+  const globals = program.opts<GlobalOptions>();
+  const provider = globals.provider ?? process.env.UX_PILOT_PROVIDER ?? 'anthropic';
+  if (!PROVIDER_IDS.includes(provider as ProviderId)) {
+    console.error(chalk.red(`Error: Unknown provider "${provider}".`));
+    console.error(chalk.yellow(`Supported providers: ${PROVIDER_IDS.join(', ')}`));
+    process.exit(1);
+  }
+  return provider as ProviderId;
+}
+
+function resolveFixtures(): FixtureOptions {
+  const globals = program.opts<GlobalOptions>();
+  const mode = globals.fixtures ?? process.env.UX_PILOT_FIXTURES ?? 'off';
+  if (!FIXTURE_MODES.includes(mode as FixtureMode)) {
+    console.error(chalk.red(`Error: Unknown fixture mode "${mode}".`));
+    console.error(chalk.yellow(`Supported modes: ${FIXTURE_MODES.join(', ')}`));
+    process.exit(1);
+  }
+  return {
+    mode: mode as FixtureMode,
+    dir: globals.fixturesDir ?? process.env.UX_PILOT_FIXTURES_DIR,
+  };
+}
+
+function resolveStructuredOutput(): StructuredOutputMode | undefined {
+  const globals = program.opts<GlobalOptions>();
+  const mode = globals.structuredOutput;
+  if (mode === undefined) return undefined;
+  if (!STRUCTURED_OUTPUT_MODES.includes(mode as StructuredOutputMode)) {
+    console.error(chalk.red(`Error: Unknown structured output mode "${mode}".`));
+    console.error(chalk.yellow(`Supported modes: ${STRUCTURED_OUTPUT_MODES.join(', ')}`));
+    process.exit(1);
+  }
+  return mode as StructuredOutputMode;
+}
+
+function resolveLogger(): JsonLogger | undefined {
+  const level = program.opts<GlobalOptions>().logLevel;
+  if (level === undefined) return undefined;
+  if (!LOG_LEVELS.includes(level as LogLevel)) {
+    console.error(chalk.red(`Error: Unknown log level "${level}".`));
+    console.error(chalk.yellow(`Supported levels: ${LOG_LEVELS.join(', ')}`));
+    process.exit(1);
+  }
+  return new JsonLogger({ level: level as LogLevel });
+}
+
+function resolveTracing(): SpanExporter[] | undefined {
+  const spec = program.opts<GlobalOptions>().trace;
+  if (spec === undefined) return undefined;
+  try {
+    return createTraceExporters(spec);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(chalk.red(`Error: ${message}`));
+    console.error(chalk.yellow('Use console, file:<path>, or otlp[:<url>], comma-separated.'));
+    process.exit(1);
+  }
+}
+
+function resolveApiKey(provider: ProviderId, fixtures: FixtureOptions): string | undefined {
   const globals = program.opts<GlobalOptions>();
-  const key = globals.apiKey ?? process.env.ANTHROPIC_API_KEY;
+  if (globals.apiKey) return globals.apiKey;
+
+  // Replayed runs never call the provider, so no credentials are needed.
+  if (fixtures.mode === 'replay') return undefined;
+
+  if (provider === 'openai') return process.env.OPENAI_API_KEY;
+  if (provider === 'local') return undefined;
+
+  const key = process.env.ANTHROPIC_API_KEY;
   if (!key) {
     console.error(
       chalk.red('Error: ANTHROPIC_API_KEY is required.'),
@@ -56,13 +182,31 @@ function resolveApiKey(): string {
   return key;
 }
 
-function applyModelOverride(): void {
+function resolvePrices(): PriceTable | undefined {
   const globals = program.opts<GlobalOptions>();
-  if (globals.model) {
-    process.env.ANTHROPIC_MODEL = globals.model;
+  if (!globals.prices) return undefined;
+
+  try {
+    const parsed: unknown = JSON.parse(readFileSync(resolve(globals.prices), 'utf-8'));
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('expected an object of { "<model>": { "inputPerMTok": n, "outputPerMTok": n } }');
+    }
+    return parsed as PriceTable;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(chalk.red(`Error: Could not read price table "${globals.prices}": ${message}`));
+    process.exit(1);
   }
 }
 
+function parseCount(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new InvalidArgumentError('Expected a non-negative integer.');
+  }
+  return parsed;
+}
+
 /**
  * If `value` points to an existing file, return its contents.
  * Otherwise return the raw string (which may be inline content).
@@ -76,27 +220,177 @@ function resolveFileContent(value: string | undefined): string | undefined {
   return value;
 }
 
-async function runCapability(
-  capabilityId: CapabilityId,
-  input: Record<string, unknown>,
-  label: string,
-): Promise<unknown> {
-  const apiKey = resolveApiKey();
-  applyModelOverride();
+/**
+ * Several values of a variadic file option (`--code a.tsx b.tsx`) become one
+ * target with a `// File:` line per file; inline values are numbered.
+ */
+function resolveFileContents(values: string[]): string | undefined {
+  const files = values.map((value, index) => {
+    const filePath = resolve(value);
+    return existsSync(filePath)
+      ? { path: value, content: readFileSync(filePath, 'utf-8') }
+      : { path: `inline-${index + 1}`, content: value };
+  });
+  return files.length > 0 ? joinSourceFiles(files) : undefined;
+}
+
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Plugins must be registered before Commander parses argv (they add
+ * subcommands), so `--plugin` is read from raw argv up front.
+ */
+function scanPluginArgs(argv: readonly string[]): string[] {
+  const specifiers: string[] = [];
+  argv.forEach((arg, index) => {
+    if (arg === '--plugin' && argv[index + 1]) {
+      specifiers.push(argv[index + 1] as string);
+    } else if (arg.startsWith('--plugin=')) {
+      specifiers.push(arg.slice('--plugin='.length));
+    }
+  });
+  return specifiers;
+}
+
+function resolvePilotOptions(): UXPilotOptions {
+  const globals = program.opts<GlobalOptions>();
+  const provider = resolveProvider();
+  const fixtures = resolveFixtures();
+  const apiKey = resolveApiKey(provider, fixtures);
+
+  return {
+    apiKey,
+    provider,
+    model: globals.model,
+    baseUrl: globals.baseUrl,
+    localHandler: globals.localHandler,
+    fixtures,
+    retry: globals.maxRetries !== undefined ? { maxRetries: globals.maxRetries } : undefined,
+    maxConcurrency: globals.maxConcurrency,
+    prices: resolvePrices(),
+    tokenBudget: globals.budget,
+    cache: globals.cache === false ? false : undefined,
+    history: globals.history === false ? false : undefined,
+    timeoutMs: globals.timeout,
+    structuredOutput: resolveStructuredOutput(),
+    maxContinuations: globals.maxContinuations,
+    chunked: globals.chunked,
+    inputChunkTokens: globals.inputChunkTokens,
+    profile: globals.profile,
+    logger: resolveLogger(),
+    tracing: resolveTracing(),
+    redaction: globals.redact === false ? false : undefined,
+  };
+}
 
+/**
+ * Runs one pilot call behind a spinner. Ctrl-C handling, progress text, and
+ * error reporting (with exit codes) are shared by every command.
+ */
+async function runWithSpinner<T>(
+  label: string,
+  task: (pilot: UXPilot, options: ExecuteOptions, setStatus: (status: string) => void) => Promise<T>,
+): Promise<T> {
+  const pilotOptions = resolvePilotOptions();
   const spinner = ora({ text: chalk.cyan(label), spinner: 'dots' }).start();
 
+  // First Ctrl-C cancels the run cleanly; a second one exits immediately.
+  const controller = new AbortController();
+  const onSigint = (): void => {
+    if (controller.signal.aborted) {
+      process.exit(EXIT_CANCELLED);
+    }
+    spinner.text = chalk.yellow(`${label} — cancelling (Ctrl-C again to force)`);
+    controller.abort();
+  };
+  process.on('SIGINT', onSigint);
+
   try {
-    const pilot = new UXPilot({ apiKey });
-    const result = await pilot.execute(capabilityId, input);
+    const pilot = new UXPilot(pilotOptions);
+    // Multi-step tasks (pipelines) name the current step between the label and the event.
+    let status = label;
+    const result = await task(pilot, {
+      signal: controller.signal,
+      onEvent: (event) => {
+        if (controller.signal.aborted) return;
+        spinner.text = chalk.cyan(`${status} — ${describeEvent(event)}`);
+      },
+    }, (next) => {
+      status = `${label} — ${next}`;
+      spinner.text = chalk.cyan(status);
+    });
     spinner.succeed(chalk.green(label));
     return result;
   } catch (error) {
+    if (error instanceof UXPilotError && error.code === 'CANCELLED') {
+      spinner.warn(chalk.yellow(`${label} — cancelled`));
+      process.exit(EXIT_CANCELLED);
+    }
     spinner.fail(chalk.red(label));
     const message = error instanceof Error ? error.message : String(error);
     console.error(chalk.red(`\nError: ${message}`));
+    if (error instanceof UXPilotError && error.code === 'RATE_LIMITED') {
+      const retryAfterMs = error.details['retryAfterMs'];
+      const hint = typeof retryAfterMs === 'number'
+        ? `Try again in ${Math.ceil(retryAfterMs / 1000)}s`
+        : 'Try again shortly';
+      console.error(chalk.yellow(`${hint}, or lower --max-concurrency.`));
+      process.exit(EXIT_RATE_LIMITED);
+    }
+    if (error instanceof UXPilotError && error.code === 'BUDGET_EXCEEDED') {
+      console.error(chalk.yellow('Raise --budget or narrow the input.'));
+    }
+    if (error instanceof UXPilotError && error.code === 'TIMEOUT') {
+      console.error(chalk.yellow('Raise --timeout or narrow the input.'));
+    }
+    if (error instanceof UXPilotError && error.code === 'OUTPUT_TRUNCATED') {
+      console.error(chalk.yellow('The model hit its output token limit; raise --max-continuations, try --chunked, or narrow the input.'));
+    }
     process.exit(1);
+  } finally {
+    process.off('SIGINT', onSigint);
+  }
+}
+
+function runCapability(capabilityId: string, input: unknown, label: string): Promise<unknown> {
+  return runWithSpinner(label, (pilot, options) => pilot.execute(capabilityId, input, options));
+}
+
+const PHASE_LABELS: Record<CapabilityPhase, string> = {
+  'prompt-built': 'prompt ready',
+  'streaming': 'waiting for model',
+  'parsing': 'parsing response',
+  'report-rendering': 'rendering report',
+  'complete': 'done',
+};
+
+function describeEvent(event: CapabilityEvent): string {
+  if (event.type === 'tokens') {
+    return `streaming (~${event.outputTokens.toLocaleString()} tokens)`;
   }
+  return PHASE_LABELS[event.phase];
+}
+
+function describeUsage(usage: UsageReport): string {
+  const approx = usage.estimated ? '~' : '';
+  const cost = usage.estimatedCostUsd === null ? 'cost unknown' : `$${usage.estimatedCostUsd.toFixed(4)}`;
+  return [
+    `Usage: ${approx}${usage.inputTokens.toLocaleString()} in / ${approx}${usage.outputTokens.toLocaleString()} out tokens`,
+    cost,
+    `${(usage.latencyMs / 1000).toFixed(1)}s`,
+    `${usage.calls} call${usage.calls === 1 ? '' : 's'}${usage.cacheHits > 0 ? ` (${usage.cacheHits} cached)` : ''}`,
+  ].join(' · ');
+}
+
+/** e.g. `2 api-key, 1 email` — distinct values per rule. */
+function describeRedactions(redactions: Redaction[]): string {
+  const byRule = new Map<string, number>();
+  for (const redaction of redactions) {
+    byRule.set(redaction.rule, (byRule.get(redaction.rule) ?? 0) + 1);
+  }
+  return [...byRule].map(([rule, count]) => `${count} ${rule}`).join(', ');
 }
 
 function printResult(result: unknown): void {
@@ -117,6 +411,15 @@ function printResult(result: unknown): void {
 
     if (typeof obj.markdownReport === 'string') {
       console.log(obj.markdownReport);
+      if (obj.usage && typeof obj.usage === 'object') {
+        console.error(chalk.dim(`\n${describeUsage(obj.usage as UsageReport)}`));
+      }
+      if (Array.isArray(obj.redactions)) {
+        console.error(chalk.dim(`Redacted before sending: ${describeRedactions(obj.redactions as Redaction[])}`));
+      }
+      if (typeof obj.runId === 'string') {
+        console.error(chalk.dim(`Saved as run ${obj.runId} (ux-ui-pilot history show ${obj.runId})`));
+      }
       return;
     }
   }
@@ -134,238 +437,554 @@ program
     'UX/UI Design Agent — design systems, accessibility, user flows, wireframes, and design critique',
   )
   .version(pkg.version)
-  .option('--api-key <key>', 'Anthropic API key (overrides ANTHROPIC_API_KEY)')
-  .option('--model <model>', 'Model override (overrides ANTHROPIC_MODEL)')
+  .option('--api-key <key>', 'Provider API key (overrides ANTHROPIC_API_KEY / OPENAI_API_KEY)')
+  .option('--provider <provider>', `LLM provider (${PROVIDER_IDS.join(', ')}; overrides UX_PILOT_PROVIDER)`)
+  .option('--base-url <url>', 'Provider endpoint, e.g. a self-hosted OpenAI-compatible server (overrides OPENAI_BASE_URL)')
+  .option('--local-handler <module>', 'Module exporting the handler for --provider local (overrides UX_PILOT_LOCAL_HANDLER)')
+  .option('--model <model>', 'Model override (overrides ANTHROPIC_MODEL / OPENAI_MODEL)')
+  .option('--fixtures <mode>', `Record or replay LLM responses (${FIXTURE_MODES.join(', ')}; overrides UX_PILOT_FIXTURES)`)
+  .option('--fixtures-dir <dir>', 'Fixture directory (default: fixtures/llm; overrides UX_PILOT_FIXTURES_DIR)')
+  .option('--max-retries <n>', 'Retries on rate limits and transient errors (default: 3; overrides UX_PILOT_MAX_RETRIES)', parseCount)
+  .option('--max-concurrency <n>', 'Concurrent LLM requests per process (default: 4; overrides UX_PILOT_MAX_CONCURRENCY)', parseCount)
+  .option('--budget <tokens>', 'Abort a run before its input + output tokens could exceed this ceiling', parseCount)
+  .option('--prices <file>', 'JSON price table (USD per million tokens) merged over the built-in prices')
+  .option('--timeout <ms>', 'Abort a capability run after this many milliseconds (overrides UX_PILOT_TIMEOUT_MS)', parseCount)
+  .option('--structured-output <mode>', `How JSON output is obtained (${STRUCTURED_OUTPUT_MODES.join(', ')}; overrides UX_PILOT_STRUCTURED_OUTPUT)`)
+  .option('--max-continuations <n>', 'Follow-up requests that resume a truncated response (default: 2; overrides UX_PILOT_MAX_CONTINUATIONS)', parseCount)
+  .option('--chunked', 'Generate large outputs section by section (overrides UX_PILOT_CHUNKED)')
+  .option('--input-chunk-tokens <n>', 'Analyze code larger than this many tokens in parts split at component boundaries; 0 never splits (default: 6000; overrides UX_PILOT_INPUT_CHUNK_TOKENS)', parseCount)
+  .option('--no-cache', 'Always call the provider instead of reusing cached responses (or set UX_PILOT_CACHE=0)')
+  .option('--no-history', 'Do not save this run to the run history (or set UX_PILOT_HISTORY=0)')
+  .option('--profile <file>', 'Project profile JSON injected into every run (overrides UX_PILOT_PROFILE; default: ./ux-pilot.profile.json if present)')
+  .option('--no-profile', 'Run without a project profile')
+  .option('--log-level <level>', `Structured JSON logs on stderr (${LOG_LEVELS.join(', ')}; overrides UX_PILOT_LOG_LEVEL)`)
+  .option('--trace <exporters>', 'Trace spans to console, file:<path>, and/or otlp[:<url>], comma-separated (overrides UX_PILOT_TRACE)')
+  .option('--no-redact', 'Send code to the model without redacting secrets, emails, and internal URLs')
+  .option('--plugin <module>', 'Load a capability plugin (path or package name; repeatable; adds to UX_PILOT_PLUGINS)', collect)
   .option('--json', 'Output raw JSON instead of formatted Markdown');
 
 // ---------------------------------------------------------------------------
-// design-system
+// Capability commands (one per registered capability with a CLI definition)
 // ---------------------------------------------------------------------------
 
-program
-  .command('design-system')
-  .description('Generate a comprehensive design system')
-  .option('--colors <colors...>', 'Brand color hex values')
-  .option('--typography <font>', 'Typography / font family preference')
-  .option('--platform <platform>', 'Target platform (web, ios, android, cross-platform)')
-  .option('--requirements <req>', 'Additional design system requirements')
-  .action(async (opts: {
-    colors?: string[];
-    typography?: string;
-    platform?: string;
-    requirements?: string;
-  }) => {
-    const input: Record<string, unknown> = {
-      brandName: 'Design System',
-    };
-    if (opts.colors) input.colors = opts.colors;
-    if (opts.typography) {
-      input.typographyPreferences = { headingFont: opts.typography };
-    }
-    if (opts.platform) input.targetPlatform = opts.platform;
-    if (opts.requirements) input.additionalContext = opts.requirements;
-
-    const result = await runCapability(
-      'design-system',
-      input,
-      'Generating design system',
-    );
+function addCapabilityCommand(definition: CapabilityDefinition): void {
+  const cli = definition.cli;
+  if (!cli) return;
+
+  const command = program.command(cli.name).description(cli.description);
+  for (const option of cli.options) {
+    if (option.required) {
+      command.requiredOption(option.flags, option.description, option.defaultValue);
+    } else {
+      command.option(option.flags, option.description, option.defaultValue);
+    }
+  }
+
+  command.action(async (opts: Record<string, unknown>) => {
+    const resolved: Record<string, unknown> = { ...opts };
+    for (const option of cli.options) {
+      if (!option.file) continue;
+      const key = command.options.find((o) => o.flags === option.flags)?.attributeName();
+      if (key && typeof resolved[key] === 'string') {
+        resolved[key] = resolveFileContent(resolved[key] as string);
+      } else if (key && Array.isArray(resolved[key])) {
+        resolved[key] = resolveFileContents(resolved[key] as string[]);
+      }
+    }
+
+    let input: unknown;
+    try {
+      input = cli.toInput(resolved);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(chalk.red(`Error: ${message}`));
+      process.exit(1);
+    }
+
+    const result = await runCapability(definition.id, input, cli.label);
+
+    for (const file of cli.outputFiles?.(result, resolved) ?? []) {
+      mkdirSync(dirname(file.path), { recursive: true });
+      writeFileSync(file.path, file.content, 'utf-8');
+      console.log(chalk.cyan(`${file.label} saved to ${chalk.bold(file.path)}`));
+    }
+
     printResult(result);
   });
+}
 
 // ---------------------------------------------------------------------------
-// component-arch
+// ask
 // ---------------------------------------------------------------------------
 
+function describePlan(plan: RoutePlan): string[] {
+  const how = plan.strategy === 'llm'
+    ? 'Routed by model'
+    : plan.fallbackReason
+      ? `Routed by keywords (model unavailable: ${plan.fallbackReason})`
+      : 'Routed by keywords';
+  return [
+    chalk.bold(`${how}:`),
+    ...plan.routes.map((route) => `  → ${chalk.cyan(route.capabilityId)}: ${route.rationale}`),
+  ];
+}
+
 program
-  .command('component-arch')
-  .description('Analyze component architecture')
-  .requiredOption('--description <desc>', 'Description of the UI or feature')
-  .option('--code <file>', 'Component code or path to file')
-  .option('--framework <fw>', 'UI framework (React, Vue, Angular, Svelte)')
-  .action(async (opts: {
-    description: string;
-    code?: string;
-    framework?: string;
-  }) => {
-    const input: Record<string, unknown> = {
-      description: opts.description,
-    };
-    if (opts.code) input.existingCode = resolveFileContent(opts.code);
-    if (opts.framework) input.framework = opts.framework;
-
-    const result = await runCapability(
-      'component-architecture',
-      input,
-      'Analyzing component architecture',
-    );
-    printResult(result);
+  .command('ask')
+  .description('Route a plain-language request to the matching capabilities and run them')
+  .argument('<request...>', 'What you need, e.g. "design system for a fintech app using #1a73e8"')
+  .option('--plan', 'Show the routed capabilities and extracted input without running them')
+  .option('--keywords', 'Route by keyword matching without calling the model')
+  .option('--max-routes <n>', 'Run at most this many capabilities (default: 3)', parseCount)
+  .action(async (words: string[], opts: { plan?: boolean; keywords?: boolean; maxRoutes?: number }) => {
+    const request = words.join(' ');
+    const json = program.opts<GlobalOptions>().json;
+
+    const plan = await runWithSpinner('Routing request', (pilot, options) => pilot.route(request, {
+      ...options,
+      strategy: opts.keywords ? 'keyword' : undefined,
+      maxRoutes: opts.maxRoutes,
+    }));
+
+    if (plan.routes.length === 0) {
+      console.error(chalk.red('Error: No capability matches this request.'));
+      console.error(chalk.yellow('Rephrase it, or run `ux-ui-pilot capabilities` to see what is available.'));
+      process.exit(1);
+    }
+
+    if (opts.plan) {
+      if (json) {
+        console.log(JSON.stringify(plan, null, 2));
+        return;
+      }
+      console.log(describePlan(plan).join('\n'));
+      for (const route of plan.routes) {
+        console.log(chalk.dim(`\n${route.capabilityId} input:`));
+        console.log(JSON.stringify(route.input, null, 2));
+      }
+      return;
+    }
+
+    if (!json) {
+      console.error(describePlan(plan).join('\n'));
+    }
+
+    const results: Array<{ capabilityId: string; output: unknown }> = [];
+    for (const route of plan.routes) {
+      const definition = defaultRegistry.get(route.capabilityId);
+      const label = definition?.cli?.label ?? `Running ${definition?.name ?? route.capabilityId}`;
+      const output = await runCapability(route.capabilityId, route.input, label);
+      if (json) {
+        results.push({ capabilityId: route.capabilityId, output });
+      } else {
+        printResult(output);
+      }
+    }
+
+    if (json) {
+      console.log(JSON.stringify({ plan, results }, null, 2));
+    }
   });
 
 // ---------------------------------------------------------------------------
-// a11y-audit
+// pipeline
 // ---------------------------------------------------------------------------
 
-program
-  .command('a11y-audit')
-  .description('Run an accessibility audit')
-  .option('--code <file>', 'Component code or path to file')
-  .option('--html <file>', 'HTML markup or path to file')
-  .option('--description <desc>', 'Description of the UI being audited')
-  .option(
-    '--standard <std>',
-    'WCAG standard (e.g. WCAG2.1-AA)',
-    'WCAG2.1-AA',
-  )
-  .action(async (opts: {
-    code?: string;
-    html?: string;
-    description?: string;
-    standard?: string;
-  }) => {
-    const input: Record<string, unknown> = {};
-
-    if (opts.code) {
-      input.target = resolveFileContent(opts.code);
-      input.targetType = 'component-code';
-    } else if (opts.html) {
-      input.target = resolveFileContent(opts.html);
-      input.targetType = 'html';
-    } else if (opts.description) {
-      input.target = opts.description;
-      input.targetType = 'description';
-    } else {
-      console.error(
-        chalk.red('Error: Provide at least one of --code, --html, or --description.'),
-      );
-      process.exit(1);
-    }
+function parseVar(value: string, previous: Record<string, string> = {}): Record<string, string> {
+  const separator = value.indexOf('=');
+  if (separator <= 0) {
+    throw new InvalidArgumentError('Expected key=value.');
+  }
+  return { ...previous, [value.slice(0, separator)]: value.slice(separator + 1) };
+}
+
+async function readPipeline(file: string): Promise<PipelineDefinition> {
+  try {
+    return await loadPipelineFile(file);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(chalk.red(`Error: ${message}`));
+    process.exit(1);
+  }
+}
 
-    if (opts.standard) {
-      const match = /-(A{1,3})$/.exec(opts.standard);
-      if (match) input.wcagLevel = match[1];
+const pipelineCommand = program
+  .command('pipeline')
+  .description('Run multi-capability pipelines defined in JSON (see pipelines/ux-review.json)');
+
+pipelineCommand
+  .command('run')
+  .description('Run every step in order, feeding earlier outputs into later steps')
+  .argument('<file>', 'Pipeline definition (JSON)')
+  .option('--var <key=value>', 'Pipeline variable for ${vars.key} references (repeatable)', parseVar)
+  .option('--output <file>', 'Save the combined Markdown report to file')
+  .action(async (file: string, opts: { var?: Record<string, string>; output?: string }) => {
+    const pipeline = await readPipeline(file);
+    const label = `Running pipeline "${pipeline.name}"`;
+
+    const result = await runWithSpinner(label, (pilot, options, setStatus) => pilot.runPipeline(pipeline, {
+      ...options,
+      vars: opts.var,
+      onStep: (step) => setStatus(`step ${step.index + 1}/${step.total}: ${step.title}`),
+    }));
+
+    if (opts.output) {
+      const outPath = resolve(opts.output);
+      writeFileSync(outPath, result.markdownReport, 'utf-8');
+      console.log(chalk.cyan(`Pipeline report saved to ${chalk.bold(outPath)}`));
     }
 
-    const result = await runCapability(
-      'accessibility-audit',
-      input,
-      'Running accessibility audit',
-    );
     printResult(result);
   });
 
+pipelineCommand
+  .command('validate')
+  .description('Check a pipeline file without running it')
+  .argument('<file>', 'Pipeline definition (JSON)')
+  .action(async (file: string) => {
+    const pipeline = await readPipeline(file);
+    const unknown = pipeline.steps.filter((step) => !defaultRegistry.has(step.capability));
+    if (unknown.length > 0) {
+      for (const step of unknown) {
+        console.error(chalk.red(`Error: Step "${step.id}" uses unknown capability "${step.capability}".`));
+      }
+      process.exit(1);
+    }
+
+    console.log(chalk.green(`Pipeline "${pipeline.name}" is valid (${pipeline.steps.length} steps):`));
+    pipeline.steps.forEach((step, index) => {
+      console.log(`  ${index + 1}. ${chalk.bold(step.id)} → ${chalk.cyan(step.capability)}`);
+    });
+  });
+
 // ---------------------------------------------------------------------------
-// user-flow
+// profile
 // ---------------------------------------------------------------------------
 
+/** The profile runs will use (per --profile / UX_PILOT_PROFILE), with its path; exits on a load error. */
+async function readCliProfile(): Promise<{ path: string; profile: ProjectProfile } | undefined> {
+  const globals = program.opts<GlobalOptions>();
+  const path = globals.profile === false ? undefined : resolveProfilePath(globals.profile);
+  if (!path) return undefined;
+  try {
+    return { path, profile: await loadProjectProfile(path) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(chalk.red(`Error: ${message}`));
+    process.exit(1);
+  }
+}
+
 program
-  .command('user-flow')
-  .description('Map user flows with Mermaid diagrams')
-  .requiredOption('--feature <feature>', 'Feature or task to map')
-  .option('--user-type <type>', 'Target user persona or type')
-  .option('--context <ctx>', 'Additional context about the application')
-  .option('--output <file>', 'Save Mermaid diagram to file')
-  .action(async (opts: {
-    feature: string;
-    userType?: string;
-    context?: string;
-    output?: string;
-  }) => {
-    const input: Record<string, unknown> = { featureDescription: opts.feature };
-    if (opts.userType) input.userPersona = opts.userType;
-    if (opts.context) input.additionalContext = opts.context;
-
-    const result = await runCapability(
-      'user-flow',
-      input,
-      'Mapping user flow',
-    );
+  .command('profile')
+  .description('Show the project profile that runs will use')
+  .action(async () => {
+    const globals = program.opts<GlobalOptions>();
+    const loaded = await readCliProfile();
+    if (!loaded) {
+      console.log(chalk.yellow(`No project profile in use. Create ${DEFAULT_PROFILE_FILE}, or pass --profile / set UX_PILOT_PROFILE.`));
+      return;
+    }
+
+    const { path, profile } = loaded;
+    if (globals.json) {
+      console.log(JSON.stringify(profile, null, 2));
+      return;
+    }
+    console.log(chalk.dim(`Profile: ${path}\n`));
+    console.log(renderProfilePrompt(profile) || chalk.yellow('The profile adds no project context to prompts.'));
+    const overrides = Object.keys(profile.prompts ?? {});
+    if (overrides.length > 0) {
+      console.log(chalk.dim(`\nPrompt overrides: ${overrides.join(', ')} (see \`ux-ui-pilot prompts show <id>\`)`));
+    }
+  });
+
+// ---------------------------------------------------------------------------
+// prompts
+// ---------------------------------------------------------------------------
+
+const promptsCommand = program
+  .command('prompts')
+  .description('Inspect capability prompt templates and project-profile overrides');
+
+promptsCommand
+  .command('list')
+  .description('List prompt templates with their versions')
+  .action(async () => {
+    const profile = (await readCliProfile())?.profile;
+    const prompts = defaultPrompts.list().map((template) => ({
+      ...defaultPrompts.resolve(template.id, { profile }).use,
+      description: template.description ?? null,
+    }));
+    if (program.opts<GlobalOptions>().json) {
+      console.log(JSON.stringify(prompts, null, 2));
+      return;
+    }
 
-    if (opts.output && result && typeof result === 'object') {
-      const obj = result as Record<string, unknown>;
-      const diagram =
-        typeof obj.mermaidDiagram === 'string' ? obj.mermaidDiagram : null;
-
-      if (diagram) {
-        const outPath = resolve(opts.output);
-        writeFileSync(outPath, diagram, 'utf-8');
-        console.log(
-          chalk.cyan(`Mermaid diagram saved to ${chalk.bold(outPath)}`),
-        );
+    for (const prompt of prompts) {
+      const overridden = prompt.overridden ? chalk.yellow(' (overridden by profile)') : '';
+      console.log(`${chalk.bold(prompt.id)}  v${prompt.version}  ${chalk.dim(prompt.hash)}${overridden}`);
+      if (prompt.description) {
+        console.log(`  ${prompt.description}`);
       }
     }
+  });
 
-    printResult(result);
+promptsCommand
+  .command('show')
+  .description('Print a template as runs will use it, after project-profile overrides')
+  .argument('<id>', 'Prompt template id (see `prompts list`)')
+  .action(async (id: string) => {
+    const profile = (await readCliProfile())?.profile;
+    const template = defaultPrompts.get(id);
+    let resolved: ReturnType<typeof defaultPrompts.resolve>;
+    try {
+      resolved = defaultPrompts.resolve(id, { profile });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(chalk.red(`Error: ${message}`));
+      console.error(chalk.yellow('Run `ux-ui-pilot prompts list` to see available templates.'));
+      process.exit(1);
+    }
+
+    if (program.opts<GlobalOptions>().json) {
+      console.log(JSON.stringify({
+        ...resolved.use,
+        variables: template?.variables ?? [],
+        system: resolved.system,
+        user: resolved.user,
+      }, null, 2));
+      return;
+    }
+    const overridden = resolved.use.overridden ? chalk.yellow(' (overridden by profile)') : '';
+    console.log(chalk.bold(`${id} v${resolved.use.version}`) + chalk.dim(` ${resolved.use.hash}`) + overridden);
+    console.log(chalk.dim(`Variables: ${template?.variables.join(', ') || 'none'}\n`));
+    console.log(chalk.bold('System'));
+    console.log(resolved.system);
+    console.log(chalk.bold('\nUser'));
+    console.log(resolved.user);
   });
 
 // ---------------------------------------------------------------------------
-// wireframe
+// capabilities
 // ---------------------------------------------------------------------------
 
 program
-  .command('wireframe')
-  .description('Generate wireframe recommendations')
-  .requiredOption('--feature <feature>', 'Feature or screen to wireframe')
-  .option('--platform <platform>', 'Target platform (web, mobile, tablet, desktop)')
-  .option('--constraints <constraints>', 'Design constraints or requirements')
-  .action(async (opts: {
-    feature: string;
-    platform?: string;
-    constraints?: string;
-  }) => {
-    const input: Record<string, unknown> = { requirements: opts.feature };
-    if (opts.platform) input.targetDevices = [opts.platform];
-    if (opts.constraints) input.additionalContext = opts.constraints;
-
-    const result = await runCapability(
-      'wireframe',
-      input,
-      'Generating wireframe recommendations',
-    );
-    printResult(result);
+  .command('capabilities')
+  .description('List registered capabilities, including loaded plugins')
+  .action(() => {
+    const definitions = defaultRegistry.list();
+    if (program.opts<GlobalOptions>().json) {
+      console.log(JSON.stringify(definitions.map((d) => ({
+        id: d.id,
+        name: d.name,
+        description: d.description,
+        keywords: d.keywords ?? [],
+        command: d.cli?.name ?? null,
+        tool: d.mcp?.name ?? null,
+        inputSchema: d.inputSchema ? toJSONSchema(d.inputSchema) : null,
+        outputSchema: d.outputSchema ? toJSONSchema(d.outputSchema) : null,
+      })), null, 2));
+      return;
+    }
+
+    for (const definition of definitions) {
+      const command = definition.cli ? chalk.cyan(definition.cli.name) : chalk.dim('(no command)');
+      console.log(`${chalk.bold(definition.id)}  ${command}`);
+      console.log(`  ${definition.description}`);
+    }
   });
 
 // ---------------------------------------------------------------------------
-// design-critique
+// cache
 // ---------------------------------------------------------------------------
 
-program
-  .command('design-critique')
-  .description("Critique a design using Nielsen's heuristics")
-  .option('--description <desc>', 'Description of the design to critique')
-  .option('--code <file>', 'UI code or path to file')
-  .action(async (opts: {
-    description?: string;
-    code?: string;
-  }) => {
-    const input: Record<string, unknown> = {};
-
-    if (opts.code) {
-      input.target = resolveFileContent(opts.code);
-      input.targetType = 'component-code';
-    } else if (opts.description) {
-      input.target = opts.description;
-      input.targetType = 'ui-description';
-    } else {
-      console.error(
-        chalk.red('Error: Provide at least one of --description or --code.'),
-      );
-      process.exit(1);
+const cacheCommand = program
+  .command('cache')
+  .description('Inspect or clear the on-disk LLM response cache (UX_PILOT_CACHE_DIR)');
+
+cacheCommand
+  .command('stats')
+  .description('Show cache location, entry count, and size')
+  .action(async () => {
+    const stats = await new ResponseCache().stats();
+    if (program.opts<GlobalOptions>().json) {
+      console.log(JSON.stringify(stats, null, 2));
+      return;
     }
 
-    const result = await runCapability(
-      'design-critique',
-      input,
-      'Running design critique',
-    );
+    const megabytes = (bytes: number): string => `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+    console.log(chalk.bold('Response cache'));
+    console.log(`  Directory: ${stats.dir}`);
+    console.log(`  Entries:   ${stats.entries} (${stats.expired} expired)`);
+    console.log(`  Size:      ${megabytes(stats.bytes)} of ${megabytes(stats.maxBytes)}`);
+    console.log(`  TTL:       ${(stats.ttlMs / 3_600_000).toFixed(1)} h`);
+    if (stats.oldest && stats.newest) {
+      console.log(`  Oldest:    ${stats.oldest}`);
+      console.log(`  Newest:    ${stats.newest}`);
+    }
+  });
+
+cacheCommand
+  .command('clear')
+  .description('Delete every cached response')
+  .action(async () => {
+    const cache = new ResponseCache();
+    const removed = await cache.clear();
+    console.log(chalk.green(`Removed ${removed} cached response${removed === 1 ? '' : 's'} from ${cache.dir}`));
+  });
+
+// ---------------------------------------------------------------------------
+// history
+// ---------------------------------------------------------------------------
+
+async function readRun(store: RunStore, id: string): Promise<RunRecord> {
+  let run: RunRecord | undefined;
+  try {
+    run = await store.get(id);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(chalk.red(`Error: ${message}`));
+    process.exit(1);
+  }
+  if (!run) {
+    console.error(chalk.red(`Error: No saved run with id "${id}" in ${store.dir}.`));
+    console.error(chalk.yellow('Run `ux-ui-pilot history list` to see saved runs.'));
+    process.exit(1);
+  }
+  return run;
+}
+
+function describeRun(run: RunSummary): string {
+  const model = run.model ? `${run.provider ?? 'unknown'}/${run.model}` : 'no model calls';
+  const cost = run.usage.estimatedCostUsd === null ? '' : ` · $${run.usage.estimatedCostUsd.toFixed(4)}`;
+  const origin = run.pipeline
+    ? ` · pipeline "${run.pipeline.name}" step ${run.pipeline.stepId}`
+    : run.rerunOf
+      ? ` · rerun of ${run.rerunOf}`
+      : run.refinedFrom ? ` · refined from ${run.refinedFrom}: "${run.instruction ?? ''}"` : '';
+  return `${chalk.bold(run.id)}  ${chalk.cyan(run.capabilityId)}  ${new Date(run.createdAt).toLocaleString()}\n`
+    + chalk.dim(`  ${model} · ${run.usage.totalTokens.toLocaleString()} tokens${cost}${origin}`);
+}
+
+const historyCommand = program
+  .command('history')
+  .description('Browse, show, and re-run saved capability runs (UX_PILOT_HISTORY_DIR)');
+
+historyCommand
+  .command('list')
+  .description('List saved runs, newest first')
+  .option('--capability <id>', 'Only runs of this capability')
+  .option('--limit <n>', 'Show at most this many runs (default: 20)', parseCount)
+  .action(async (opts: { capability?: string; limit?: number }) => {
+    const store = new RunStore();
+    const runs = await store.list({ capabilityId: opts.capability, limit: opts.limit ?? 20 });
+    if (program.opts<GlobalOptions>().json) {
+      console.log(JSON.stringify(runs, null, 2));
+      return;
+    }
+    if (runs.length === 0) {
+      console.log(chalk.yellow(`No saved runs in ${store.dir}.`));
+      return;
+    }
+    console.log(runs.map(describeRun).join('\n'));
+  });
+
+historyCommand
+  .command('show')
+  .description('Print a saved run\'s report (or, with --json, the full record)')
+  .argument('<id>', 'Run id or a unique prefix of it')
+  .option('--input', 'Print the run\'s input instead of its report')
+  .action(async (id: string, opts: { input?: boolean }) => {
+    const store = new RunStore();
+    const run = await readRun(store, id);
+    if (program.opts<GlobalOptions>().json) {
+      console.log(JSON.stringify(run, null, 2));
+      return;
+    }
+
+    console.error(describeRun(run));
+    const reportPath = store.reportPath(run);
+    if (reportPath) {
+      console.error(chalk.dim(`  Report: ${reportPath}`));
+    }
+    if (run.prompts?.length) {
+      const prompts = run.prompts.map((use) => `${use.id} v${use.version}${use.overridden ? ' (overridden)' : ''}`);
+      console.error(chalk.dim(`  Prompts: ${prompts.join(', ')}`));
+    }
+    console.error('');
+    if (opts.input || run.markdownReport === null) {
+      console.log(JSON.stringify(opts.input ? run.input : run.output, null, 2));
+      return;
+    }
+    console.log(run.markdownReport);
+  });
+
+historyCommand
+  .command('rerun')
+  .description('Run a saved run\'s capability again with the same input')
+  .argument('<id>', 'Run id or a unique prefix of it')
+  .action(async (id: string) => {
+    const run = await readRun(new RunStore(), id);
+    const definition = defaultRegistry.get(run.capabilityId);
+    const label = definition?.cli?.label ?? `Running ${definition?.name ?? run.capabilityId}`;
+    const result = await runWithSpinner(label, (pilot, options) => pilot.rerun(run.id, options));
     printResult(result);
   });
 
+historyCommand
+  .command('clear')
+  .description('Delete every saved run')
+  .action(async () => {
+    const store = new RunStore();
+    const removed = await store.clear();
+    console.log(chalk.green(`Removed ${removed} saved run${removed === 1 ? '' : 's'} from ${store.dir}`));
+  });
+
+// ---------------------------------------------------------------------------
+// refine
+// ---------------------------------------------------------------------------
+
+async function refineRun(id: string, words: string[]): Promise<void> {
+  const run = await readRun(new RunStore(), id);
+  const instruction = words.join(' ');
+  const definition = defaultRegistry.get(run.capabilityId);
+  const label = `Refining ${definition?.name ?? run.capabilityId}`;
+
+  const result = await runWithSpinner(label, async (pilot, options) => {
+    const session = await pilot.resumeSession(run.id);
+    return session.refine(instruction, options);
+  });
+
+  if (program.opts<GlobalOptions>().json) {
+    console.log(JSON.stringify(result, null, 2));
+    return;
+  }
+  printResult(result.output);
+  console.error(chalk.bold(`\nChanges from ${run.id}:`));
+  console.error(renderChanges(result.changes).map((line) => `  ${line}`).join('\n'));
+}
+
+program
+  .command('refine')
+  .description('Revise a saved run with a follow-up instruction and show what changed')
+  .argument('<id>', 'Run id or a unique prefix of it (see `ux-ui-pilot history list`)')
+  .argument('<instruction...>', 'What to change, e.g. "make the primary palette warmer"')
+  .action(refineRun);
+
 // ---------------------------------------------------------------------------
 // Parse & run
 // ---------------------------------------------------------------------------
 
-program.parseAsync(process.argv).catch((error: unknown) => {
+async function main(): Promise<void> {
+  await loadPlugins(resolvePluginSpecifiers(scanPluginArgs(process.argv)));
+  for (const definition of defaultRegistry.list()) {
+    addCapabilityCommand(definition);
+  }
+  await program.parseAsync(process.argv);
+}
+
+main().catch((error: unknown) => {
   const message = error instanceof Error ? error.message : String(error);
   console.error(chalk.red(`\nFatal error: ${message}`));
   process.exit(1);
@@ -0,0 +1,66 @@
+/**
+ * @file abort.ts
+ * @description AbortSignal helpers — per-run timeouts and mapping aborts onto TIMEOUT / CANCELLED errors
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import { UXPilotError } from './types.js';
+
+export interface RunSignal {
+  /** Aborts when the caller's signal aborts or the timeout elapses; undefined when neither applies. */
+  signal: AbortSignal | undefined;
+  /** Clears the timeout timer once the run settles. */
+  dispose: () => void;
+}
+
+/**
+ * Combines a caller-supplied signal with an optional timeout. The timeout
+ * aborts with a TIMEOUT UXPilotError as its reason, so `abortError` can
+ * report the configured limit rather than a bare DOMException.
+ */
+export function createRunSignal(signal: AbortSignal | undefined, timeoutMs: number | undefined): RunSignal {
+  if (timeoutMs === undefined || timeoutMs <= 0) {
+    return { signal, dispose: () => undefined };
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => {
+    controller.abort(new UXPilotError(
+      `Capability run timed out after ${timeoutMs}ms`,
+      'TIMEOUT',
+      { timeoutMs },
+    ));
+  }, timeoutMs);
+  timer.unref();
+
+  return {
+    signal: signal ? AbortSignal.any([signal, controller.signal]) : controller.signal,
+    dispose: () => clearTimeout(timer),
+  };
+}
+
+/**
+ * Translates an aborted signal into the error callers should see: the
+ * reason itself when it is already a UXPilotError, TIMEOUT for
+ * `AbortSignal.timeout()` reasons, and CANCELLED for everything else.
+ */
+export function abortError(signal: AbortSignal): UXPilotError {
+  const reason: unknown = signal.reason;
+  if (reason instanceof UXPilotError) {
+    return reason;
+  }
+  if (reason instanceof Error && reason.name === 'TimeoutError') {
+    return new UXPilotError('Operation timed out', 'TIMEOUT', { reason: reason.message });
+  }
+  const message = reason instanceof Error ? reason.message : reason === undefined ? undefined : String(reason);
+  return new UXPilotError('Operation was cancelled', 'CANCELLED', message ? { reason: message } : {});
+}
+
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw abortError(signal);
+  }
+}
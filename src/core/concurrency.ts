@@ -0,0 +1,84 @@
+/**
+ * @file concurrency.ts
+ * @description Process-wide concurrency limiter for outbound LLM requests
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import { abortError } from './abort.js';
+
+const DEFAULT_MAX_CONCURRENCY = 4;
+
+export class ConcurrencyLimiter {
+  private limit: number;
+  private active = 0;
+  private readonly queue: Array<() => void> = [];
+
+  constructor(limit: number) {
+    this.limit = Math.max(1, Math.floor(limit));
+  }
+
+  setLimit(limit: number): void {
+    this.limit = Math.max(1, Math.floor(limit));
+    this.drain();
+  }
+
+  getLimit(): number {
+    return this.limit;
+  }
+
+  /** Runs `task` once a slot is free; an aborted `signal` drops it from the queue. */
+  async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal);
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.drain();
+    }
+  }
+
+  private acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(abortError(signal));
+    }
+    if (this.active < this.limit) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      const onAbort = (): void => {
+        const index = this.queue.indexOf(grant);
+        if (index !== -1) this.queue.splice(index, 1);
+        if (signal) reject(abortError(signal));
+      };
+      const grant = (): void => {
+        signal?.removeEventListener('abort', onAbort);
+        this.active++;
+        resolve();
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(grant);
+    });
+  }
+
+  private drain(): void {
+    while (this.active < this.limit && this.queue.length > 0) {
+      const next = this.queue.shift();
+      next?.();
+    }
+  }
+}
+
+function initialLimit(): number {
+  const fromEnv = Number(process.env['UX_PILOT_MAX_CONCURRENCY']);
+  return Number.isFinite(fromEnv) && fromEnv > 0 ? fromEnv : DEFAULT_MAX_CONCURRENCY;
+}
+
+/**
+ * Shared by every LLMClient in the process, so batch runs that create many
+ * UXPilot instances still respect one ceiling on in-flight requests.
+ */
+export const processLimiter = new ConcurrencyLimiter(initialLimit());
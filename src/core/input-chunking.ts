@@ -0,0 +1,347 @@
+/**
+ * @file input-chunking.ts
+ * @description Splits large code and markup inputs at component / function boundaries so capabilities can analyze them part by part
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import { traced } from './tracing.js';
+import type { ExecutionContext } from './types.js';
+import { CHARS_PER_TOKEN } from './usage.js';
+
+/** Inputs above this size (estimated tokens) are split (default for UXPilotOptions.inputChunkTokens). */
+export const DEFAULT_INPUT_CHUNK_TOKENS = 6_000;
+
+/** Separates files in a multi-file target; see joinSourceFiles. */
+const FILE_MARKER = /^\/\/ File: (.+?)(?: \(continued\))?$/;
+
+const IMPORT_START = /^(?:import\b|export\s+(?:\*|\{[^}]*\})\s+from\b|(?:const|let|var)\s+[\w${}\s,:]+=\s*require\()/;
+const DECLARATION = /^(?:export\s+(?:default\s+)?)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\b|class\b|const\b|let\b|var\b|interface\b|type\s+\w|enum\b|namespace\b)|^export\s+default\b|^@\w+/;
+const DECLARED_NAME = /(?:function\*?|class|const|let|var|interface|type|enum|namespace)\s+([A-Za-z_$][\w$]*)/;
+const IMPORT_END = /\bfrom\s+['"]|^import\s+['"]|;\s*$|\)\s*;?\s*$/;
+const LEADING_COMMENT = /^\s*(?:\/\/|\/\*|\*|<!--|@\w+)/;
+const OPENING_TAG = /^<([A-Za-z][\w:-]*)([^>]*)/;
+
+export interface SourceFile {
+  path: string;
+  content: string;
+}
+
+export type InputLanguage = 'code' | 'markup';
+
+export interface SplitInputOptions {
+  /** Largest part, in estimated tokens; `0` keeps the input whole (default: DEFAULT_INPUT_CHUNK_TOKENS). */
+  maxTokens?: number;
+  /** `code` splits at top-level declarations, `markup` at top-level elements (default: `code`). */
+  language?: InputLanguage;
+}
+
+/** One part of a split input. Line numbers refer to the whole input and are 1-based. */
+export interface InputChunk {
+  /** 1-based position. */
+  part: number;
+  content: string;
+  startLine: number;
+  endLine: number;
+  /** Files (from `// File:` markers) the part covers. */
+  files: string[];
+  /** Components, functions, and other declarations (or top-level elements) the part defines. */
+  symbols: string[];
+  /** Imports and preambles of the part's files that live in other parts. */
+  sharedContext: string;
+}
+
+interface Segment {
+  start: number;
+  /** Exclusive. */
+  end: number;
+  file: string | undefined;
+  symbol: string | undefined;
+  /** True for a file's lines before its first declaration. */
+  preamble: boolean;
+}
+
+/**
+ * Joins several files into one target, each under a `// File: <path>` line.
+ * splitInput never lets a part start without its file's marker.
+ */
+export function joinSourceFiles(files: readonly SourceFile[]): string {
+  if (files.length === 1 && files[0]) {
+    return files[0].content;
+  }
+  return files.map((file) => `// File: ${file.path}\n${file.content.replace(/\n+$/, '')}`).join('\n\n');
+}
+
+/**
+ * Splits `text` into parts of at most `maxTokens` (estimated), cutting only
+ * between top-level declarations or elements where it can: a declaration
+ * keeps its leading comments and decorators, and one larger than a part is
+ * cut at blank lines. Input that fits is returned as a single part.
+ */
+export function splitInput(text: string, options: SplitInputOptions = {}): InputChunk[] {
+  const maxTokens = options.maxTokens ?? DEFAULT_INPUT_CHUNK_TOKENS;
+  const lines = text.split('\n');
+  if (maxTokens <= 0 || text.length <= maxTokens * CHARS_PER_TOKEN) {
+    return [wholeInput(text, lines)];
+  }
+
+  const budget = maxTokens * CHARS_PER_TOKEN;
+  const segments = findSegments(lines, options.language ?? 'code')
+    .flatMap((segment) => splitOversized(segment, lines, budget));
+
+  const groups: Segment[][] = [];
+  let current: Segment[] = [];
+  let size = 0;
+  for (const segment of segments) {
+    const segmentSize = sizeOf(lines, segment.start, segment.end);
+    if (current.length > 0 && size + segmentSize > budget) {
+      groups.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(segment);
+    size += segmentSize;
+  }
+  if (current.length > 0) groups.push(current);
+
+  const preambles = new Map<string | undefined, Segment>();
+  for (const segment of segments) {
+    if (segment.preamble && !preambles.has(segment.file)) preambles.set(segment.file, segment);
+  }
+
+  return groups.map((group, index) => toChunk(group, index + 1, lines, preambles, budget));
+}
+
+/**
+ * The scope note for one part's prompt: which part this is, what the other
+ * parts hold, and the shared context they all depend on.
+ */
+export function describeChunk(chunk: InputChunk, chunks: readonly InputChunk[]): string {
+  const outline = chunks.map((other) => {
+    const where = other.files.length > 0 ? ` of ${other.files.join(', ')}` : '';
+    const symbols = other.symbols.length > 0 ? ` — ${other.symbols.join(', ')}` : '';
+    const marker = other.part === chunk.part ? ' (this part)' : '';
+    return `- Part ${other.part}: lines ${other.startLine}–${other.endLine}${where}${symbols}${marker}`;
+  });
+
+  const lines = [
+    `This is part ${chunk.part} of ${chunks.length} of a larger input, split at component and function boundaries. The other parts are analyzed separately and the results merged, so cover only what this part contains and refer to anything defined elsewhere by name.`,
+    '',
+    'All parts:',
+    ...outline,
+  ];
+  if (chunk.sharedContext) {
+    lines.push('', 'Shared context from other parts (reference only):', '```', chunk.sharedContext, '```');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Runs `fn` once per part, concurrently (the process-wide limiter still caps
+ * provider requests), and returns the results in part order. With more than
+ * one part, each runs under an `input.part` span. LLM exchanges begin in
+ * part order, so a refinement continues each part's own exchange. The first
+ * part to fail aborts the others, so they stop spending tokens on a run that
+ * has already failed.
+ */
+export async function runParts<T, R>(
+  parts: readonly T[],
+  context: ExecutionContext,
+  fn: (part: T, context: ExecutionContext) => Promise<R>,
+): Promise<R[]> {
+  if (parts.length === 1 && parts[0] !== undefined) {
+    return [await fn(parts[0], context)];
+  }
+  context.logger?.info('Input split into parts', { parts: parts.length });
+  const siblings = new AbortController();
+  const partsContext: ExecutionContext = {
+    ...context,
+    signal: context.signal ? AbortSignal.any([context.signal, siblings.signal]) : siblings.signal,
+  };
+  return Promise.all(parts.map(async (part, index) => {
+    try {
+      return await traced(
+        partsContext,
+        'input.part',
+        { 'input.part': index + 1, 'input.parts': parts.length },
+        (partContext) => fn(part, partContext),
+      );
+    } catch (error: unknown) {
+      siblings.abort(error);
+      throw error;
+    }
+  }));
+}
+
+export function resolveInputChunkTokens(): number | undefined {
+  const raw = process.env['UX_PILOT_INPUT_CHUNK_TOKENS'];
+  const fromEnv = Number(raw);
+  return raw !== undefined && raw !== '' && Number.isInteger(fromEnv) && fromEnv >= 0 ? fromEnv : undefined;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Helpers                                                                   */
+/* -------------------------------------------------------------------------- */
+
+function wholeInput(text: string, lines: string[]): InputChunk {
+  const files = lines.flatMap((line) => FILE_MARKER.exec(line)?.[1] ?? []);
+  return { part: 1, content: text, startLine: 1, endLine: lines.length, files, symbols: [], sharedContext: '' };
+}
+
+/** Top-level segments in line order; every line belongs to exactly one. */
+function findSegments(lines: string[], language: InputLanguage): Segment[] {
+  const tagIndent = language === 'markup' ? minimumTagIndent(lines) : 0;
+  const starts: Array<{ line: number; symbol: string | undefined; file: boolean }> = [];
+  let inImport = false;
+
+  lines.forEach((line, index) => {
+    if (FILE_MARKER.test(line)) {
+      starts.push({ line: index, symbol: undefined, file: true });
+      inImport = false;
+      return;
+    }
+    if (inImport || IMPORT_START.test(line)) {
+      inImport = !IMPORT_END.test(line);
+      return;
+    }
+    const symbol = language === 'markup' ? markupSymbol(line, tagIndent) : codeSymbol(line);
+    if (symbol !== undefined) {
+      starts.push({ line: withLeadingComments(lines, index, starts.at(-1)?.line ?? -1), symbol: symbol || undefined, file: false });
+    }
+  });
+
+  const segments: Segment[] = [];
+  let file: string | undefined;
+  let cursor = 0;
+  const close = (end: number, symbol: string | undefined, preamble: boolean): void => {
+    if (end > cursor) segments.push({ start: cursor, end, file, symbol, preamble });
+    cursor = end;
+  };
+
+  let pending: { symbol: string | undefined; preamble: boolean } = { symbol: undefined, preamble: true };
+  for (const start of starts) {
+    close(start.line, pending.symbol, pending.preamble);
+    if (start.file) {
+      file = FILE_MARKER.exec(lines[start.line] ?? '')?.[1];
+      pending = { symbol: undefined, preamble: true };
+    } else {
+      pending = { symbol: start.symbol, preamble: false };
+    }
+  }
+  close(lines.length, pending.symbol, pending.preamble);
+  return segments;
+}
+
+/** The declared name for a top-level declaration line, '' when it has none, undefined when the line starts nothing. */
+function codeSymbol(line: string): string | undefined {
+  if (!DECLARATION.test(line)) return undefined;
+  return DECLARED_NAME.exec(line)?.[1] ?? '';
+}
+
+function markupSymbol(line: string, tagIndent: number): string | undefined {
+  if (indentOf(line) !== tagIndent) return undefined;
+  const match = OPENING_TAG.exec(line.trim());
+  if (!match?.[1]) return undefined;
+  const id = /\bid=["']([^"']+)["']/.exec(match[2] ?? '')?.[1];
+  return id ? `<${match[1]}#${id}>` : `<${match[1]}>`;
+}
+
+function minimumTagIndent(lines: string[]): number {
+  let minimum = Infinity;
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (OPENING_TAG.test(trimmed) && !/^<(?:html|head|body|!)/i.test(trimmed)) {
+      minimum = Math.min(minimum, indentOf(line));
+    }
+  }
+  return Number.isFinite(minimum) ? minimum : 0;
+}
+
+/** Moves a declaration's start up over the comments and decorators directly above it. */
+function withLeadingComments(lines: string[], index: number, previousStart: number): number {
+  let start = index;
+  while (start - 1 > previousStart && LEADING_COMMENT.test(lines[start - 1] ?? '')) {
+    start--;
+  }
+  return start;
+}
+
+/** Cuts a segment larger than the budget at blank lines, or mid-line-run when there are none. */
+function splitOversized(segment: Segment, lines: string[], budget: number): Segment[] {
+  if (sizeOf(lines, segment.start, segment.end) <= budget) {
+    return [segment];
+  }
+
+  const continued = segment.symbol ? `${segment.symbol} (continued)` : undefined;
+  const pieces: Segment[] = [];
+  let start = segment.start;
+  let size = 0;
+  let lastBlank = -1;
+  for (let index = segment.start; index < segment.end; index++) {
+    const lineSize = (lines[index]?.length ?? 0) + 1;
+    if (size + lineSize > budget && index > start) {
+      const cut = lastBlank > start ? lastBlank + 1 : index;
+      pieces.push({ ...segment, start, end: cut, symbol: pieces.length === 0 ? segment.symbol : continued });
+      start = cut;
+      size = sizeOf(lines, start, index);
+      lastBlank = -1;
+    }
+    size += lineSize;
+    if (!lines[index]?.trim()) lastBlank = index;
+  }
+  pieces.push({ ...segment, start, end: segment.end, symbol: continued });
+  return pieces;
+}
+
+function toChunk(
+  group: Segment[],
+  part: number,
+  lines: string[],
+  preambles: Map<string | undefined, Segment>,
+  budget: number,
+): InputChunk {
+  const first = group[0];
+  const last = group.at(-1);
+  const start = first?.start ?? 0;
+  const end = last?.end ?? 0;
+  const files = [...new Set(group.flatMap((segment) => segment.file ?? []))];
+
+  // A part that starts inside a file gets the file's marker back, so findings stay attributable.
+  const startsAtMarker = FILE_MARKER.test(lines[start] ?? '');
+  const continued = first?.file && !startsAtMarker ? `// File: ${first.file} (continued)\n` : '';
+
+  const shared = [...new Set(group.map((segment) => segment.file))]
+    .flatMap((file) => {
+      const preamble = preambles.get(file);
+      if (!preamble || group.includes(preamble)) return [];
+      const body = lines.slice(preamble.start, preamble.end).filter((line) => !FILE_MARKER.test(line)).join('\n').trim();
+      return body ? [file ? `// File: ${file}\n${body}` : body] : [];
+    })
+    .join('\n\n');
+
+  return {
+    part,
+    content: continued + lines.slice(start, end).join('\n').replace(/\n+$/, ''),
+    startLine: start + 1,
+    endLine: end,
+    files,
+    symbols: [...new Set(group.flatMap((segment) => segment.symbol ?? []))],
+    sharedContext: truncate(shared, Math.floor(budget / 4)),
+  };
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length <= maxChars ? text : `${text.slice(0, maxChars).replace(/\n[^\n]*$/, '')}\n…`;
+}
+
+function sizeOf(lines: string[], start: number, end: number): number {
+  let size = 0;
+  for (let index = start; index < end; index++) size += (lines[index]?.length ?? 0) + 1;
+  return size;
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
@@ -1,46 +1,168 @@
 /**
  * @file llm-client.ts
- * @description Claude LLM integration wrapper with error handling and model configuration
+ * @description Provider-agnostic LLM wrapper with error handling, JSON parsing, and model configuration
  * @author Charley Scholz, ELEV8
  * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
  * @created 2026-02-23
- * @updated 2026-02-23
+ * @updated 2026-10-19
  */
 
-import Anthropic from '@anthropic-ai/sdk';
+import type {
+  LLMProvider,
+  ProviderId,
+  ProviderMessage,
+  ProviderResponse,
+  ProviderTool,
+} from './llm-provider.js';
+import { PROVIDER_IDS } from './llm-provider.js';
+import { abortError, throwIfAborted } from './abort.js';
+import { processLimiter } from './concurrency.js';
+import type { Logger } from './logger.js';
+import { silentLogger } from './logger.js';
+import { AnthropicProvider } from './providers/anthropic-provider.js';
+import type { FixtureOptions } from './providers/fixture-provider.js';
+import { FIXTURE_MODES, FixtureProvider } from './providers/fixture-provider.js';
+import { renderProfilePrompt } from './project-profile.js';
+import type { LocalHandler } from './providers/local-provider.js';
+import { LocalProvider } from './providers/local-provider.js';
+import { OpenAICompatibleProvider } from './providers/openai-compatible-provider.js';
+import type { ResponseCacheOptions } from './response-cache.js';
+import { cacheKey, ResponseCache } from './response-cache.js';
+import type { RetryOptions } from './retry.js';
+import { DEFAULT_RETRY_OPTIONS, withRetry } from './retry.js';
+import type { ObjectSchema, Schema, SchemaIssue } from './schema.js';
+import { formatIssues, isObjectSchema, pickPaths, toJSONSchema, validate } from './schema.js';
+import type { Span } from './tracing.js';
+import { traced } from './tracing.js';
+import type { Conversation, ExecutionContext } from './types.js';
+import { CHARS_PER_TOKEN, estimateTokens } from './usage.js';
 import { UXPilotError } from './types.js';
 
-const DEFAULT_MODEL = 'claude-sonnet-4-20250514';
 const DEFAULT_MAX_TOKENS = 8192;
+const DEFAULT_REPAIR_ATTEMPTS = 1;
+const DEFAULT_MAX_CONTINUATIONS = 2;
+const CONTINUE_PROMPT = 'Your previous response was cut off. Continue exactly where it stopped — do not repeat anything, do not add commentary or fences.';
+const JSON_INSTRUCTION = '\n\nYou MUST respond with valid JSON only. No markdown fences, no commentary.';
+const RESULT_TOOL_NAME = 'submit_result';
+const REFINE_PROMPT = 'Revise your previous answer as follows. Return the complete revised result in the same format, and keep everything the instruction does not ask you to change.';
+const TOOL_INSTRUCTION = `\n\nDeliver your complete answer by calling the \`${RESULT_TOOL_NAME}\` tool. Its input schema is the required response format.`;
+
+/**
+ * How chatJSON obtains structured output:
+ * - `prompt` — instruct the model to reply with JSON text, then parse it
+ * - `tool` — force a call to a tool whose input schema is the response schema,
+ *   so the vendor returns the arguments as parsed data
+ */
+export type StructuredOutputMode = 'prompt' | 'tool';
+
+export const STRUCTURED_OUTPUT_MODES: readonly StructuredOutputMode[] = ['prompt', 'tool'];
 
 export interface LLMClientOptions {
-  apiKey: string;
+  /** Provider id or a pre-built provider instance (default: UX_PILOT_PROVIDER or "anthropic"). */
+  provider?: ProviderId | LLMProvider;
+  apiKey?: string;
+  /** Base URL override; required in practice for self-hosted OpenAI-compatible servers. */
+  baseUrl?: string;
   model?: string;
   maxTokens?: number;
+  /** Handler for the "local" provider, or a module path exporting one (default: UX_PILOT_LOCAL_HANDLER). */
+  localHandler?: LocalHandler | string;
+  /** Record/replay fixtures (default: UX_PILOT_FIXTURES / UX_PILOT_FIXTURES_DIR, else off). */
+  fixtures?: FixtureOptions;
+  /** Repair turns chatJSON may spend on invalid JSON before failing (default: 1). */
+  repairAttempts?: number;
+  /** Backoff policy for 429/529 and transient failures (default: UX_PILOT_MAX_RETRIES or 3 retries). */
+  retry?: Partial<RetryOptions>;
+  /** Process-wide ceiling on in-flight LLM requests (default: UX_PILOT_MAX_CONCURRENCY or 4). */
+  maxConcurrency?: number;
+  /**
+   * On-disk response cache, or `false` to disable it (default: enabled unless
+   * UX_PILOT_CACHE=0). Always off while recording or replaying fixtures.
+   */
+  cache?: ResponseCacheOptions | false;
+  /** Default structured-output strategy for chatJSON (default: UX_PILOT_STRUCTURED_OUTPUT, else "prompt"). */
+  structuredOutput?: StructuredOutputMode;
+  /** Follow-up requests that resume a response cut off at maxTokens (default: UX_PILOT_MAX_CONTINUATIONS, else 2). */
+  maxContinuations?: number;
+  /** Generate section by section whenever a chatJSON call declares `sections` (default: UX_PILOT_CHUNKED). */
+  chunked?: boolean;
+  /** Receives retries, continuations, repairs, and cache hits; a run's `context.logger` takes precedence (default: silent). */
+  logger?: Logger;
 }
 
 export interface ChatOptions {
   temperature?: number;
   maxTokens?: number;
+  /** Run context; when it carries an event sink the response is streamed. */
+  context?: ExecutionContext;
+  /** Overrides the client's continuation limit for truncated responses. */
+  maxContinuations?: number;
+}
+
+export interface JSONChatOptions<T> extends ChatOptions {
+  /** Validates the parsed response; failures trigger a repair turn, then PARSE_ERROR. */
+  schema?: Schema<T>;
+  repairAttempts?: number;
+  /** Overrides the client's structured-output mode; `tool` requires a schema. */
+  structuredOutput?: StructuredOutputMode;
+  /**
+   * Section plan for chunked generation: each entry lists dotted schema paths
+   * (e.g. `tokens.colors`) produced by one request. Used up front when
+   * chunking is enabled, and as a fallback when a single response truncates.
+   * Requires an object schema.
+   */
+  sections?: string[][];
+  /** Overrides the client's chunking preference. */
+  chunked?: boolean;
+}
+
+type ParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: SchemaIssue[] };
+
+/** One chat / chatJSON call's messages, and how to record the answer in the run's conversation. */
+interface Exchange {
+  messages: ProviderMessage[];
+  refining: boolean;
+  record(answer: string): void;
 }
 
 export class LLMClient {
-  private readonly client: Anthropic;
+  private readonly provider: LLMProvider;
   private readonly model: string;
   private readonly maxTokens: number;
+  private readonly repairAttempts: number;
+  private readonly retry: RetryOptions;
+  private readonly cache: ResponseCache | undefined;
+  private readonly structuredOutput: StructuredOutputMode;
+  private readonly maxContinuations: number;
+  private readonly chunked: boolean;
+  private readonly logger: Logger;
 
   constructor(options: LLMClientOptions) {
-    if (!options.apiKey) {
-      throw new UXPilotError(
-        'Anthropic API key is required',
-        'INVALID_INPUT',
-        { field: 'apiKey' },
-      );
+    const fixtures = resolveFixtureOptions(options.fixtures);
+    this.provider = createProvider(options, fixtures);
+    this.cache = createCache(options.cache, fixtures);
+    this.model = options.model ?? this.provider.defaultModel;
+    this.maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS;
+    this.repairAttempts = options.repairAttempts ?? DEFAULT_REPAIR_ATTEMPTS;
+    this.retry = resolveRetryOptions(options.retry);
+    this.structuredOutput = resolveStructuredOutput(options.structuredOutput);
+    this.maxContinuations = options.maxContinuations ?? resolveMaxContinuations();
+    this.chunked = options.chunked ?? ['1', 'true', 'on'].includes(process.env['UX_PILOT_CHUNKED'] ?? '');
+    this.logger = options.logger ?? silentLogger;
+
+    if (options.maxConcurrency !== undefined) {
+      processLimiter.setLimit(options.maxConcurrency);
     }
+  }
 
-    this.client = new Anthropic({ apiKey: options.apiKey });
-    this.model = options.model ?? process.env['ANTHROPIC_MODEL'] ?? DEFAULT_MODEL;
-    this.maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS;
+  getProviderId(): ProviderId {
+    return this.provider.id;
+  }
+
+  getModel(): string {
+    return this.model;
   }
 
   async chat(
@@ -48,70 +170,576 @@ export class LLMClient {
     userMessage: string,
     options: ChatOptions = {},
   ): Promise<string> {
+    return traced(options.context, 'llm.chat', { 'llm.output': 'text' }, async (context) => {
+      const exchange = beginExchange(userMessage, options.context?.conversation);
+      const response = await this.completeWithContinuation(
+        withProjectContext(systemPrompt, options.context),
+        exchange.messages,
+        { ...options, context },
+      );
+      exchange.record(response.text);
+      return response.text;
+    });
+  }
+
+  /**
+   * Requests JSON, parses it, and validates it against `options.schema`.
+   * Invalid output gets a repair turn: the model sees its own answer plus the
+   * exact failing paths and is asked for a corrected document. Truncated
+   * responses are continued; if that is not enough and the call declares
+   * `sections`, the result is regenerated section by section. Refinement
+   * turns revise the previous answer in one piece and never use sections.
+   */
+  async chatJSON<T>(
+    systemPrompt: string,
+    userMessage: string,
+    options: JSONChatOptions<T> = {},
+  ): Promise<T> {
+    const exchange = beginExchange(userMessage, options.context?.conversation);
+    const attributes = {
+      'llm.output': 'json',
+      'llm.structured_output': options.structuredOutput ?? this.structuredOutput,
+      'llm.refining': exchange.refining,
+    };
+    return traced(options.context, 'llm.chat', attributes, async (context) => {
+      const value = await this.generateStructured(
+        withProjectContext(systemPrompt, options.context),
+        userMessage,
+        exchange,
+        { ...options, context },
+      );
+      exchange.record(JSON.stringify(value));
+      return value;
+    });
+  }
+
+  private async generateStructured<T>(
+    system: string,
+    userMessage: string,
+    exchange: Exchange,
+    options: JSONChatOptions<T>,
+  ): Promise<T> {
+    const { schema, sections } = options;
+    if (!schema || !sections || !isObjectSchema(schema) || exchange.refining) {
+      return this.generateJSON(system, exchange.messages, options);
+    }
+
+    if (options.chunked ?? this.chunked) {
+      return this.generateSections(system, userMessage, schema, sections, options);
+    }
+
     try {
-      const response = await this.client.messages.create({
-        model: this.model,
-        max_tokens: options.maxTokens ?? this.maxTokens,
-        temperature: options.temperature ?? 0.3,
-        system: systemPrompt,
-        messages: [{ role: 'user', content: userMessage }],
-      });
+      return await this.generateJSON(system, exchange.messages, options);
+    } catch (error: unknown) {
+      if (error instanceof UXPilotError && error.code === 'OUTPUT_TRUNCATED') {
+        this.loggerFor(options).warn('Response truncated; regenerating section by section', { sections: sections.length });
+        return this.generateSections(system, userMessage, schema, sections, options);
+      }
+      throw error;
+    }
+  }
 
-      const textBlock = response.content.find((block) => block.type === 'text');
-      if (!textBlock || textBlock.type !== 'text') {
-        throw new UXPilotError(
-          'LLM returned no text content',
-          'LLM_ERROR',
-          { stopReason: response.stop_reason },
-        );
+  private async generateJSON<T>(
+    systemPrompt: string,
+    conversation: readonly ProviderMessage[],
+    options: JSONChatOptions<T>,
+  ): Promise<T> {
+    const mode = options.structuredOutput ?? this.structuredOutput;
+    const tool: ProviderTool | undefined = mode === 'tool' && options.schema
+      ? {
+        name: RESULT_TOOL_NAME,
+        description: 'Submit the complete structured result.',
+        inputSchema: toJSONSchema(options.schema),
       }
+      : undefined;
+    const system = systemPrompt + (tool ? TOOL_INSTRUCTION : JSON_INSTRUCTION);
+    const messages: ProviderMessage[] = [...conversation];
+    const maxRepairs = options.repairAttempts ?? this.repairAttempts;
 
-      return textBlock.text;
-    } catch (error: unknown) {
-      if (error instanceof UXPilotError) {
-        throw error;
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.completeWithContinuation(system, messages, options, tool);
+      const { text } = response;
+      options.context?.onEvent?.({ type: 'phase', phase: 'parsing' });
+
+      const result = traced(options.context, 'llm.parse', { 'llm.parse.attempt': attempt }, (_context, span) => {
+        const parsed = response.toolInput !== undefined
+          ? this.validateValue(response.toolInput, options.schema)
+          : this.parseJSON(text, options.schema);
+        span?.setAttributes({ 'llm.parse.valid': parsed.ok, 'llm.parse.issues': parsed.ok ? 0 : parsed.issues.length });
+        return parsed;
+      });
+      if (result.ok) {
+        return result.value;
       }
 
-      if (error instanceof Anthropic.APIError) {
+      if (attempt >= maxRepairs) {
         throw new UXPilotError(
-          `Anthropic API error: ${error.message}`,
-          'LLM_ERROR',
+          `Failed to parse LLM response as valid JSON: ${formatIssues(result.issues)}`,
+          'PARSE_ERROR',
           {
-            status: error.status,
-            type: error.error?.type ?? 'unknown',
+            issues: result.issues,
+            repairAttempts: attempt,
+            rawResponse: text.slice(0, 500),
           },
         );
       }
 
-      const message = error instanceof Error ? error.message : String(error);
-      throw new UXPilotError(
-        `Unexpected LLM error: ${message}`,
-        'LLM_ERROR',
-        { originalError: message },
+      this.loggerFor(options).warn('Response failed schema validation; requesting a repair', {
+        attempt: attempt + 1,
+        issues: result.issues.length,
+        firstIssue: formatIssues(result.issues.slice(0, 1)),
+      });
+      messages.push(
+        { role: 'assistant', content: text },
+        { role: 'user', content: this.buildRepairPrompt(result.issues) },
       );
     }
   }
 
-  async chatJSON<T>(
+  /**
+   * Builds an object result one section at a time. Each request sees the
+   * sections generated so far so later parts stay consistent with earlier
+   * ones; the merged document is validated against the full schema.
+   */
+  private async generateSections<T>(
     systemPrompt: string,
     userMessage: string,
-    options: ChatOptions = {},
+    schema: ObjectSchema<T>,
+    sections: string[][],
+    options: JSONChatOptions<T>,
   ): Promise<T> {
-    const raw = await this.chat(
-      systemPrompt + '\n\nYou MUST respond with valid JSON only. No markdown fences, no commentary.',
-      userMessage,
-      options,
-    );
+    const merged: Record<string, unknown> = {};
+
+    for (const [index, paths] of sections.entries()) {
+      const generated = Object.keys(merged).length > 0
+        ? `\n\nSections already generated (stay consistent with them; do not repeat them):\n${JSON.stringify(merged)}`
+        : '';
+      const sectionMessage = [
+        userMessage,
+        '',
+        '---',
+        `This result is generated in ${sections.length} parts. Part ${index + 1}: return a JSON object containing ONLY ${paths.map((p) => `\`${p}\``).join(', ')}.${generated}`,
+      ].join('\n');
+
+      const part = await this.generateJSON(systemPrompt, [{ role: 'user', content: sectionMessage }], {
+        ...options,
+        schema: pickPaths(schema, paths),
+        sections: undefined,
+      });
+      mergeInto(merged, part);
+    }
 
+    const result = validate(schema, merged);
+    if (!result.ok) {
+      throw new UXPilotError(
+        `Sectioned response is incomplete: ${formatIssues(result.issues)}`,
+        'PARSE_ERROR',
+        { issues: result.issues, sections },
+      );
+    }
+    return result.value;
+  }
+
+  /**
+   * Runs one completion and, while it stops at `maxTokens`, asks the model to
+   * resume. Providers that accept assistant prefill continue the partial
+   * answer directly; others get an explicit "continue" turn. Forced tool
+   * calls cannot be resumed, so they fail on the first truncation.
+   */
+  private async completeWithContinuation(
+    systemPrompt: string,
+    messages: ProviderMessage[],
+    options: ChatOptions,
+    tool?: ProviderTool,
+  ): Promise<ProviderResponse> {
+    const maxContinuations = tool ? 0 : options.maxContinuations ?? this.maxContinuations;
+    let response = await this.complete(systemPrompt, messages, options, tool);
+    let text = response.text;
+    let continuations = 0;
+
+    while (response.stopReason === 'max_tokens' && continuations < maxContinuations) {
+      continuations++;
+      this.loggerFor(options).info('Response hit the output token limit; continuing', {
+        continuation: continuations,
+        maxTokens: options.maxTokens ?? this.maxTokens,
+      });
+      // Anthropic rejects assistant prefill that ends in whitespace.
+      const partial = this.provider.supportsPrefill ? text.trimEnd() : text;
+      const followUp: ProviderMessage[] = this.provider.supportsPrefill
+        ? [...messages, { role: 'assistant', content: partial }]
+        : [...messages, { role: 'assistant', content: partial }, { role: 'user', content: CONTINUE_PROMPT }];
+      response = await this.complete(systemPrompt, followUp, options, tool);
+      text = partial + response.text;
+    }
+
+    if (response.stopReason === 'max_tokens') {
+      const maxTokens = options.maxTokens ?? this.maxTokens;
+      throw new UXPilotError(
+        `LLM response was cut off at the ${maxTokens}-token output limit${continuations > 0 ? ` after ${continuations} continuation(s)` : ''}`,
+        'OUTPUT_TRUNCATED',
+        {
+          maxTokens,
+          continuations,
+          structuredOutput: tool ? 'tool' : 'prompt',
+          partialResponse: text.slice(-500),
+        },
+      );
+    }
+
+    return { ...response, text };
+  }
+
+  private parseJSON<T>(raw: string, schema: Schema<T> | undefined): ParseResult<T> {
+    let parsed: unknown;
     try {
       const cleaned = raw.replace(/^```(?:json)?\n?/gm, '').replace(/```$/gm, '').trim();
-      return JSON.parse(cleaned) as T;
-    } catch {
+      parsed = JSON.parse(cleaned);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { ok: false, issues: [{ path: '(root)', message: `is not valid JSON (${message})` }] };
+    }
+
+    return this.validateValue(parsed, schema);
+  }
+
+  private validateValue<T>(value: unknown, schema: Schema<T> | undefined): ParseResult<T> {
+    if (!schema) {
+      return { ok: true, value: value as T };
+    }
+    return validate(schema, value);
+  }
+
+  private buildRepairPrompt(issues: SchemaIssue[]): string {
+    return [
+      'Your previous response did not match the required JSON schema:',
+      '',
+      ...issues.slice(0, 50).map((issue) => `- ${issue.path}: ${issue.message}`),
+      '',
+      'Respond again with the complete, corrected JSON document. Keep every valid field; fix only what is listed.',
+    ].join('\n');
+  }
+
+  /** The run's logger when it has one, else the client's. */
+  private loggerFor(options: ChatOptions): Logger {
+    return options.context?.logger ?? this.logger;
+  }
+
+  /** One provider request (or cache hit), traced as an `llm.call` span. */
+  private complete(
+    systemPrompt: string,
+    messages: ProviderMessage[],
+    options: ChatOptions,
+    tool?: ProviderTool,
+  ): Promise<ProviderResponse> {
+    const attributes = {
+      'gen_ai.system': this.provider.id,
+      'gen_ai.request.model': this.model,
+      'gen_ai.request.max_tokens': options.maxTokens ?? this.maxTokens,
+    };
+    return traced(options.context, 'llm.call', attributes, (_context, span) => (
+      this.send(systemPrompt, messages, options, tool, span)
+    ));
+  }
+
+  private async send(
+    systemPrompt: string,
+    messages: ProviderMessage[],
+    options: ChatOptions,
+    tool: ProviderTool | undefined,
+    span: Span | undefined,
+  ): Promise<ProviderResponse> {
+    const request = {
+      model: this.model,
+      system: systemPrompt,
+      messages,
+      maxTokens: options.maxTokens ?? this.maxTokens,
+      temperature: options.temperature ?? 0.3,
+      tool,
+    };
+
+    const usage = options.context?.usage;
+    const onEvent = options.context?.onEvent;
+    const signal = options.context?.signal;
+    const logger = this.loggerFor(options);
+    throwIfAborted(signal);
+
+    const key = this.cache ? cacheKey(this.provider.id, request) : undefined;
+    if (this.cache && key) {
+      const cached = await this.cache.get(key);
+      if (cached) {
+        span?.setAttributes({ 'cache.hit': true, 'gen_ai.response.finish_reason': cached.stopReason });
+        logger.debug('LLM response served from cache', { provider: this.provider.id, model: this.model });
+        onEvent?.({ type: 'phase', phase: 'streaming' });
+        onEvent?.({
+          type: 'tokens',
+          outputTokens: estimateTokens(cached.text),
+          characters: cached.text.length,
+        });
+        usage?.record({
+          provider: this.provider.id,
+          model: this.model,
+          inputTokens: 0,
+          outputTokens: 0,
+          latencyMs: 0,
+          estimated: false,
+          cached: true,
+        });
+        return cached;
+      }
+    }
+
+    const estimatedInputTokens = estimateTokens(systemPrompt)
+      + messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+    const release = usage?.reserve(estimatedInputTokens, request.maxTokens);
+
+    let characters = 0;
+    const onText = onEvent
+      ? (delta: string): void => {
+        characters += delta.length;
+        onEvent({
+          type: 'tokens',
+          outputTokens: Math.ceil(characters / CHARS_PER_TOKEN),
+          characters,
+        });
+      }
+      : undefined;
+
+    const startedAt = Date.now();
+    try {
+      const response = await withRetry(
+        () => processLimiter.run(() => {
+          characters = 0;
+          onEvent?.({ type: 'phase', phase: 'streaming' });
+          return this.provider.complete(request, { onText, signal });
+        }, signal),
+        this.retry,
+        signal,
+        (attempt, delayMs, error) => {
+          span?.setAttributes({ 'llm.retries': attempt });
+          logger.warn('Retrying LLM request', { provider: this.provider.id, attempt, delayMs, error });
+        },
+      );
+
+      const inputTokens = response.usage?.inputTokens ?? estimatedInputTokens;
+      const outputTokens = response.usage?.outputTokens ?? estimateTokens(response.text);
+      const latencyMs = Date.now() - startedAt;
+      usage?.record({
+        provider: this.provider.id,
+        model: this.model,
+        inputTokens,
+        outputTokens,
+        latencyMs,
+        estimated: !response.usage,
+        cached: false,
+      });
+      span?.setAttributes({
+        'cache.hit': false,
+        'gen_ai.usage.input_tokens': inputTokens,
+        'gen_ai.usage.output_tokens': outputTokens,
+        'gen_ai.response.finish_reason': response.stopReason,
+      });
+      logger.debug('LLM request completed', {
+        provider: this.provider.id,
+        model: this.model,
+        inputTokens,
+        outputTokens,
+        latencyMs,
+        stopReason: response.stopReason,
+      });
+      // Truncated or otherwise abnormal completions are never replayed.
+      if (this.cache && key && response.stopReason === 'end_turn') {
+        await this.cache.set(key, this.provider.id, this.model, response);
+      }
+      return response;
+    } catch (error: unknown) {
+      // Providers report aborts in vendor-specific ways; normalize them here.
+      if (signal?.aborted) {
+        throw abortError(signal);
+      }
+      if (error instanceof UXPilotError) {
+        throw error;
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
       throw new UXPilotError(
-        'Failed to parse LLM response as JSON',
-        'PARSE_ERROR',
-        { rawResponse: raw.slice(0, 500) },
+        `Unexpected LLM error: ${message}`,
+        'LLM_ERROR',
+        { provider: this.provider.id, originalError: message },
       );
+    } finally {
+      // Recorded (or failed): the call's real usage replaces its reservation.
+      release?.();
+    }
+  }
+}
+
+function createProvider(options: LLMClientOptions, fixtures: FixtureOptions): LLMProvider {
+  if (fixtures.mode === 'off') {
+    return createBaseProvider(options);
+  }
+
+  // Replay never reaches the network, so only build the real provider
+  // (and demand its credentials) when recording.
+  const selected = selectProvider(options);
+  const inner = fixtures.mode === 'record' || typeof selected === 'object'
+    ? createBaseProvider(options)
+    : undefined;
+  return new FixtureProvider(
+    { mode: fixtures.mode, dir: fixtures.dir, provider: typeof selected === 'string' ? selected : selected.id },
+    inner,
+  );
+}
+
+function createCache(
+  cache: ResponseCacheOptions | false | undefined,
+  fixtures: FixtureOptions,
+): ResponseCache | undefined {
+  // A cache hit would bypass recording and mask replay misses.
+  if (cache === false || fixtures.mode !== 'off') {
+    return undefined;
+  }
+  if (cache === undefined && ['0', 'false', 'off'].includes(process.env['UX_PILOT_CACHE'] ?? '')) {
+    return undefined;
+  }
+  return new ResponseCache(cache);
+}
+
+function resolveMaxContinuations(): number {
+  const fromEnv = Number(process.env['UX_PILOT_MAX_CONTINUATIONS']);
+  return Number.isInteger(fromEnv) && fromEnv >= 0 ? fromEnv : DEFAULT_MAX_CONTINUATIONS;
+}
+
+/**
+ * Messages for one chat / chatJSON call. Without a conversation this is just
+ * the user message. On a refinement run, the call continues the previous
+ * version's exchange at the same position with the instruction; a call the
+ * previous version did not make gets the instruction appended instead.
+ */
+function beginExchange(userMessage: string, conversation: Conversation | undefined): Exchange {
+  const first: ProviderMessage = { role: 'user', content: userMessage };
+  if (!conversation) {
+    return { messages: [first], refining: false, record: () => undefined };
+  }
+
+  const index = conversation.exchanges.push([]) - 1;
+  const refine = conversation.refine;
+  const revision = refine ? `${REFINE_PROMPT}\n\n${refine.instruction}` : '';
+  const previous = refine?.previous[index];
+  const messages: ProviderMessage[] = !refine
+    ? [first]
+    : previous
+      ? [...previous, { role: 'user', content: revision }]
+      : [{ role: 'user', content: `${userMessage}\n\n---\n${revision}` }];
+
+  return {
+    messages,
+    refining: refine !== undefined,
+    record: (answer) => {
+      conversation.exchanges[index] = [...messages, { role: 'assistant', content: answer }];
+    },
+  };
+}
+
+/** Appends the run's project profile (if any) to a capability's system prompt. */
+function withProjectContext(systemPrompt: string, context: ExecutionContext | undefined): string {
+  const projectContext = context?.profile ? renderProfilePrompt(context.profile) : '';
+  return projectContext ? `${systemPrompt}\n\n${projectContext}` : systemPrompt;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+/** Deep-merges `source` into `target`; arrays and scalars are replaced. */
+function mergeInto(target: Record<string, unknown>, source: Record<string, unknown>): void {
+  for (const [key, value] of Object.entries(source)) {
+    const existing = target[key];
+    if (isPlainObject(existing) && isPlainObject(value)) {
+      mergeInto(existing, value);
+    } else {
+      target[key] = value;
     }
   }
 }
+
+function resolveStructuredOutput(mode: StructuredOutputMode | undefined): StructuredOutputMode {
+  const selected = mode ?? process.env['UX_PILOT_STRUCTURED_OUTPUT'] ?? 'prompt';
+  if (!STRUCTURED_OUTPUT_MODES.includes(selected as StructuredOutputMode)) {
+    throw new UXPilotError(
+      `Unknown structured output mode: ${selected}`,
+      'INVALID_INPUT',
+      { field: 'structuredOutput', received: selected, supported: STRUCTURED_OUTPUT_MODES },
+    );
+  }
+  return selected as StructuredOutputMode;
+}
+
+function resolveRetryOptions(retry: Partial<RetryOptions> | undefined): RetryOptions {
+  const envRetries = Number(process.env['UX_PILOT_MAX_RETRIES']);
+  return {
+    ...DEFAULT_RETRY_OPTIONS,
+    ...(Number.isInteger(envRetries) && envRetries >= 0 ? { maxRetries: envRetries } : {}),
+    ...retry,
+  };
+}
+
+function resolveFixtureOptions(fixtures: FixtureOptions | undefined): FixtureOptions {
+  if (fixtures) {
+    return fixtures;
+  }
+
+  const mode = process.env['UX_PILOT_FIXTURES'] ?? 'off';
+  if (!FIXTURE_MODES.includes(mode as FixtureOptions['mode'])) {
+    throw new UXPilotError(
+      `Unknown fixture mode: ${mode}`,
+      'INVALID_INPUT',
+      { field: 'UX_PILOT_FIXTURES', received: mode, supported: FIXTURE_MODES },
+    );
+  }
+
+  return {
+    mode: mode as FixtureOptions['mode'],
+    dir: process.env['UX_PILOT_FIXTURES_DIR'],
+  };
+}
+
+/** The configured provider instance, or its id (default: UX_PILOT_PROVIDER or "anthropic"). */
+function selectProvider(options: LLMClientOptions): ProviderId | LLMProvider {
+  const selected = options.provider ?? process.env['UX_PILOT_PROVIDER'] ?? 'anthropic';
+  if (typeof selected !== 'string') {
+    return selected;
+  }
+  if (!PROVIDER_IDS.includes(selected as ProviderId)) {
+    throw new UXPilotError(
+      `Unknown LLM provider: ${selected}`,
+      'INVALID_INPUT',
+      { field: 'provider', received: selected, supported: PROVIDER_IDS },
+    );
+  }
+  return selected as ProviderId;
+}
+
+function createBaseProvider(options: LLMClientOptions): LLMProvider {
+  const selected = selectProvider(options);
+  if (typeof selected !== 'string') {
+    return selected;
+  }
+
+  switch (selected) {
+    case 'anthropic':
+      return new AnthropicProvider({
+        apiKey: options.apiKey ?? '',
+        baseUrl: options.baseUrl,
+      });
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        apiKey: options.apiKey ?? process.env['OPENAI_API_KEY'],
+        baseUrl: options.baseUrl ?? process.env['OPENAI_BASE_URL'],
+      });
+    case 'local':
+      return new LocalProvider({
+        handler: options.localHandler ?? process.env['UX_PILOT_LOCAL_HANDLER'] ?? '',
+        model: options.model,
+      });
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * @file llm-provider.ts
+ * @description Vendor-neutral provider contract that LLMClient delegates raw completions to
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import type { JSONSchema } from './schema.js';
+
+export type ProviderId = 'anthropic' | 'openai' | 'local';
+
+export const PROVIDER_IDS: readonly ProviderId[] = ['anthropic', 'openai', 'local'];
+
+/** Built-in providers whose `supportsPrefill` is true; lets fixture replay match them without an instance. */
+export const PREFILL_PROVIDER_IDS: readonly ProviderId[] = ['anthropic'];
+
+export interface ProviderMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * A single tool the model is forced to call. Its input schema is the
+ * expected response shape, so the vendor returns arguments as structured
+ * data instead of free-form text.
+ */
+export interface ProviderTool {
+  name: string;
+  description: string;
+  inputSchema: JSONSchema;
+}
+
+export interface ProviderRequest {
+  model: string;
+  system: string;
+  messages: ProviderMessage[];
+  maxTokens: number;
+  temperature: number;
+  /** When set, the provider must force a call to this tool and return its input as `toolInput`. */
+  tool?: ProviderTool;
+}
+
+/**
+ * Normalized stop reason. Providers map their vendor-specific values onto
+ * this set so callers never branch on vendor strings.
+ */
+export type StopReason = 'end_turn' | 'max_tokens' | 'stop_sequence' | 'other';
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ProviderResponse {
+  text: string;
+  stopReason: StopReason;
+  /** Vendor-reported token counts; omitted when the backend does not report them. */
+  usage?: TokenUsage;
+  /**
+   * Parsed arguments of the forced tool call. Undefined when no tool was
+   * requested, the model did not call it, or the arguments were cut off.
+   */
+  toolInput?: unknown;
+}
+
+export interface CompletionOptions {
+  /**
+   * When present, the provider streams the response and reports each text
+   * delta as it arrives. The resolved ProviderResponse is unchanged.
+   */
+  onText?: (delta: string) => void;
+  /** Aborts the in-flight request; providers surface this as TIMEOUT or CANCELLED. */
+  signal?: AbortSignal;
+}
+
+/**
+ * A provider performs a single completion round-trip against one vendor.
+ * JSON handling, prompting conventions, and error wrapping live in LLMClient;
+ * providers only translate requests and responses.
+ */
+export interface LLMProvider {
+  readonly id: ProviderId;
+  readonly defaultModel: string;
+  /**
+   * True when a trailing assistant message is continued verbatim (Anthropic
+   * prefill). LLMClient uses it to resume responses cut off at maxTokens.
+   */
+  readonly supportsPrefill?: boolean;
+  complete(request: ProviderRequest, options?: CompletionOptions): Promise<ProviderResponse>;
+}
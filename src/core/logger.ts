@@ -0,0 +1,121 @@
+/**
+ * @file logger.ts
+ * @description Structured logging — a minimal Logger interface and a JSON-lines implementation
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import { UXPilotError } from './types.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export const LOG_LEVELS: readonly (LogLevel | 'silent')[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+export type LogAttributes = Record<string, unknown>;
+
+export interface LogRecord {
+  time: string;
+  level: LogLevel;
+  message: string;
+  attributes: LogAttributes;
+}
+
+/**
+ * What UX Pilot logs through. Adapt pino, winston, or a platform logger by
+ * implementing these five methods.
+ */
+export interface Logger {
+  debug(message: string, attributes?: LogAttributes): void;
+  info(message: string, attributes?: LogAttributes): void;
+  warn(message: string, attributes?: LogAttributes): void;
+  error(message: string, attributes?: LogAttributes): void;
+  /** A logger that adds `attributes` to every record. */
+  child(attributes: LogAttributes): Logger;
+}
+
+export interface JsonLoggerOptions {
+  /** Records below this level are dropped (default: UX_PILOT_LOG_LEVEL, else "silent"). */
+  level?: LogLevel | 'silent';
+  /** Receives each record (default: one JSON line on stderr, so stdout stays clean for results). */
+  sink?: (record: LogRecord) => void;
+  attributes?: LogAttributes;
+}
+
+const SEVERITY: Record<LogLevel | 'silent', number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+/** Writes each record as one JSON line; errors in attributes are reduced to name, message, and code. */
+export class JsonLogger implements Logger {
+  readonly level: LogLevel | 'silent';
+  private readonly sink: (record: LogRecord) => void;
+  private readonly attributes: LogAttributes;
+
+  constructor(options: JsonLoggerOptions = {}) {
+    this.level = options.level ?? resolveLogLevel();
+    this.sink = options.sink ?? writeStderr;
+    this.attributes = options.attributes ?? {};
+  }
+
+  debug(message: string, attributes?: LogAttributes): void {
+    this.log('debug', message, attributes);
+  }
+
+  info(message: string, attributes?: LogAttributes): void {
+    this.log('info', message, attributes);
+  }
+
+  warn(message: string, attributes?: LogAttributes): void {
+    this.log('warn', message, attributes);
+  }
+
+  error(message: string, attributes?: LogAttributes): void {
+    this.log('error', message, attributes);
+  }
+
+  child(attributes: LogAttributes): Logger {
+    return new JsonLogger({ level: this.level, sink: this.sink, attributes: { ...this.attributes, ...attributes } });
+  }
+
+  private log(level: LogLevel, message: string, attributes: LogAttributes | undefined): void {
+    if (SEVERITY[level] < SEVERITY[this.level]) return;
+    const merged: LogAttributes = {};
+    for (const [key, value] of Object.entries({ ...this.attributes, ...attributes })) {
+      if (value !== undefined) merged[key] = value instanceof Error ? describeError(value) : value;
+    }
+    try {
+      this.sink({ time: new Date().toISOString(), level, message, attributes: merged });
+    } catch {
+      // A broken sink must never fail a run.
+    }
+  }
+}
+
+/** Discards everything; the default when no logger is configured. */
+export const silentLogger: Logger = new JsonLogger({ level: 'silent' });
+
+export function resolveLogLevel(level: string | undefined = process.env['UX_PILOT_LOG_LEVEL']): LogLevel | 'silent' {
+  if (level === undefined || level === '') {
+    return 'silent';
+  }
+  if (!LOG_LEVELS.includes(level as LogLevel)) {
+    throw new UXPilotError(
+      `Unknown log level: ${level}`,
+      'INVALID_INPUT',
+      { field: 'logLevel', received: level, supported: LOG_LEVELS },
+    );
+  }
+  return level as LogLevel | 'silent';
+}
+
+function describeError(error: Error): LogAttributes {
+  return {
+    name: error.name,
+    message: error.message,
+    ...(error instanceof UXPilotError ? { code: error.code } : {}),
+  };
+}
+
+function writeStderr(record: LogRecord): void {
+  process.stderr.write(`${JSON.stringify({ time: record.time, level: record.level, msg: record.message, ...record.attributes })}\n`);
+}
@@ -0,0 +1,139 @@
+/**
+ * @file output-diff.ts
+ * @description Structural diff between two versions of a capability output
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+/** Fields UXPilot derives or attaches; they change on every run and say nothing about the design. */
+const IGNORED_FIELDS: ReadonlySet<string> = new Set(['markdownReport', 'usage', 'runId', 'prompts', 'redactions', 'contrastMatrix']);
+
+/** Array items carrying one of these (unique) fields are matched by it instead of by position. */
+const KEY_FIELDS = ['id', 'name'] as const;
+
+export interface OutputChange {
+  /** Dotted path, e.g. `tokens.colors.primary.stops[2].hex` or `children[name=Header].props`. */
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Leaf-level changes from `before` to `after`. Lists of named items (components,
+ * tokens, steps) are matched by `id` / `name`, so a reordered or inserted item
+ * is reported as such rather than as a change to every following index.
+ */
+export function diffOutputs(before: unknown, after: unknown): OutputChange[] {
+  const changes: OutputChange[] = [];
+  diffValue(before, after, '', changes, true);
+  return changes;
+}
+
+/** One line per change, capped at `limit` with a count of the rest. */
+export function renderChanges(changes: OutputChange[], limit: number = 50): string[] {
+  if (changes.length === 0) {
+    return ['No changes.'];
+  }
+  const lines = changes.slice(0, limit).map((change) => {
+    switch (change.kind) {
+      case 'added':
+        return `+ ${change.path}: ${preview(change.after)}`;
+      case 'removed':
+        return `- ${change.path}: ${preview(change.before)}`;
+      case 'changed':
+        return `~ ${change.path}: ${preview(change.before)} → ${preview(change.after)}`;
+    }
+  });
+  if (changes.length > limit) {
+    lines.push(`… and ${changes.length - limit} more`);
+  }
+  return lines;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Helpers                                                                   */
+/* -------------------------------------------------------------------------- */
+
+function diffValue(before: unknown, after: unknown, path: string, changes: OutputChange[], root: boolean = false): void {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    diffArray(before, after, path, changes);
+    return;
+  }
+  if (isRecord(before) && isRecord(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      if (root && IGNORED_FIELDS.has(key)) continue;
+      const childPath = path ? `${path}.${key}` : key;
+      if (!(key in after)) {
+        changes.push({ path: childPath, kind: 'removed', before: before[key] });
+      } else if (!(key in before)) {
+        changes.push({ path: childPath, kind: 'added', after: after[key] });
+      } else {
+        diffValue(before[key], after[key], childPath, changes);
+      }
+    }
+    return;
+  }
+  if (!Object.is(before, after)) {
+    changes.push({ path: path || '(root)', kind: 'changed', before, after });
+  }
+}
+
+function diffArray(before: unknown[], after: unknown[], path: string, changes: OutputChange[]): void {
+  const key = sharedKey(before, after);
+  if (!key) {
+    const length = Math.max(before.length, after.length);
+    for (let index = 0; index < length; index++) {
+      const itemPath = `${path}[${index}]`;
+      if (index >= after.length) {
+        changes.push({ path: itemPath, kind: 'removed', before: before[index] });
+      } else if (index >= before.length) {
+        changes.push({ path: itemPath, kind: 'added', after: after[index] });
+      } else {
+        diffValue(before[index], after[index], itemPath, changes);
+      }
+    }
+    return;
+  }
+
+  const byKey = (items: unknown[]): Map<string, Record<string, unknown>> => new Map(
+    items.filter(isRecord).map((item) => [String(item[key]), item]),
+  );
+  const beforeItems = byKey(before);
+  const afterItems = byKey(after);
+  for (const [id, item] of beforeItems) {
+    const itemPath = `${path}[${key}=${id}]`;
+    const next = afterItems.get(id);
+    if (next) {
+      diffValue(item, next, itemPath, changes);
+    } else {
+      changes.push({ path: itemPath, kind: 'removed', before: item });
+    }
+  }
+  for (const [id, item] of afterItems) {
+    if (!beforeItems.has(id)) {
+      changes.push({ path: `${path}[${key}=${id}]`, kind: 'added', after: item });
+    }
+  }
+}
+
+/** The first key field that is present and unique in every item of both lists. */
+function sharedKey(before: unknown[], after: unknown[]): string | undefined {
+  return KEY_FIELDS.find((field) => [before, after].every((items) => {
+    const values = items.map((item) => (isRecord(item) ? item[field] : undefined));
+    return values.every((value) => typeof value === 'string' || typeof value === 'number')
+      && new Set(values).size === values.length;
+  }));
+}
+
+function preview(value: unknown): string {
+  const text = JSON.stringify(value) ?? 'undefined';
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
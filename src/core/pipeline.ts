@@ -0,0 +1,267 @@
+/**
+ * @file pipeline.ts
+ * @description Declarative multi-capability pipelines — definition format, step references, and the combined report
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import type { PromptUse } from './prompt-registry.js';
+import { formatIssues, s, validate } from './schema.js';
+import type { UsageReport } from './types.js';
+import { UXPilotError } from './types.js';
+
+/**
+ * One capability run. String values anywhere in `input` may reference
+ * earlier results: `${steps.<id>.<path>}` (a prior step's output) and
+ * `${vars.<name>}` (a pipeline variable). A string that is exactly one
+ * reference is replaced by the referenced value as-is (arrays and objects
+ * included); references inside longer strings are interpolated as text.
+ */
+export interface PipelineStepDefinition {
+  /** Unique within the pipeline; used in references. */
+  id: string;
+  /** Registered capability id. */
+  capability: string;
+  /** Heading for the step in the combined report (default: the capability name). */
+  title?: string;
+  input: Record<string, unknown>;
+}
+
+export interface PipelineDefinition {
+  name: string;
+  description?: string;
+  /** Default values for `${vars.*}`; run-time variables override them. */
+  vars?: Record<string, unknown>;
+  steps: PipelineStepDefinition[];
+}
+
+export interface PipelineStepResult {
+  id: string;
+  capabilityId: string;
+  title: string;
+  /** Input after references were resolved. */
+  input: unknown;
+  output: unknown;
+  usage: UsageReport;
+  /** History id of the step's run, when it was saved. */
+  runId?: string;
+  /** Prompt template versions the step rendered. */
+  prompts?: PromptUse[];
+}
+
+export interface PipelineResult {
+  name: string;
+  steps: PipelineStepResult[];
+  /** Every step's report under one document, in step order. */
+  markdownReport: string;
+  /** Totals across all steps. */
+  usage: UsageReport;
+}
+
+export interface PipelineScope {
+  vars: Record<string, unknown>;
+  steps: Record<string, unknown>;
+}
+
+const STEP_ID_PATTERN = /^[A-Za-z][\w-]*$/;
+const REFERENCE_PATTERN = /\$\{\s*((?:steps|vars)(?:\.[\w-]+|\[\d+\])+)\s*\}/g;
+const WHOLE_REFERENCE_PATTERN = /^\$\{\s*((?:steps|vars)(?:\.[\w-]+|\[\d+\])+)\s*\}$/;
+
+const PipelineDefinitionSchema = s.object<PipelineDefinition>({
+  name: s.string(),
+  description: s.optional(s.string()),
+  vars: s.optional(s.record(s.unknown())),
+  steps: s.array(s.object<PipelineStepDefinition>({
+    id: s.string(),
+    capability: s.string(),
+    title: s.optional(s.string()),
+    input: s.record(s.unknown()),
+  })),
+});
+
+/**
+ * Validates a parsed pipeline document: shape, unique step ids, and that
+ * every `${steps.*}` reference points at an earlier step. Capability ids are
+ * checked against the registry when the pipeline runs.
+ */
+export function parsePipeline(value: unknown): PipelineDefinition {
+  const result = validate(PipelineDefinitionSchema, value);
+  if (!result.ok) {
+    throw new UXPilotError(
+      `Invalid pipeline: ${formatIssues(result.issues)}`,
+      'INVALID_INPUT',
+      { field: 'pipeline', issues: result.issues },
+    );
+  }
+
+  const pipeline = result.value;
+  if (pipeline.steps.length === 0) {
+    throw new UXPilotError('Pipeline has no steps', 'INVALID_INPUT', { field: 'steps' });
+  }
+
+  const seen = new Set<string>();
+  for (const step of pipeline.steps) {
+    if (!STEP_ID_PATTERN.test(step.id)) {
+      throw new UXPilotError(
+        `Pipeline step id "${step.id}" must start with a letter and contain only letters, digits, "_" or "-"`,
+        'INVALID_INPUT',
+        { field: 'steps.id', received: step.id },
+      );
+    }
+    if (seen.has(step.id)) {
+      throw new UXPilotError(
+        `Pipeline step id "${step.id}" is used more than once`,
+        'INVALID_INPUT',
+        { field: 'steps.id', received: step.id },
+      );
+    }
+
+    for (const reference of collectReferences(step.input)) {
+      const [root, stepId] = splitPath(reference);
+      if (root === 'steps' && (stepId === undefined || !seen.has(String(stepId)))) {
+        throw new UXPilotError(
+          `Pipeline step "${step.id}" references \${${reference}}, but "${String(stepId)}" is not an earlier step`,
+          'INVALID_INPUT',
+          { field: 'steps.input', step: step.id, reference },
+        );
+      }
+    }
+    seen.add(step.id);
+  }
+
+  return pipeline;
+}
+
+/** Reads and validates a JSON pipeline file. */
+export async function loadPipelineFile(path: string): Promise<PipelineDefinition> {
+  const filePath = resolve(path);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(filePath, 'utf-8'));
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new UXPilotError(
+      `Could not read pipeline file "${path}": ${message}`,
+      'INVALID_INPUT',
+      { field: 'pipeline', path: filePath },
+    );
+  }
+  return parsePipeline(parsed);
+}
+
+/**
+ * Replaces `${steps.*}` / `${vars.*}` references in `value` (recursively)
+ * with values from `scope`. Throws INVALID_INPUT when a reference resolves
+ * to nothing, which usually means a typo in the path.
+ */
+export function resolveReferences(value: unknown, scope: PipelineScope, stepId: string): unknown {
+  if (typeof value === 'string') {
+    const whole = WHOLE_REFERENCE_PATTERN.exec(value);
+    if (whole?.[1]) {
+      return lookup(whole[1], scope, stepId);
+    }
+    return value.replace(REFERENCE_PATTERN, (_match, reference: string) => (
+      stringifyValue(lookup(reference, scope, stepId))
+    ));
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry) => resolveReferences(entry, scope, stepId));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, resolveReferences(entry, scope, stepId)]),
+    );
+  }
+  return value;
+}
+
+export function renderPipelineReport(pipeline: PipelineDefinition, steps: PipelineStepResult[]): string {
+  const lines: string[] = [`# ${pipeline.name}`, ''];
+  if (pipeline.description) {
+    lines.push(pipeline.description, '');
+  }
+
+  lines.push('## Steps', '');
+  steps.forEach((step, index) => {
+    lines.push(`${index + 1}. **${step.title}** (\`${step.capabilityId}\`)`);
+  });
+  lines.push('');
+
+  steps.forEach((step, index) => {
+    lines.push('---', '', `## ${index + 1}. ${step.title}`, '');
+    const output = step.output as { markdownReport?: unknown } | null;
+    if (output && typeof output.markdownReport === 'string') {
+      lines.push(demoteHeadings(output.markdownReport), '');
+    } else {
+      lines.push('```json', JSON.stringify(step.output, null, 2), '```', '');
+    }
+  });
+
+  return lines.join('\n');
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Helpers                                                                   */
+/* -------------------------------------------------------------------------- */
+
+function collectReferences(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return [...value.matchAll(REFERENCE_PATTERN)].map((match) => match[1] ?? '');
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(collectReferences);
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value).flatMap(collectReferences);
+  }
+  return [];
+}
+
+/** `steps.flow.happyPath[0].label` → `['steps', 'flow', 'happyPath', 0, 'label']` */
+function splitPath(reference: string): Array<string | number> {
+  return [...reference.matchAll(/([\w-]+)|\[(\d+)\]/g)].map((match) => (
+    match[2] !== undefined ? Number(match[2]) : match[1] ?? ''
+  ));
+}
+
+function lookup(reference: string, scope: PipelineScope, stepId: string): unknown {
+  let current: unknown = scope;
+  for (const segment of splitPath(reference)) {
+    if (current === null || typeof current !== 'object') {
+      current = undefined;
+      break;
+    }
+    current = (current as Record<string | number, unknown>)[segment];
+  }
+
+  if (current === undefined) {
+    throw new UXPilotError(
+      `Pipeline step "${stepId}" references \${${reference}}, which is undefined`,
+      'INVALID_INPUT',
+      { field: 'steps.input', step: stepId, reference },
+    );
+  }
+  return current;
+}
+
+function stringifyValue(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return JSON.stringify(value, null, 2);
+}
+
+/** Nests a capability report under its step heading, leaving code fences alone. */
+function demoteHeadings(markdown: string): string {
+  let inFence = false;
+  return markdown
+    .split('\n')
+    .map((line) => {
+      if (line.startsWith('```')) inFence = !inFence;
+      return !inFence && /^#{1,4} /.test(line) ? `##${line}` : line;
+    })
+    .join('\n');
+}
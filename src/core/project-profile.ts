@@ -0,0 +1,214 @@
+/**
+ * @file project-profile.ts
+ * @description Project profile — brand, tokens, framework, devices, WCAG target, personas, and glossary shared by every capability run
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import type { PromptOverride } from './prompt-registry.js';
+import type { RedactionConfig } from './redaction.js';
+import { formatIssues, s, validate } from './schema.js';
+import { UXPilotError } from './types.js';
+
+/** Looked up in the working directory when neither an explicit profile nor UX_PILOT_PROFILE is set. */
+export const DEFAULT_PROFILE_FILE = 'ux-pilot.profile.json';
+
+export interface ProjectPersona {
+  name: string;
+  description: string;
+  goals?: string[];
+}
+
+export interface ProjectProfile {
+  brandName?: string;
+  /** One or two sentences on what the product is and who it serves. */
+  description?: string;
+  /** UI framework, e.g. `react`. */
+  framework?: string;
+  /** Design-system platform: `web`, `mobile`, or `both`. */
+  platform?: 'web' | 'mobile' | 'both';
+  targetDevices?: Array<'mobile' | 'tablet' | 'desktop'>;
+  wcagLevel?: 'A' | 'AA' | 'AAA';
+  /**
+   * Existing tokens. `colors` (a list of hex values or a name → hex map) and
+   * `typography` (`headingFont` / `bodyFont` / `monoFont`) also seed
+   * design-system input; everything else is context only.
+   */
+  designTokens?: Record<string, unknown>;
+  personas?: ProjectPersona[];
+  /** Product terms the model should use consistently. */
+  glossary?: Record<string, string>;
+  /** Anything else every run should know (constraints, conventions). */
+  notes?: string;
+  /** Per-template prompt overrides, keyed by prompt id (usually the capability id). Not part of the rendered context. */
+  prompts?: Record<string, PromptOverride>;
+  /** What to strip from code and markup before it reaches the model. Not part of the rendered context. */
+  redaction?: RedactionConfig;
+}
+
+/** A path to a profile file, an inline profile, or `false` to disable profile loading. */
+export type ProjectProfileSource = string | ProjectProfile | false;
+
+const ProjectProfileSchema = s.object<ProjectProfile>({
+  brandName: s.optional(s.string()),
+  description: s.optional(s.string()),
+  framework: s.optional(s.string()),
+  platform: s.optional(s.literal('web', 'mobile', 'both')),
+  targetDevices: s.optional(s.array(s.literal('mobile', 'tablet', 'desktop'))),
+  wcagLevel: s.optional(s.literal('A', 'AA', 'AAA')),
+  designTokens: s.optional(s.record(s.unknown())),
+  personas: s.optional(s.array(s.object<ProjectPersona>({
+    name: s.string(),
+    description: s.string(),
+    goals: s.optional(s.array(s.string())),
+  }))),
+  glossary: s.optional(s.record(s.string())),
+  notes: s.optional(s.string()),
+  prompts: s.optional(s.record(s.object<PromptOverride>({
+    system: s.optional(s.string()),
+    appendSystem: s.optional(s.string()),
+    user: s.optional(s.string()),
+  }))),
+  redaction: s.optional(s.object<RedactionConfig>({
+    enabled: s.optional(s.boolean()),
+    patterns: s.optional(s.array(s.object({
+      name: s.string(),
+      pattern: s.string(),
+      flags: s.optional(s.string()),
+    }))),
+    internalDomains: s.optional(s.array(s.string())),
+    disable: s.optional(s.array(s.string())),
+  })),
+});
+
+export function parseProjectProfile(value: unknown, source: string = 'profile'): ProjectProfile {
+  const result = validate(ProjectProfileSchema, value);
+  if (!result.ok) {
+    throw new UXPilotError(
+      `Invalid project profile (${source}): ${formatIssues(result.issues)}`,
+      'INVALID_INPUT',
+      { field: 'profile', source, issues: result.issues },
+    );
+  }
+  return result.value;
+}
+
+export async function loadProjectProfile(path: string): Promise<ProjectProfile> {
+  const filePath = resolve(path);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(filePath, 'utf-8'));
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new UXPilotError(
+      `Could not read project profile "${path}": ${message}`,
+      'INVALID_INPUT',
+      { field: 'profile', path: filePath },
+    );
+  }
+  return parseProjectProfile(parsed, filePath);
+}
+
+/**
+ * The profile file in effect: an explicit path, else UX_PILOT_PROFILE, else
+ * `ux-pilot.profile.json` in `cwd` when it exists.
+ */
+export function resolveProfilePath(path?: string, cwd: string = process.cwd()): string | undefined {
+  if (path) return resolve(cwd, path);
+  const fromEnv = process.env['UX_PILOT_PROFILE'];
+  if (fromEnv) return resolve(cwd, fromEnv);
+  const fallback = resolve(cwd, DEFAULT_PROFILE_FILE);
+  return existsSync(fallback) ? fallback : undefined;
+}
+
+export async function resolveProjectProfile(source?: ProjectProfileSource): Promise<ProjectProfile | undefined> {
+  if (source === false) return undefined;
+  if (source && typeof source === 'object') return parseProjectProfile(source);
+  const path = resolveProfilePath(source);
+  return path ? loadProjectProfile(path) : undefined;
+}
+
+/**
+ * Per-call overrides on top of the loaded profile. Scalars and lists are
+ * replaced; `designTokens`, `glossary`, `prompts`, and `redaction` are merged key by key.
+ */
+export function mergeProfiles(base: ProjectProfile | undefined, override: ProjectProfile | undefined): ProjectProfile | undefined {
+  if (!override) return base;
+  if (!base) return override;
+  return {
+    ...base,
+    ...override,
+    ...(base.designTokens || override.designTokens
+      ? { designTokens: { ...base.designTokens, ...override.designTokens } }
+      : {}),
+    ...(base.glossary || override.glossary
+      ? { glossary: { ...base.glossary, ...override.glossary } }
+      : {}),
+    ...(base.prompts || override.prompts
+      ? { prompts: { ...base.prompts, ...override.prompts } }
+      : {}),
+    ...(base.redaction || override.redaction
+      ? { redaction: { ...base.redaction, ...override.redaction } }
+      : {}),
+  };
+}
+
+/** Hex colors from `designTokens.colors`, whether a list or a name → hex map. */
+export function profileColors(profile: ProjectProfile): string[] | undefined {
+  const colors = profile.designTokens?.['colors'];
+  const values = Array.isArray(colors)
+    ? colors
+    : colors && typeof colors === 'object' ? Object.values(colors) : [];
+  const hex = values.filter((value): value is string => typeof value === 'string' && value.startsWith('#'));
+  return hex.length > 0 ? hex : undefined;
+}
+
+/**
+ * Renders the profile as a system-prompt section. LLMClient appends it to
+ * every request made under a context that carries a profile. Empty when the
+ * profile has nothing to say about the product (e.g. only prompt overrides).
+ */
+export function renderProfilePrompt(profile: ProjectProfile): string {
+  const facts = [
+    profile.brandName ? `- **Brand:** ${profile.brandName}` : '',
+    profile.description ? `- **Product:** ${profile.description}` : '',
+    profile.framework ? `- **Framework:** ${profile.framework}` : '',
+    profile.platform ? `- **Platform:** ${profile.platform}` : '',
+    profile.targetDevices?.length ? `- **Target devices:** ${profile.targetDevices.join(', ')}` : '',
+    profile.wcagLevel ? `- **WCAG target:** ${profile.wcagLevel}` : '',
+  ].filter(Boolean);
+
+  const parts = [
+    '## Project Context',
+    '',
+    'Ground every recommendation in this product\'s context. Where the request itself states something different, the request wins.',
+  ];
+  if (facts.length > 0) {
+    parts.push('', ...facts);
+  }
+  if (profile.designTokens && Object.keys(profile.designTokens).length > 0) {
+    parts.push('', '### Existing Design Tokens', '', '```json', JSON.stringify(profile.designTokens, null, 2), '```');
+  }
+  if (profile.personas?.length) {
+    parts.push('', '### Personas', '');
+    for (const persona of profile.personas) {
+      const goals = persona.goals?.length ? ` (goals: ${persona.goals.join('; ')})` : '';
+      parts.push(`- **${persona.name}** — ${persona.description}${goals}`);
+    }
+  }
+  if (profile.glossary && Object.keys(profile.glossary).length > 0) {
+    parts.push('', '### Glossary', '');
+    for (const [term, definition] of Object.entries(profile.glossary)) {
+      parts.push(`- **${term}:** ${definition}`);
+    }
+  }
+  if (profile.notes) {
+    parts.push('', '### Notes', '', profile.notes);
+  }
+  return parts.length > 3 ? parts.join('\n') : '';
+}
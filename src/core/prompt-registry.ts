@@ -0,0 +1,191 @@
+/**
+ * @file prompt-registry.ts
+ * @description Versioned prompt templates with variables, project-profile overrides, and per-run version records
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import { createHash } from 'node:crypto';
+import { BUILTIN_PROMPTS } from '../prompts/builtin-prompts.js';
+import { traced } from './tracing.js';
+import type { ExecutionContext } from './types.js';
+import { UXPilotError } from './types.js';
+
+/**
+ * A capability's system and user prompt. Templates reference variables as
+ * `{{name}}`; `{{#name}}…{{/name}}` renders its body only when `name` is
+ * non-empty. A section tag alone on its line takes the line break with it,
+ * so optional sections leave no blank lines behind.
+ */
+export interface PromptTemplate {
+  /** Usually the capability id. */
+  id: string;
+  /** Bump whenever the wording changes; recorded with every output. */
+  version: string;
+  description?: string;
+  /** Every variable the templates may reference. */
+  variables: readonly string[];
+  system: string;
+  user: string;
+}
+
+/** Project-level changes to one template (ProjectProfile.prompts). */
+export interface PromptOverride {
+  /** Replaces the system prompt. */
+  system?: string;
+  /** Appended to the (possibly replaced) system prompt. */
+  appendSystem?: string;
+  /** Replaces the user prompt template. */
+  user?: string;
+}
+
+export type PromptVariables = Record<string, string | undefined>;
+
+/** Which template produced a run's prompts. */
+export interface PromptUse {
+  id: string;
+  version: string;
+  /** True when the project profile overrode or extended the template. */
+  overridden: boolean;
+  /** First 12 hex chars of the SHA-256 of the effective templates; identical hashes mean identical wording. */
+  hash: string;
+}
+
+export interface RenderedPrompt {
+  system: string;
+  user: string;
+  use: PromptUse;
+}
+
+const TAG_PATTERN = /\{\{\s*([#/]?)\s*([A-Za-z][\w]*)\s*\}\}/g;
+const STANDALONE_TAG_PATTERN = /^[ \t]*(\{\{\s*[#/]\s*[A-Za-z]\w*\s*\}\})[ \t]*\r?\n/gm;
+/** A whole section or a single variable; one pass, so `{{…}}` inside inserted values is left alone. */
+const TOKEN_PATTERN = /\{\{\s*#\s*([A-Za-z]\w*)\s*\}\}([\s\S]*?)\{\{\s*\/\s*\1\s*\}\}|\{\{\s*([A-Za-z]\w*)\s*\}\}/g;
+
+export class PromptRegistry {
+  private readonly templates = new Map<string, PromptTemplate>();
+
+  constructor(templates: readonly PromptTemplate[] = []) {
+    for (const template of templates) {
+      this.register(template);
+    }
+  }
+
+  /** Throws INVALID_INPUT when the id is taken or a template uses an undeclared variable. */
+  register(template: PromptTemplate): void {
+    if (this.templates.has(template.id)) {
+      throw new UXPilotError(
+        `Prompt template "${template.id}" is already registered`,
+        'INVALID_INPUT',
+        { field: 'id', received: template.id },
+      );
+    }
+    checkVariables(template.id, template.variables, { system: template.system, user: template.user });
+    this.templates.set(template.id, template);
+  }
+
+  get(id: string): PromptTemplate | undefined {
+    return this.templates.get(id);
+  }
+
+  list(): PromptTemplate[] {
+    return [...this.templates.values()];
+  }
+
+  /**
+   * The template with the run's project-profile override applied, before
+   * variables are filled in.
+   */
+  resolve(id: string, context?: ExecutionContext): { system: string; user: string; use: PromptUse } {
+    const template = this.templates.get(id);
+    if (!template) {
+      throw new UXPilotError(
+        `Unknown prompt template: ${id}`,
+        'INVALID_INPUT',
+        { field: 'prompt', received: id, available: [...this.templates.keys()] },
+      );
+    }
+
+    const override = context?.profile?.prompts?.[id];
+    const baseSystem = override?.system ?? template.system;
+    const system = override?.appendSystem ? `${baseSystem}\n\n${override.appendSystem}` : baseSystem;
+    const user = override?.user ?? template.user;
+    if (override) {
+      checkVariables(id, template.variables, { system, user });
+    }
+
+    return {
+      system,
+      user,
+      use: {
+        id,
+        version: template.version,
+        overridden: override !== undefined && (system !== template.system || user !== template.user),
+        hash: createHash('sha256').update(system).update('\0').update(user).digest('hex').slice(0, 12),
+      },
+    };
+  }
+
+  /** Renders both prompts and records the template version on `context.prompts` (once per run). */
+  render(id: string, variables: PromptVariables, context?: ExecutionContext): RenderedPrompt {
+    return traced(context, 'prompt.build', { 'prompt.id': id }, (_context, span) => {
+      const { system, user, use } = this.resolve(id, context);
+      if (!context?.prompts?.some((recorded) => recorded.id === use.id && recorded.hash === use.hash)) {
+        context?.prompts?.push(use);
+      }
+      const rendered = {
+        system: renderTemplate(system, variables),
+        user: renderTemplate(user, variables),
+        use,
+      };
+      span?.setAttributes({
+        'prompt.version': use.version,
+        'prompt.overridden': use.overridden,
+        'prompt.hash': use.hash,
+        'prompt.characters': rendered.system.length + rendered.user.length,
+      });
+      return rendered;
+    });
+  }
+}
+
+/** Shared registry of the built-in templates; plugins may register their own. */
+export const defaultPrompts = new PromptRegistry(BUILTIN_PROMPTS);
+
+/* -------------------------------------------------------------------------- */
+/*  Helpers                                                                   */
+/* -------------------------------------------------------------------------- */
+
+function renderTemplate(template: string, variables: PromptVariables): string {
+  const standalone = template.replace(STANDALONE_TAG_PATTERN, '$1');
+  return fill(standalone, variables);
+}
+
+function fill(template: string, variables: PromptVariables): string {
+  return template.replace(
+    TOKEN_PATTERN,
+    (_match, section: string | undefined, body: string | undefined, name: string | undefined) => {
+      if (section !== undefined) {
+        return variables[section] ? fill(body ?? '', variables) : '';
+      }
+      return variables[name ?? ''] ?? '';
+    },
+  );
+}
+
+function checkVariables(id: string, declared: readonly string[], templates: Record<string, string>): void {
+  for (const [part, text] of Object.entries(templates)) {
+    for (const match of text.matchAll(TAG_PATTERN)) {
+      const name = match[2] ?? '';
+      if (!declared.includes(name)) {
+        throw new UXPilotError(
+          `Prompt template "${id}" (${part}) uses undeclared variable "${name}"; available: ${declared.join(', ') || 'none'}`,
+          'INVALID_INPUT',
+          { field: 'prompt', prompt: id, part, variable: name, available: [...declared] },
+        );
+      }
+    }
+  }
+}
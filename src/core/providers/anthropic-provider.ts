@@ -0,0 +1,169 @@
+/**
+ * @file anthropic-provider.ts
+ * @description Anthropic Messages API adapter for the LLM provider contract
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type {
+  CompletionOptions,
+  LLMProvider,
+  ProviderRequest,
+  ProviderResponse,
+  StopReason,
+} from '../llm-provider.js';
+import { abortError } from '../abort.js';
+import { parseRetryAfter } from '../retry.js';
+import { UXPilotError } from '../types.js';
+
+const DEFAULT_MODEL = 'claude-sonnet-4-20250514';
+
+export interface AnthropicProviderOptions {
+  apiKey: string;
+  baseUrl?: string;
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly id = 'anthropic' as const;
+  readonly defaultModel = process.env['ANTHROPIC_MODEL'] ?? DEFAULT_MODEL;
+  readonly supportsPrefill = true;
+
+  private readonly client: Anthropic;
+
+  constructor(options: AnthropicProviderOptions) {
+    if (!options.apiKey) {
+      throw new UXPilotError(
+        'Anthropic API key is required',
+        'INVALID_INPUT',
+        { field: 'apiKey', provider: 'anthropic' },
+      );
+    }
+
+    // Retries are owned by LLMClient so backoff and rate-limit reporting are
+    // consistent across providers.
+    this.client = new Anthropic({
+      apiKey: options.apiKey,
+      baseURL: options.baseUrl,
+      maxRetries: 0,
+    });
+  }
+
+  async complete(
+    request: ProviderRequest,
+    options: CompletionOptions = {},
+  ): Promise<ProviderResponse> {
+    const { tool } = request;
+    const params = {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      system: request.system,
+      messages: request.messages,
+      ...(tool
+        ? {
+          tools: [{
+            name: tool.name,
+            description: tool.description,
+            input_schema: { ...tool.inputSchema, type: 'object' as const },
+          }],
+          tool_choice: { type: 'tool' as const, name: tool.name },
+        }
+        : {}),
+    };
+
+    try {
+      const requestOptions = { signal: options.signal };
+      const onText = options.onText;
+      const response = onText
+        ? await this.client.messages.stream(params, requestOptions)
+          .on('text', onText)
+          .on('inputJson', (delta) => onText(delta))
+          .finalMessage()
+        : await this.client.messages.create(params, requestOptions);
+
+      const stopReason = this.mapStopReason(response.stop_reason);
+      const usage = {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      };
+
+      if (tool) {
+        const toolBlock = response.content.find((block) => block.type === 'tool_use' && block.name === tool.name);
+        const toolInput = toolBlock?.type === 'tool_use' ? toolBlock.input : undefined;
+        return {
+          text: toolInput === undefined ? '' : JSON.stringify(toolInput),
+          // A truncated tool call arrives with partial (or empty) input.
+          toolInput: stopReason === 'max_tokens' ? undefined : toolInput,
+          stopReason,
+          usage,
+        };
+      }
+
+      const textBlock = response.content.find((block) => block.type === 'text');
+      if (!textBlock || textBlock.type !== 'text') {
+        throw new UXPilotError(
+          'LLM returned no text content',
+          'LLM_ERROR',
+          { provider: this.id, stopReason: response.stop_reason },
+        );
+      }
+
+      return {
+        text: textBlock.text,
+        stopReason,
+        usage,
+      };
+    } catch (error: unknown) {
+      if (error instanceof UXPilotError) {
+        throw error;
+      }
+
+      if (options.signal?.aborted) {
+        throw abortError(options.signal);
+      }
+
+      if (error instanceof Anthropic.APIConnectionError) {
+        throw new UXPilotError(
+          `Anthropic API connection error: ${error.message}`,
+          'LLM_ERROR',
+          { provider: this.id, network: true },
+        );
+      }
+
+      if (error instanceof Anthropic.APIError) {
+        throw new UXPilotError(
+          `Anthropic API error: ${error.message}`,
+          'LLM_ERROR',
+          {
+            provider: this.id,
+            status: error.status,
+            type: error.error?.type ?? 'unknown',
+            retryAfterMs: parseRetryAfter(
+              error.headers?.['retry-after'],
+              error.headers?.['retry-after-ms'],
+            ),
+          },
+        );
+      }
+
+      throw error;
+    }
+  }
+
+  private mapStopReason(reason: string | null): StopReason {
+    switch (reason) {
+      case 'end_turn':
+      case 'max_tokens':
+      case 'stop_sequence':
+        return reason;
+      // The forced tool call is the complete answer in structured-output mode.
+      case 'tool_use':
+        return 'end_turn';
+      default:
+        return 'other';
+    }
+  }
+}
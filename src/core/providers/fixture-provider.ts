@@ -0,0 +1,147 @@
+/**
+ * @file fixture-provider.ts
+ * @description Record/replay wrapper around any LLM provider for deterministic, offline capability runs
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import type {
+  CompletionOptions,
+  LLMProvider,
+  ProviderId,
+  ProviderRequest,
+  ProviderResponse,
+} from '../llm-provider.js';
+import { PREFILL_PROVIDER_IDS } from '../llm-provider.js';
+import { throwIfAborted } from '../abort.js';
+import { hashRequest } from '../request-hash.js';
+import { UXPilotError } from '../types.js';
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export const FIXTURE_MODES: readonly FixtureMode[] = ['off', 'record', 'replay'];
+
+export const DEFAULT_FIXTURES_DIR = 'fixtures/llm';
+
+export interface FixtureOptions {
+  mode: FixtureMode;
+  /** Directory holding one JSON file per recorded request (default: fixtures/llm). */
+  dir?: string;
+}
+
+export interface FixtureRecord {
+  key: string;
+  recordedAt: string;
+  provider: ProviderId;
+  request: ProviderRequest;
+  response: ProviderResponse;
+}
+
+/**
+ * Fixture key: hash of system prompt, messages, generation options, and the
+ * structured-output tool (if any).
+ * The model is recorded alongside the fixture but deliberately left out of the
+ * key so a suite recorded against one model replays under any configuration.
+ */
+export function fixtureKey(request: ProviderRequest): string {
+  return hashRequest({
+    system: request.system,
+    messages: request.messages,
+    maxTokens: request.maxTokens,
+    temperature: request.temperature,
+    tool: request.tool,
+  });
+}
+
+export class FixtureProvider implements LLMProvider {
+  readonly id: ProviderId;
+  readonly defaultModel: string;
+  readonly supportsPrefill: boolean | undefined;
+
+  private readonly inner: LLMProvider | undefined;
+  private readonly mode: Exclude<FixtureMode, 'off'>;
+  private readonly dir: string;
+
+  /**
+   * @param options.provider - Provider the fixtures were recorded against
+   *   (default: "anthropic"). Without `inner` it supplies `id` and
+   *   `supportsPrefill`, so continuation requests replay exactly as recorded.
+   * @param inner - Real provider; may be omitted in replay mode, where no
+   *   request ever reaches the network.
+   */
+  constructor(
+    options: { mode: Exclude<FixtureMode, 'off'>; dir?: string; provider?: ProviderId },
+    inner?: LLMProvider,
+  ) {
+    this.inner = inner;
+    this.mode = options.mode;
+    this.dir = resolve(options.dir ?? DEFAULT_FIXTURES_DIR);
+    this.id = inner?.id ?? options.provider ?? 'anthropic';
+    this.defaultModel = inner?.defaultModel ?? 'fixture-replay';
+    this.supportsPrefill = inner ? inner.supportsPrefill : PREFILL_PROVIDER_IDS.includes(this.id);
+  }
+
+  async complete(
+    request: ProviderRequest,
+    options: CompletionOptions = {},
+  ): Promise<ProviderResponse> {
+    const key = fixtureKey(request);
+    const filePath = join(this.dir, `${key}.json`);
+
+    if (this.mode === 'replay') {
+      throwIfAborted(options.signal);
+      const response = await this.replay(key, filePath);
+      options.onText?.(response.text);
+      return response;
+    }
+
+    if (!this.inner) {
+      throw new UXPilotError(
+        'Fixture record mode requires a real provider to record from',
+        'INVALID_INPUT',
+        { field: 'fixtures.mode', received: this.mode },
+      );
+    }
+
+    const response = await this.inner.complete(request, options);
+    const record: FixtureRecord = {
+      key,
+      recordedAt: new Date().toISOString(),
+      provider: this.id,
+      request,
+      response,
+    };
+
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(filePath, JSON.stringify(record, null, 2) + '\n', 'utf-8');
+    return response;
+  }
+
+  private async replay(key: string, filePath: string): Promise<ProviderResponse> {
+    let raw: string;
+    try {
+      raw = await readFile(filePath, 'utf-8');
+    } catch {
+      throw new UXPilotError(
+        `No recorded fixture for request ${key.slice(0, 12)} in ${this.dir}. Re-run in record mode to capture it.`,
+        'FIXTURE_NOT_FOUND',
+        { key, filePath },
+      );
+    }
+
+    try {
+      const record = JSON.parse(raw) as FixtureRecord;
+      return record.response;
+    } catch {
+      throw new UXPilotError(
+        `Fixture file is not valid JSON: ${filePath}`,
+        'FIXTURE_NOT_FOUND',
+        { key, filePath },
+      );
+    }
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * @file local-provider.ts
+ * @description In-process stand-in provider — answers completions from a handler function (inline or loaded from a module) without any network access
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import { createRequire } from 'node:module';
+import { join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type {
+  CompletionOptions,
+  LLMProvider,
+  ProviderRequest,
+  ProviderResponse,
+} from '../llm-provider.js';
+import { throwIfAborted } from '../abort.js';
+import { UXPilotError } from '../types.js';
+
+export type LocalHandler = (
+  request: ProviderRequest,
+) => string | ProviderResponse | Promise<string | ProviderResponse>;
+
+export interface LocalProviderOptions {
+  /**
+   * The handler, or a module exporting one as its default or `handler`
+   * export. Relative paths and bare package names resolve from the working
+   * directory.
+   */
+  handler: LocalHandler | string;
+  model?: string;
+}
+
+/**
+ * Stand-in for a real model. Useful for wiring tests, demos, offline
+ * development, and self-hosted models without an OpenAI-compatible endpoint:
+ * the handler receives the full request and returns the text the model would
+ * have produced.
+ */
+export class LocalProvider implements LLMProvider {
+  readonly id = 'local' as const;
+  readonly defaultModel: string;
+
+  private readonly source: LocalHandler | string;
+  private handler: Promise<LocalHandler> | undefined;
+
+  constructor(options: LocalProviderOptions) {
+    if (!options.handler) {
+      throw new UXPilotError(
+        'The local provider needs a handler: pass one, or set UX_PILOT_LOCAL_HANDLER to a module that exports one',
+        'INVALID_INPUT',
+        { field: 'localHandler' },
+      );
+    }
+    this.source = options.handler;
+    this.defaultModel = options.model ?? 'local';
+  }
+
+  async complete(
+    request: ProviderRequest,
+    options: CompletionOptions = {},
+  ): Promise<ProviderResponse> {
+    throwIfAborted(options.signal);
+    this.handler ??= typeof this.source === 'string'
+      ? loadHandler(this.source)
+      : Promise.resolve(this.source);
+    const result = await (await this.handler)(request);
+    throwIfAborted(options.signal);
+    const response: ProviderResponse = typeof result === 'string'
+      ? { text: result, stopReason: 'end_turn' }
+      : result;
+    options.onText?.(response.text);
+    return response;
+  }
+}
+
+async function loadHandler(specifier: string): Promise<LocalHandler> {
+  let handler: unknown;
+  try {
+    const cwd = process.cwd();
+    const resolved = specifier.startsWith('.') || specifier.startsWith('/')
+      ? resolve(cwd, specifier)
+      : createRequire(join(cwd, 'package.json')).resolve(specifier);
+    const mod = await import(pathToFileURL(resolved).href) as Record<string, unknown>;
+    handler = mod['default'] ?? mod['handler'];
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new UXPilotError(
+      `Failed to load local handler "${specifier}": ${message}`,
+      'INVALID_INPUT',
+      { field: 'localHandler', received: specifier, originalError: message },
+    );
+  }
+
+  if (typeof handler !== 'function') {
+    throw new UXPilotError(
+      `Local handler "${specifier}" must export a function as its default or "handler" export`,
+      'INVALID_INPUT',
+      { field: 'localHandler', received: specifier },
+    );
+  }
+  return handler as LocalHandler;
+}
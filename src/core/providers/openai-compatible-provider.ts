@@ -0,0 +1,257 @@
+/**
+ * @file openai-compatible-provider.ts
+ * @description HTTP adapter for OpenAI-compatible chat completion endpoints (OpenAI, vLLM, Ollama, LM Studio)
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import type {
+  CompletionOptions,
+  LLMProvider,
+  ProviderRequest,
+  ProviderResponse,
+  StopReason,
+  TokenUsage,
+} from '../llm-provider.js';
+import { abortError } from '../abort.js';
+import { parseRetryAfter } from '../retry.js';
+import { UXPilotError } from '../types.js';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o';
+
+export interface OpenAICompatibleProviderOptions {
+  /** Optional for self-hosted servers that do not require authentication. */
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+interface ToolCallPayload {
+  function?: { name?: string; arguments?: string };
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: { content?: string | null; tool_calls?: ToolCallPayload[] | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: ChatCompletionUsage | null;
+  error?: { message?: string; type?: string };
+}
+
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: { content?: string | null; tool_calls?: ToolCallPayload[] | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: ChatCompletionUsage | null;
+}
+
+function mapUsage(usage: ChatCompletionUsage | null | undefined): TokenUsage | undefined {
+  if (!usage || typeof usage.prompt_tokens !== 'number' || typeof usage.completion_tokens !== 'number') {
+    return undefined;
+  }
+  return { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens };
+}
+
+/** Tool arguments arrive as a JSON string; unparseable (e.g. truncated) arguments yield undefined. */
+function parseToolArguments(args: string): unknown {
+  try {
+    return JSON.parse(args);
+  } catch {
+    return undefined;
+  }
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id = 'openai' as const;
+  readonly defaultModel: string;
+
+  private readonly apiKey: string | undefined;
+  private readonly baseUrl: string;
+
+  constructor(options: OpenAICompatibleProviderOptions = {}) {
+    this.apiKey = options.apiKey;
+    this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.defaultModel = process.env['OPENAI_MODEL'] ?? DEFAULT_MODEL;
+  }
+
+  async complete(
+    request: ProviderRequest,
+    options: CompletionOptions = {},
+  ): Promise<ProviderResponse> {
+    const streaming = Boolean(options.onText);
+    const { tool } = request;
+    const headers: Record<string, string> = { 'content-type': 'application/json' };
+    if (this.apiKey) {
+      headers['authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        signal: options.signal,
+        body: JSON.stringify({
+          model: request.model,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          stream: streaming,
+          ...(streaming ? { stream_options: { include_usage: true } } : {}),
+          ...(tool
+            ? {
+              tools: [{
+                type: 'function',
+                function: { name: tool.name, description: tool.description, parameters: tool.inputSchema },
+              }],
+              tool_choice: { type: 'function', function: { name: tool.name } },
+            }
+            : {}),
+          messages: [
+            { role: 'system', content: request.system },
+            ...request.messages,
+          ],
+        }),
+      });
+    } catch (error: unknown) {
+      if (options.signal?.aborted) {
+        throw abortError(options.signal);
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      throw new UXPilotError(
+        `OpenAI-compatible API connection error: ${message}`,
+        'LLM_ERROR',
+        { provider: this.id, network: true, baseUrl: this.baseUrl },
+      );
+    }
+
+    if (response.ok && streaming && response.body && options.onText) {
+      return this.readStream(response.body, options.onText, Boolean(tool));
+    }
+
+    const body = await response.json().catch(() => ({})) as ChatCompletionResponse;
+
+    if (!response.ok) {
+      throw new UXPilotError(
+        `OpenAI-compatible API error: ${body.error?.message ?? response.statusText}`,
+        'LLM_ERROR',
+        {
+          provider: this.id,
+          status: response.status,
+          type: body.error?.type ?? 'unknown',
+          retryAfterMs: parseRetryAfter(
+            response.headers.get('retry-after'),
+            response.headers.get('retry-after-ms'),
+          ),
+        },
+      );
+    }
+
+    const choice = body.choices?.[0];
+    if (tool) {
+      return this.toolResponse(
+        choice?.message?.tool_calls?.[0]?.function?.arguments ?? '',
+        this.mapStopReason(choice?.finish_reason ?? null),
+        mapUsage(body.usage),
+      );
+    }
+
+    const text = choice?.message?.content;
+    if (typeof text !== 'string') {
+      throw new UXPilotError(
+        'LLM returned no text content',
+        'LLM_ERROR',
+        { provider: this.id, stopReason: choice?.finish_reason ?? null },
+      );
+    }
+
+    return {
+      text,
+      stopReason: this.mapStopReason(choice?.finish_reason ?? null),
+      usage: mapUsage(body.usage),
+    };
+  }
+
+  /** Consumes a server-sent-events body of `chat.completion.chunk` payloads. */
+  private async readStream(
+    body: ReadableStream<Uint8Array>,
+    onText: (delta: string) => void,
+    toolCall: boolean,
+  ): Promise<ProviderResponse> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    let toolArguments = '';
+    let finishReason: string | null = null;
+    let usage: TokenUsage | undefined;
+
+    const handleLine = (line: string): void => {
+      if (!line.startsWith('data:')) return;
+      const data = line.slice(5).trim();
+      if (!data || data === '[DONE]') return;
+
+      let chunk: ChatCompletionChunk;
+      try {
+        chunk = JSON.parse(data) as ChatCompletionChunk;
+      } catch {
+        return;
+      }
+
+      const choice = chunk.choices?.[0];
+      const delta = choice?.delta?.content;
+      if (delta) {
+        text += delta;
+        onText(delta);
+      }
+      const argumentsDelta = choice?.delta?.tool_calls?.[0]?.function?.arguments;
+      if (argumentsDelta) {
+        toolArguments += argumentsDelta;
+        onText(argumentsDelta);
+      }
+      finishReason = choice?.finish_reason ?? finishReason;
+      usage = mapUsage(chunk.usage) ?? usage;
+    };
+
+    for await (const bytes of body) {
+      buffer += decoder.decode(bytes, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      lines.forEach(handleLine);
+    }
+    handleLine(buffer);
+
+    if (toolCall) {
+      return this.toolResponse(toolArguments, this.mapStopReason(finishReason), usage);
+    }
+    return { text, stopReason: this.mapStopReason(finishReason), usage };
+  }
+
+  private toolResponse(args: string, stopReason: StopReason, usage: TokenUsage | undefined): ProviderResponse {
+    return {
+      text: args,
+      toolInput: stopReason === 'max_tokens' ? undefined : parseToolArguments(args),
+      stopReason,
+      usage,
+    };
+  }
+
+  private mapStopReason(reason: string | null): StopReason {
+    switch (reason) {
+      case 'stop':
+      case 'tool_calls':
+        return 'end_turn';
+      case 'length':
+        return 'max_tokens';
+      default:
+        return 'other';
+    }
+  }
+}
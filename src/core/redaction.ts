@@ -0,0 +1,252 @@
+/**
+ * @file redaction.ts
+ * @description Secret and PII redaction for code and markup sent to the model, with stable placeholders and restore
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import { UXPilotError } from './types.js';
+
+/** Project-level redaction settings (ProjectProfile.redaction, UXPilotOptions.redaction). */
+export interface RedactionConfig {
+  /** `false` sends input verbatim (default: true). */
+  enabled?: boolean;
+  /** Extra patterns; `name` labels the placeholder, e.g. `customer-id` → `__REDACTED_CUSTOMER_ID_1__`. */
+  patterns?: Array<{ name: string; pattern: string; flags?: string }>;
+  /** Hosts whose URLs count as internal, in addition to localhost, private IPs, and `.internal` / `.local` / `.corp` / `.lan` / `.intranet`. */
+  internalDomains?: string[];
+  /** Built-in rule ids to skip, e.g. `["email"]`. */
+  disable?: string[];
+}
+
+/** One redacted value, as reported on capability outputs. The value itself is never included. */
+export interface Redaction {
+  placeholder: string;
+  /** Rule id that matched, e.g. `api-key`, `email`, or a custom pattern name. */
+  rule: string;
+  /** Input fields it appeared in. */
+  fields: string[];
+  occurrences: number;
+}
+
+interface RedactionRule {
+  id: string;
+  pattern: RegExp;
+  /** Only this capture group is replaced (e.g. the value of `apiKey = "..."`); needs the `d` flag. Default: the whole match. */
+  group?: number;
+  /** Further check on the matched value; the match is skipped when it returns false. */
+  accept?: (value: string) => boolean;
+}
+
+const PLACEHOLDER_PATTERN = /__REDACTED_[A-Z0-9_]+?_\d+__/g;
+const CONTAINS_PLACEHOLDER = /__REDACTED_[A-Z0-9_]+?_\d+__/;
+const PLACEHOLDER_PARTS = /__REDACTED_([A-Z0-9_]+?)_(\d+)__/g;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const ASSET_EXTENSION = /\.(?:png|jpe?g|gif|webp|avif|svg|ico|bmp|tiff?|heic|pdf|mp4|webm|woff2?|ttf|otf)$/i;
+
+const INTERNAL_SUFFIXES = ['internal', 'local', 'corp', 'lan', 'intranet'];
+
+/**
+ * Built-in rules, most specific first; where matches overlap, the earlier
+ * rule wins.
+ */
+const BUILTIN_RULES: readonly RedactionRule[] = [
+  { id: 'private-key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  {
+    id: 'api-key',
+    pattern: /\b(?:sk-ant-[A-Za-z0-9_-]{20,}|sk-(?:proj-)?[A-Za-z0-9_-]{20,}|AKIA[0-9A-Z]{16}|AIza[0-9A-Za-z_-]{35}|(?:sk|rk|pk)_(?:live|test)_[A-Za-z0-9]{16,}|gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,}|xox[abprs]-[A-Za-z0-9-]{10,})/g,
+  },
+  { id: 'token', pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  { id: 'token', pattern: /\bBearer\s+([A-Za-z0-9._~+/-]{16,}=*)/dg, group: 1 },
+  {
+    id: 'secret',
+    pattern: /\b[\w-]*(?:api[_-]?key|secret|password|passwd|credential)[\w-]*["']?\s*[:=]\s*["'`]([^"'`\s]{8,})["'`]/dgi,
+    group: 1,
+  },
+  // `token` alone also names design tokens (`colorToken = "primary-500"`), so
+  // its value must look generated rather than like a token name.
+  {
+    id: 'secret',
+    pattern: /\b[\w-]*token[\w-]*["']?\s*[:=]\s*["'`]([^"'`\s]{16,})["'`]/dgi,
+    group: 1,
+    accept: looksLikeSecret,
+  },
+  // Domains start with a letter and do not end in an asset extension, so
+  // retina asset names (`logo@2x.png`, `icon@hero.webp`) are not addresses.
+  {
+    id: 'email',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z][A-Za-z0-9-]*(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g,
+    accept: (value) => !ASSET_EXTENSION.test(value),
+  },
+];
+
+/**
+ * Replaces secrets and personal data with placeholders before text is sent
+ * to the model, and puts the originals back into fields the caller should
+ * receive verbatim (code examples). Placeholders are stable: the same value
+ * always maps to the same placeholder, and numbering follows first
+ * appearance, so re-running or refining the same input yields the same
+ * prompt.
+ */
+export class Redactor {
+  private readonly rules: readonly RedactionRule[];
+  private readonly byValue = new Map<string, Redaction>();
+  private readonly byPlaceholder = new Map<string, string>();
+  private readonly counters = new Map<string, number>();
+
+  constructor(config: RedactionConfig | false = {}) {
+    this.rules = config === false || config.enabled === false ? [] : buildRules(config);
+  }
+
+  /** `text` with every match replaced by its placeholder; `field` is recorded in the report. */
+  redact(text: string, field: string): string;
+  redact(text: string | undefined, field: string): string | undefined;
+  redact(text: string | undefined, field: string): string | undefined {
+    if (!text || this.rules.length === 0) {
+      return text;
+    }
+
+    const matches = this.findMatches(text);
+    let result = '';
+    let cursor = 0;
+    for (const match of matches) {
+      result += text.slice(cursor, match.start) + this.placeholderFor(match.value, match.rule, field);
+      cursor = match.end;
+    }
+    return result + text.slice(cursor);
+  }
+
+  /**
+   * Numbers new placeholders after any already in `text`, so they cannot
+   * collide with placeholders another redactor issued for other values.
+   */
+  reservePlaceholders(text: string): void {
+    for (const [, label = '', count] of text.matchAll(PLACEHOLDER_PARTS)) {
+      this.counters.set(label, Math.max(this.counters.get(label) ?? 0, Number(count)));
+    }
+  }
+
+  /**
+   * A copy of `value` with every string in it redacted, at any depth; keys
+   * and other leaves are kept. Each string is reported under its path from
+   * `field`, e.g. `input.target`.
+   */
+  redactValue<T>(value: T, field: string): T {
+    if (typeof value === 'string') {
+      return this.redact(value, field) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map((entry, index) => this.redactValue(entry, `${field}[${index}]`)) as T;
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, entry]) => [
+        key,
+        this.redactValue(entry, `${field}.${key}`),
+      ])) as T;
+    }
+    return value;
+  }
+
+  /** Puts the original values back in place of any placeholders this redactor issued. */
+  restore(text: string): string {
+    return text.replace(PLACEHOLDER_PATTERN, (placeholder) => this.byPlaceholder.get(placeholder) ?? placeholder);
+  }
+
+  /** What was redacted, in order of first appearance. */
+  report(): Redaction[] {
+    return [...this.byValue.values()].map((entry) => ({ ...entry, fields: [...entry.fields] }));
+  }
+
+  private findMatches(text: string): Array<{ start: number; end: number; value: string; rule: string }> {
+    const found: Array<{ start: number; end: number; value: string; rule: string; priority: number }> = [];
+    this.rules.forEach((rule, priority) => {
+      for (const match of text.matchAll(rule.pattern)) {
+        const value = match[rule.group ?? 0];
+        const start = rule.group ? match.indices?.[rule.group]?.[0] : match.index;
+        if (!value || start === undefined || CONTAINS_PLACEHOLDER.test(value)) continue;
+        if (rule.accept && !rule.accept(value)) continue;
+        found.push({ start, end: start + value.length, value, rule: rule.id, priority });
+      }
+    });
+
+    // Earlier rules win overlaps; the survivors are returned in text order.
+    found.sort((a, b) => a.priority - b.priority || a.start - b.start);
+    const kept: typeof found = [];
+    for (const candidate of found) {
+      if (kept.every((other) => candidate.end <= other.start || candidate.start >= other.end)) {
+        kept.push(candidate);
+      }
+    }
+    return kept.sort((a, b) => a.start - b.start);
+  }
+
+  private placeholderFor(value: string, rule: string, field: string): string {
+    const existing = this.byValue.get(value);
+    if (existing) {
+      existing.occurrences++;
+      if (!existing.fields.includes(field)) existing.fields.push(field);
+      return existing.placeholder;
+    }
+
+    const label = rule.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+    const count = (this.counters.get(label) ?? 0) + 1;
+    this.counters.set(label, count);
+    const placeholder = `__REDACTED_${label}_${count}__`;
+    this.byValue.set(value, { placeholder, rule, fields: [field], occurrences: 1 });
+    this.byPlaceholder.set(placeholder, value);
+    return placeholder;
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Helpers                                                                   */
+/* -------------------------------------------------------------------------- */
+
+function buildRules(config: RedactionConfig): RedactionRule[] {
+  const disabled = new Set(config.disable ?? []);
+  const custom = (config.patterns ?? []).map((entry): RedactionRule => {
+    try {
+      const flags = new Set([...(entry.flags ?? ''), 'g']);
+      return { id: entry.name, pattern: new RegExp(entry.pattern, [...flags].join('')) };
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new UXPilotError(
+        `Invalid redaction pattern "${entry.name}": ${message}`,
+        'INVALID_INPUT',
+        { field: 'redaction.patterns', name: entry.name, pattern: entry.pattern },
+      );
+    }
+  });
+
+  return [
+    ...BUILTIN_RULES,
+    { id: 'internal-url', pattern: internalUrlPattern(config.internalDomains ?? []) },
+    ...custom,
+  ].filter((rule) => !disabled.has(rule.id));
+}
+
+function internalUrlPattern(domains: string[]): RegExp {
+  const hosts = [
+    'localhost',
+    '127(?:\\.\\d{1,3}){3}',
+    '10(?:\\.\\d{1,3}){3}',
+    '192\\.168(?:\\.\\d{1,3}){2}',
+    '172\\.(?:1[6-9]|2\\d|3[01])(?:\\.\\d{1,3}){2}',
+    `[\\w-]+(?:\\.[\\w-]+)*\\.(?:${INTERNAL_SUFFIXES.join('|')})`,
+    ...domains.map((domain) => `(?:[\\w-]+\\.)*${domain.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`),
+  ];
+  return new RegExp(`\\b(?:https?|wss?)://(?:${hosts.join('|')})(?::\\d+)?(?:[/?#][^\\s"'\`<>)\\]]*)?`, 'gi');
+}
+
+/**
+ * A UUID, or a run of 16+ characters without separators mixing letters and
+ * digits (hex, base64, random ids), unlike names such as `brand-blue-500`.
+ */
+function looksLikeSecret(value: string): boolean {
+  if (UUID_PATTERN.test(value)) return true;
+  return (value.match(/[A-Za-z0-9+/=]{16,}/g) ?? []).some((run) => /\d/.test(run) && /[A-Za-z]/.test(run));
+}
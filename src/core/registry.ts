@@ -0,0 +1,216 @@
+/**
+ * @file registry.ts
+ * @description Runtime capability registry — built-in and third-party capabilities with their CLI and MCP definitions
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import { createRequire } from 'node:module';
+import { join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { BUILTIN_CAPABILITIES } from '../capabilities/builtin-capabilities.js';
+import type { LLMClient } from './llm-client.js';
+import type { ProjectProfile } from './project-profile.js';
+import type { Schema } from './schema.js';
+import type { Capability } from './types.js';
+import { UXPilotError } from './types.js';
+
+export interface CliOptionDefinition {
+  /** Commander flag syntax, e.g. `--code <file>` or `--colors <colors...>`. */
+  flags: string;
+  description: string;
+  required?: boolean;
+  defaultValue?: string;
+  /** Replace the value with the file's contents when it names an existing file; a variadic flag (`<files...>`) joins several files under `// File:` lines. */
+  file?: boolean;
+}
+
+export interface CliOutputFile {
+  path: string;
+  content: string;
+  /** Shown as "<label> saved to <path>". */
+  label: string;
+}
+
+export interface CliCommandDefinition<TInput, TOutput> {
+  /** Subcommand name, e.g. `a11y-audit`. */
+  name: string;
+  description: string;
+  /** Spinner text while the capability runs. */
+  label: string;
+  options: CliOptionDefinition[];
+  /**
+   * Builds capability input from the parsed options (camelCased by
+   * Commander, file options already read). Throw INVALID_INPUT for
+   * unusable combinations.
+   */
+  toInput(options: Record<string, unknown>): TInput;
+  /** Files to write after a successful run, e.g. `--output` artifacts. */
+  outputFiles?(output: TOutput, options: Record<string, unknown>): CliOutputFile[];
+}
+
+export interface McpInputSchema {
+  type: 'object';
+  properties: Record<string, unknown>;
+  required?: string[];
+}
+
+export interface McpToolDefinition<TInput> {
+  /** Tool name, e.g. `ux_accessibility_audit`. */
+  name: string;
+  description: string;
+  /** JSON Schema for tool arguments (default: derived from the capability's inputSchema). */
+  inputSchema?: McpInputSchema;
+  /** Maps tool arguments to capability input (default: arguments are the input). */
+  toInput?(args: Record<string, unknown>): TInput;
+}
+
+/**
+ * Everything UX Pilot needs to run a capability and expose it through the
+ * CLI and MCP server. Built-ins and plugins register the same way.
+ */
+export interface CapabilityDefinition<TInput = unknown, TOutput = unknown> {
+  id: string;
+  name: string;
+  description: string;
+  /** Phrases that route free-form requests to this capability (UXPilot.analyzeRequest). */
+  keywords?: string[];
+  /** Validated before execute; failures throw INVALID_INPUT with the failing paths. */
+  inputSchema?: Schema<TInput>;
+  /** Describes the result for tooling (`ux-ui-pilot capabilities --json`). */
+  outputSchema?: Schema<TOutput>;
+  /**
+   * Builds input from a free-form request without a model, for keyword
+   * routing when the router's LLM call is unavailable. Capabilities without
+   * it are only reachable through LLM routing.
+   */
+  fromRequest?(request: string): TInput;
+  /**
+   * Fills input fields the caller left unset from the project profile (e.g.
+   * framework, WCAG level). Runs before `inputSchema` validation; explicit
+   * input always wins.
+   */
+  applyProfile?(input: TInput, profile: ProjectProfile): TInput;
+  /** Instantiates the capability; may lazy-import its module. */
+  create(llm: LLMClient): Capability<TInput, TOutput> | Promise<Capability<TInput, TOutput>>;
+  cli?: CliCommandDefinition<TInput, TOutput>;
+  mcp?: McpToolDefinition<TInput>;
+}
+
+/**
+ * A plugin module's default export (or named `register` export). It may
+ * register any number of capabilities.
+ */
+export type CapabilityPlugin = (registry: CapabilityRegistry) => void | Promise<void>;
+
+export class CapabilityRegistry {
+  private readonly definitions = new Map<string, CapabilityDefinition>();
+
+  constructor(definitions: readonly CapabilityDefinition[] = []) {
+    for (const definition of definitions) {
+      this.register(definition);
+    }
+  }
+
+  /** Throws INVALID_INPUT when the id, CLI command, or MCP tool name is already taken. */
+  register<TInput, TOutput>(definition: CapabilityDefinition<TInput, TOutput>): void {
+    if (this.definitions.has(definition.id)) {
+      throw new UXPilotError(
+        `Capability "${definition.id}" is already registered`,
+        'INVALID_INPUT',
+        { field: 'id', received: definition.id },
+      );
+    }
+
+    for (const existing of this.definitions.values()) {
+      if (definition.cli && existing.cli?.name === definition.cli.name) {
+        throw new UXPilotError(
+          `CLI command "${definition.cli.name}" is already used by capability "${existing.id}"`,
+          'INVALID_INPUT',
+          { field: 'cli.name', received: definition.cli.name },
+        );
+      }
+      if (definition.mcp && existing.mcp?.name === definition.mcp.name) {
+        throw new UXPilotError(
+          `MCP tool "${definition.mcp.name}" is already used by capability "${existing.id}"`,
+          'INVALID_INPUT',
+          { field: 'mcp.name', received: definition.mcp.name },
+        );
+      }
+    }
+
+    this.definitions.set(definition.id, definition as CapabilityDefinition);
+  }
+
+  unregister(id: string): boolean {
+    return this.definitions.delete(id);
+  }
+
+  has(id: string): boolean {
+    return this.definitions.has(id);
+  }
+
+  get(id: string): CapabilityDefinition | undefined {
+    return this.definitions.get(id);
+  }
+
+  /** Definitions in registration order. */
+  list(): CapabilityDefinition[] {
+    return [...this.definitions.values()];
+  }
+}
+
+/** Shared registry used by UXPilot, the CLI, and the MCP server unless one is passed explicitly. */
+export const defaultRegistry = new CapabilityRegistry(BUILTIN_CAPABILITIES);
+
+/** Plugin specifiers from UX_PILOT_PLUGINS (comma-separated) followed by `extra`. */
+export function resolvePluginSpecifiers(extra: readonly string[] = []): string[] {
+  const fromEnv = (process.env['UX_PILOT_PLUGINS'] ?? '')
+    .split(',')
+    .map((specifier) => specifier.trim())
+    .filter(Boolean);
+  return [...new Set([...fromEnv, ...extra])];
+}
+
+/**
+ * Imports each plugin module and runs its register function against
+ * `registry`. Relative paths and bare package names resolve from `cwd`, so
+ * a globally installed CLI still finds a project's plugins.
+ */
+export async function loadPlugins(
+  specifiers: readonly string[],
+  registry: CapabilityRegistry = defaultRegistry,
+  cwd: string = process.cwd(),
+): Promise<void> {
+  const projectRequire = createRequire(join(resolve(cwd), 'package.json'));
+
+  for (const specifier of specifiers) {
+    let register: unknown;
+    try {
+      const resolved = specifier.startsWith('.') || specifier.startsWith('/')
+        ? resolve(cwd, specifier)
+        : projectRequire.resolve(specifier);
+      const mod = await import(pathToFileURL(resolved).href) as Record<string, unknown>;
+      register = mod['default'] ?? mod['register'];
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new UXPilotError(
+        `Failed to load plugin "${specifier}": ${message}`,
+        'CAPABILITY_NOT_FOUND',
+        { plugin: specifier, originalError: message },
+      );
+    }
+
+    if (typeof register !== 'function') {
+      throw new UXPilotError(
+        `Plugin "${specifier}" must export a register(registry) function as its default or "register" export`,
+        'CAPABILITY_NOT_FOUND',
+        { plugin: specifier },
+      );
+    }
+
+    await (register as CapabilityPlugin)(registry);
+  }
+}
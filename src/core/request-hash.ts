@@ -0,0 +1,35 @@
+/**
+ * @file request-hash.ts
+ * @description Stable content hashing for LLM requests — used to key recorded fixtures
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import { createHash } from 'node:crypto';
+
+/**
+ * Serializes a value with object keys sorted at every depth, so logically
+ * equal payloads always produce the same string regardless of key order.
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item)).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+}
+
+/** SHA-256 hex digest of the stable serialization of `payload`. */
+export function hashRequest(payload: Record<string, unknown>): string {
+  return createHash('sha256').update(stableStringify(payload)).digest('hex');
+}
@@ -0,0 +1,222 @@
+/**
+ * @file response-cache.ts
+ * @description Content-addressed on-disk cache of LLM responses with TTL expiry and a size cap
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import { mkdir, readdir, readFile, rename, rm, stat, utimes, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join, resolve } from 'node:path';
+import type { ProviderId, ProviderRequest, ProviderResponse } from './llm-provider.js';
+import { hashRequest } from './request-hash.js';
+
+const DEFAULT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+
+export interface ResponseCacheOptions {
+  /** Cache directory (default: UX_PILOT_CACHE_DIR, else $XDG_CACHE_HOME/ux-ui-pilot or ~/.cache/ux-ui-pilot). */
+  dir?: string;
+  /** Entries older than this are treated as misses and removed (default: UX_PILOT_CACHE_TTL seconds, else 7 days). */
+  ttlMs?: number;
+  /** Least-recently-used entries are evicted beyond this total size (default: UX_PILOT_CACHE_MAX_MB, else 50 MB). */
+  maxBytes?: number;
+}
+
+export interface CacheEntry {
+  key: string;
+  createdAt: string;
+  provider: ProviderId;
+  model: string;
+  response: ProviderResponse;
+}
+
+export interface CacheStats {
+  dir: string;
+  entries: number;
+  expired: number;
+  bytes: number;
+  maxBytes: number;
+  ttlMs: number;
+  oldest: string | null;
+  newest: string | null;
+}
+
+interface EntryFile {
+  path: string;
+  size: number;
+  mtimeMs: number;
+}
+
+/**
+ * Cache key: everything that shapes the model's answer — provider, model,
+ * sampling temperature, output ceiling, system prompt, the full message
+ * history (so repair turns are cached independently of the first attempt),
+ * and the structured-output tool schema when one is forced.
+ */
+export function cacheKey(provider: ProviderId, request: ProviderRequest): string {
+  return hashRequest({
+    provider,
+    model: request.model,
+    temperature: request.temperature,
+    maxTokens: request.maxTokens,
+    system: request.system,
+    messages: request.messages,
+    tool: request.tool,
+  });
+}
+
+export function defaultCacheDir(): string {
+  const fromEnv = process.env['UX_PILOT_CACHE_DIR'];
+  if (fromEnv) {
+    return resolve(fromEnv);
+  }
+  const base = process.env['XDG_CACHE_HOME'] ?? join(homedir(), '.cache');
+  return join(base, 'ux-ui-pilot');
+}
+
+/**
+ * One JSON file per response. Reads refresh the file's mtime so eviction
+ * drops the least recently used entries first. Cache I/O failures never fail
+ * a run — they degrade to a miss.
+ */
+export class ResponseCache {
+  readonly dir: string;
+  private readonly ttlMs: number;
+  private readonly maxBytes: number;
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.dir = options.dir ? resolve(options.dir) : defaultCacheDir();
+    this.ttlMs = options.ttlMs ?? envNumber('UX_PILOT_CACHE_TTL', 1000) ?? DEFAULT_TTL_MS;
+    this.maxBytes = options.maxBytes ?? envNumber('UX_PILOT_CACHE_MAX_MB', 1024 * 1024) ?? DEFAULT_MAX_BYTES;
+  }
+
+  async get(key: string): Promise<ProviderResponse | undefined> {
+    const filePath = this.pathFor(key);
+    try {
+      const entry = JSON.parse(await readFile(filePath, 'utf-8')) as CacheEntry;
+      if (this.isExpired(Date.parse(entry.createdAt))) {
+        await rm(filePath, { force: true });
+        return undefined;
+      }
+      const now = new Date();
+      await utimes(filePath, now, now).catch(() => undefined);
+      return entry.response;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, provider: ProviderId, model: string, response: ProviderResponse): Promise<void> {
+    const entry: CacheEntry = {
+      key,
+      createdAt: new Date().toISOString(),
+      provider,
+      model,
+      response,
+    };
+
+    try {
+      await mkdir(this.dir, { recursive: true });
+      // Write-then-rename so concurrent readers never see a partial file.
+      const filePath = this.pathFor(key);
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await writeFile(tempPath, JSON.stringify(entry), 'utf-8');
+      await rename(tempPath, filePath);
+      await this.evict();
+    } catch {
+      // A cache that cannot be written is just a cold cache.
+    }
+  }
+
+  async stats(): Promise<CacheStats> {
+    const files = await this.listEntries();
+    let expired = 0;
+    let oldest: number | null = null;
+    let newest: number | null = null;
+
+    for (const file of files) {
+      try {
+        const entry = JSON.parse(await readFile(file.path, 'utf-8')) as CacheEntry;
+        const createdAt = Date.parse(entry.createdAt);
+        if (this.isExpired(createdAt)) {
+          expired++;
+        }
+        oldest = oldest === null ? createdAt : Math.min(oldest, createdAt);
+        newest = newest === null ? createdAt : Math.max(newest, createdAt);
+      } catch {
+        expired++;
+      }
+    }
+
+    return {
+      dir: this.dir,
+      entries: files.length,
+      expired,
+      bytes: files.reduce((sum, f) => sum + f.size, 0),
+      maxBytes: this.maxBytes,
+      ttlMs: this.ttlMs,
+      oldest: oldest === null ? null : new Date(oldest).toISOString(),
+      newest: newest === null ? null : new Date(newest).toISOString(),
+    };
+  }
+
+  /** Removes every entry and returns how many were deleted. */
+  async clear(): Promise<number> {
+    const files = await this.listEntries();
+    await Promise.all(files.map((f) => rm(f.path, { force: true })));
+    return files.length;
+  }
+
+  private async evict(): Promise<void> {
+    const files = await this.listEntries();
+    let total = files.reduce((sum, f) => sum + f.size, 0);
+    if (total <= this.maxBytes) {
+      return;
+    }
+
+    files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    for (const file of files) {
+      if (total <= this.maxBytes) break;
+      await rm(file.path, { force: true });
+      total -= file.size;
+    }
+  }
+
+  private async listEntries(): Promise<EntryFile[]> {
+    let names: string[];
+    try {
+      names = await readdir(this.dir);
+    } catch {
+      return [];
+    }
+
+    const files: EntryFile[] = [];
+    for (const name of names) {
+      if (!name.endsWith('.json')) continue;
+      const path = join(this.dir, name);
+      try {
+        const info = await stat(path);
+        files.push({ path, size: info.size, mtimeMs: info.mtimeMs });
+      } catch {
+        // Removed by a concurrent process between readdir and stat.
+      }
+    }
+    return files;
+  }
+
+  private isExpired(createdAtMs: number): boolean {
+    return !Number.isFinite(createdAtMs) || Date.now() - createdAtMs > this.ttlMs;
+  }
+
+  private pathFor(key: string): string {
+    return join(this.dir, `${key}.json`);
+  }
+}
+
+function envNumber(name: string, scale: number): number | undefined {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value * scale : undefined;
+}
@@ -0,0 +1,139 @@
+/**
+ * @file retry.ts
+ * @description Exponential backoff with full jitter and retry-after support for transient LLM failures
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import { setTimeout as sleep } from 'node:timers/promises';
+import { abortError, throwIfAborted } from './abort.js';
+import { UXPilotError } from './types.js';
+
+export interface RetryOptions {
+  /** Retries after the first attempt (default: 3). */
+  maxRetries: number;
+  /** Backoff base; attempt n waits up to baseDelayMs * 2^n (default: 1000). */
+  baseDelayMs: number;
+  /** Upper bound for any single wait, including server-requested ones (default: 60000). */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: Readonly<RetryOptions> = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 60_000,
+};
+
+/** 429 = rate limited, 529 = Anthropic overloaded. */
+const RATE_LIMIT_STATUSES: ReadonlySet<number> = new Set([429, 529]);
+const TRANSIENT_STATUSES: ReadonlySet<number> = new Set([408, 409, 500, 502, 503, 504]);
+
+/**
+ * Parses `retry-after` (seconds or HTTP date) or `retry-after-ms` header values.
+ * Returns milliseconds, or undefined when absent or unparseable.
+ */
+export function parseRetryAfter(
+  retryAfter: string | null | undefined,
+  retryAfterMs?: string | null,
+): number | undefined {
+  if (retryAfterMs) {
+    const ms = Number(retryAfterMs);
+    if (Number.isFinite(ms) && ms >= 0) return ms;
+  }
+
+  if (!retryAfter) return undefined;
+
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(retryAfter);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return undefined;
+}
+
+export function isRateLimitError(error: unknown): error is UXPilotError {
+  return error instanceof UXPilotError
+    && typeof error.details['status'] === 'number'
+    && RATE_LIMIT_STATUSES.has(error.details['status']);
+}
+
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof UXPilotError) || error.code !== 'LLM_ERROR') {
+    return false;
+  }
+  if (error.details['network'] === true) {
+    return true;
+  }
+  const status = error.details['status'];
+  return typeof status === 'number'
+    && (RATE_LIMIT_STATUSES.has(status) || TRANSIENT_STATUSES.has(status));
+}
+
+/**
+ * Full-jitter backoff: a random wait in [0, base * 2^attempt], capped. A
+ * server-provided retry-after takes precedence since it is authoritative.
+ */
+export function computeBackoff(
+  attempt: number,
+  options: RetryOptions,
+  retryAfterMs?: number,
+): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, options.maxDelayMs);
+  }
+  const ceiling = Math.min(options.baseDelayMs * 2 ** attempt, options.maxDelayMs);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Runs `fn`, retrying transient provider failures. When retries are exhausted
+ * on a 429/529, the error is rethrown as RATE_LIMITED so callers can back off
+ * a whole batch instead of treating it as a hard failure. An aborted `signal`
+ * stops retrying immediately, including mid-backoff. `onRetry` hears about
+ * each retry before its backoff starts.
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions,
+  signal?: AbortSignal,
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error: unknown) {
+      throwIfAborted(signal);
+      if (!isRetryable(error)) {
+        throw error;
+      }
+
+      if (attempt >= options.maxRetries) {
+        if (isRateLimitError(error)) {
+          throw new UXPilotError(
+            `Rate limited by LLM provider after ${attempt + 1} attempt(s): ${error.message}`,
+            'RATE_LIMITED',
+            { ...error.details, attempts: attempt + 1 },
+          );
+        }
+        throw error;
+      }
+
+      const retryAfterMs = error instanceof UXPilotError && typeof error.details['retryAfterMs'] === 'number'
+        ? error.details['retryAfterMs']
+        : undefined;
+      const delayMs = computeBackoff(attempt, options, retryAfterMs);
+      onRetry?.(attempt + 1, delayMs, error);
+      try {
+        await sleep(delayMs, undefined, { signal });
+      } catch {
+        throw signal?.aborted ? abortError(signal) : error;
+      }
+    }
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * @file router.ts
+ * @description Routes free-form requests to registered capabilities and extracts their input, with keyword fallback
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import type { LLMClient } from './llm-client.js';
+import type { CapabilityDefinition, CapabilityRegistry } from './registry.js';
+import type { JSONSchema } from './schema.js';
+import { s, toJSONSchema } from './schema.js';
+import type { ExecutionContext, UsageReport, UXPilotErrorCode } from './types.js';
+import { UXPilotError } from './types.js';
+
+export type RouteStrategy = 'llm' | 'keyword';
+
+export interface CapabilityRoute {
+  capabilityId: string;
+  /** Why the request maps to this capability. */
+  rationale: string;
+  /** Capability input extracted from the request. */
+  input: unknown;
+}
+
+export interface RoutePlan {
+  request: string;
+  /** `keyword` when the model was unavailable and keyword scoring was used instead. */
+  strategy: RouteStrategy;
+  /** Capabilities to run, most relevant first; empty when nothing matched. */
+  routes: CapabilityRoute[];
+  /** Why the router fell back to keyword scoring. */
+  fallbackReason?: string;
+  /** Tokens spent on routing; set by UXPilot.route. */
+  usage?: UsageReport;
+}
+
+export interface RouteOptions {
+  /** `llm` fails instead of falling back; `keyword` never calls the model (default: `auto`). */
+  strategy?: RouteStrategy | 'auto';
+  /** Upper bound on routed capabilities (default: 3). */
+  maxRoutes?: number;
+  context?: ExecutionContext;
+}
+
+interface RoutingResponse {
+  routes: Array<{
+    capabilityId: string;
+    rationale: string;
+    arguments: Record<string, unknown>;
+  }>;
+}
+
+const DEFAULT_MAX_ROUTES = 3;
+
+/**
+ * Failures that mean "the model is not available right now" rather than
+ * "this run must stop": these fall back to keyword routing. Budget, timeout,
+ * and cancellation errors always propagate.
+ */
+const FALLBACK_CODES: ReadonlySet<UXPilotErrorCode> = new Set<UXPilotErrorCode>([
+  'LLM_ERROR',
+  'RATE_LIMITED',
+  'PARSE_ERROR',
+  'FIXTURE_NOT_FOUND',
+  'OUTPUT_TRUNCATED',
+]);
+
+const SYSTEM_PROMPT = `You route requests for a UX/UI design agent to the capabilities that can fulfil them.
+
+For each capability the request actually asks for, return its id, a one-sentence rationale, and the arguments for that capability, filled in from the request according to its argument schema.
+
+Rules:
+- Pick only capabilities the request needs; most requests need exactly one. Order them by relevance.
+- Copy concrete values from the request verbatim (hex colors, framework names, platforms, code, feature descriptions). Do not invent values the request does not state, except for required arguments, which you should fill with the closest description from the request.
+- Use only enum values listed in the argument schema.
+- Return an empty routes array when no capability fits.`;
+
+export class RequestRouter {
+  private readonly llm: LLMClient;
+  private readonly registry: CapabilityRegistry;
+
+  constructor(llm: LLMClient, registry: CapabilityRegistry) {
+    this.llm = llm;
+    this.registry = registry;
+  }
+
+  /** Registered capability ids whose keywords appear in `request`, best match first. */
+  matchKeywords(request: string): string[] {
+    const lower = request.toLowerCase();
+    const matches: Array<{ id: string; score: number }> = [];
+
+    for (const { id, keywords = [] } of this.registry.list()) {
+      let score = 0;
+      for (const keyword of keywords) {
+        if (lower.includes(keyword.toLowerCase())) {
+          score += keyword.split(' ').length;
+        }
+      }
+      if (score > 0) {
+        matches.push({ id, score });
+      }
+    }
+
+    matches.sort((a, b) => b.score - a.score);
+    return matches.map((m) => m.id);
+  }
+
+  async route(request: string, options: RouteOptions = {}): Promise<RoutePlan> {
+    const trimmed = request.trim();
+    if (!trimmed) {
+      throw new UXPilotError('Request must not be empty', 'INVALID_INPUT', { field: 'request' });
+    }
+
+    const strategy = options.strategy ?? 'auto';
+    const maxRoutes = options.maxRoutes ?? DEFAULT_MAX_ROUTES;
+
+    if (strategy === 'keyword') {
+      return this.routeByKeywords(trimmed, maxRoutes);
+    }
+
+    try {
+      return await this.routeWithLLM(trimmed, maxRoutes, options.context);
+    } catch (error: unknown) {
+      const fallback = strategy === 'auto'
+        && error instanceof UXPilotError
+        && FALLBACK_CODES.has(error.code)
+        && !options.context?.signal?.aborted;
+      if (!fallback) {
+        throw error;
+      }
+      return this.routeByKeywords(trimmed, maxRoutes, error.message);
+    }
+  }
+
+  private async routeWithLLM(
+    request: string,
+    maxRoutes: number,
+    context: ExecutionContext | undefined,
+  ): Promise<RoutePlan> {
+    const definitions = this.registry.list();
+    const ids = definitions.map((d) => d.id);
+    const schema = s.object<RoutingResponse>({
+      routes: s.array(s.object({
+        capabilityId: s.literal(...ids),
+        rationale: s.string(),
+        arguments: s.record(s.unknown()),
+      })),
+    });
+
+    context?.onEvent?.({ type: 'phase', phase: 'prompt-built' });
+    const response = await this.llm.chatJSON<RoutingResponse>(
+      SYSTEM_PROMPT,
+      this.buildPrompt(request, definitions),
+      { maxTokens: 2048, temperature: 0, schema, context },
+    );
+
+    const seen = new Set<string>();
+    const routes: CapabilityRoute[] = [];
+    for (const route of response.routes) {
+      const definition = this.registry.get(route.capabilityId);
+      if (!definition || seen.has(definition.id)) continue;
+      seen.add(definition.id);
+      routes.push({
+        capabilityId: definition.id,
+        rationale: route.rationale,
+        input: definition.mcp?.toInput ? definition.mcp.toInput(route.arguments) : route.arguments,
+      });
+    }
+
+    return { request, strategy: 'llm', routes: routes.slice(0, maxRoutes) };
+  }
+
+  private routeByKeywords(request: string, maxRoutes: number, fallbackReason?: string): RoutePlan {
+    const routes: CapabilityRoute[] = [];
+    for (const id of this.matchKeywords(request)) {
+      const definition = this.registry.get(id);
+      if (!definition?.fromRequest) continue;
+      routes.push({
+        capabilityId: id,
+        rationale: `Matched keywords: ${matchedKeywords(request, definition).join(', ')}`,
+        input: definition.fromRequest(request),
+      });
+    }
+
+    return {
+      request,
+      strategy: 'keyword',
+      routes: routes.slice(0, maxRoutes),
+      ...(fallbackReason ? { fallbackReason } : {}),
+    };
+  }
+
+  private buildPrompt(request: string, definitions: CapabilityDefinition[]): string {
+    const catalog = definitions.map((definition) => [
+      `### ${definition.id}`,
+      `${definition.name} — ${definition.description}`,
+      'Argument schema:',
+      '```json',
+      JSON.stringify(argumentSchema(definition)),
+      '```',
+    ].join('\n'));
+
+    return [
+      '## Capabilities',
+      '',
+      catalog.join('\n\n'),
+      '',
+      '## Request',
+      '',
+      request,
+    ].join('\n');
+  }
+}
+
+/**
+ * The arguments the model fills in: the capability's MCP tool schema (its
+ * natural-language-facing arguments, mapped through `mcp.toInput`), else the
+ * capability input schema itself.
+ */
+function argumentSchema(definition: CapabilityDefinition): JSONSchema {
+  if (definition.mcp?.inputSchema) return { ...definition.mcp.inputSchema };
+  if (definition.inputSchema) return toJSONSchema(definition.inputSchema);
+  return { type: 'object' };
+}
+
+function matchedKeywords(request: string, definition: CapabilityDefinition): string[] {
+  const lower = request.toLowerCase();
+  return (definition.keywords ?? []).filter((keyword) => lower.includes(keyword.toLowerCase()));
+}
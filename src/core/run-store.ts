@@ -0,0 +1,207 @@
+/**
+ * @file run-store.ts
+ * @description On-disk history of capability runs — input, structured output, report, model, and usage per run id
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import { randomBytes } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join, resolve } from 'node:path';
+import type { ProviderMessage } from './llm-provider.js';
+import type { PromptUse } from './prompt-registry.js';
+import type { UsageReport } from './types.js';
+import { UXPilotError } from './types.js';
+
+const DEFAULT_MAX_RUNS = 500;
+const RUN_FILE = 'run.json';
+const REPORT_FILE = 'report.md';
+const RUN_ID_PATTERN = /^\d{8}-\d{9}-[0-9a-f]{6}$/;
+
+export interface RunStoreOptions {
+  /** History directory (default: UX_PILOT_HISTORY_DIR, else $XDG_DATA_HOME/ux-ui-pilot/runs or ~/.local/share/ux-ui-pilot/runs). */
+  dir?: string;
+  /** Oldest runs are removed beyond this count (default: UX_PILOT_HISTORY_MAX, else 500). */
+  maxRuns?: number;
+}
+
+export interface RunRecord {
+  /** Sortable by creation time, e.g. `20261019-142530417-3fa2c1`. */
+  id: string;
+  createdAt: string;
+  capabilityId: string;
+  /** Input as the capability received it, after project-profile defaults. */
+  input: unknown;
+  /** Structured output, without the `usage` / `runId` / `prompts` fields added by UXPilot. */
+  output: unknown;
+  markdownReport: string | null;
+  provider: string | null;
+  model: string | null;
+  usage: UsageReport;
+  /** Prompt template versions the run rendered. */
+  prompts?: PromptUse[];
+  durationMs: number;
+  /** Set when the run was a pipeline step. */
+  pipeline?: { name: string; stepId: string };
+  /** The run this one repeated. */
+  rerunOf?: string;
+  /** The run this one revised, and the instruction it was revised with. */
+  refinedFrom?: string;
+  instruction?: string;
+  /** The run's LLM exchanges; refining the run continues them. */
+  exchanges?: ProviderMessage[][];
+}
+
+export type NewRunRecord = Omit<RunRecord, 'id' | 'createdAt' | 'provider' | 'model'>;
+
+/** A run without its input, output, report, and exchanges — what `list()` returns. */
+export type RunSummary = Omit<RunRecord, 'input' | 'output' | 'markdownReport' | 'exchanges'>;
+
+export interface RunListOptions {
+  capabilityId?: string;
+  /** Newest runs first; at most this many (default: all). */
+  limit?: number;
+}
+
+export function defaultHistoryDir(): string {
+  const fromEnv = process.env['UX_PILOT_HISTORY_DIR'];
+  if (fromEnv) {
+    return resolve(fromEnv);
+  }
+  const base = process.env['XDG_DATA_HOME'] ?? join(homedir(), '.local', 'share');
+  return join(base, 'ux-ui-pilot', 'runs');
+}
+
+/**
+ * One directory per run holding `run.json` and, for capabilities that render
+ * one, `report.md`. Like the response cache, a store that cannot be written
+ * never fails a run — `save()` just returns undefined.
+ */
+export class RunStore {
+  readonly dir: string;
+  private readonly maxRuns: number;
+
+  constructor(options: RunStoreOptions = {}) {
+    this.dir = options.dir ? resolve(options.dir) : defaultHistoryDir();
+    this.maxRuns = options.maxRuns ?? resolveMaxRuns();
+  }
+
+  async save(run: NewRunRecord): Promise<RunRecord | undefined> {
+    const now = new Date();
+    const record: RunRecord = {
+      id: createRunId(now),
+      createdAt: now.toISOString(),
+      capabilityId: run.capabilityId,
+      input: run.input,
+      output: run.output,
+      markdownReport: run.markdownReport,
+      provider: run.usage.provider,
+      model: run.usage.model,
+      usage: run.usage,
+      ...(run.prompts?.length ? { prompts: run.prompts } : {}),
+      durationMs: run.durationMs,
+      ...(run.pipeline ? { pipeline: run.pipeline } : {}),
+      ...(run.rerunOf ? { rerunOf: run.rerunOf } : {}),
+      ...(run.refinedFrom ? { refinedFrom: run.refinedFrom } : {}),
+      ...(run.instruction ? { instruction: run.instruction } : {}),
+      ...(run.exchanges?.length ? { exchanges: run.exchanges } : {}),
+    };
+
+    try {
+      // Write into a temp directory and rename so readers never see half a run.
+      const runDir = join(this.dir, record.id);
+      const tempDir = `${runDir}.${process.pid}.tmp`;
+      await mkdir(tempDir, { recursive: true });
+      await writeFile(join(tempDir, RUN_FILE), JSON.stringify(record, null, 2), 'utf-8');
+      if (record.markdownReport !== null) {
+        await writeFile(join(tempDir, REPORT_FILE), record.markdownReport, 'utf-8');
+      }
+      await rename(tempDir, runDir);
+      await this.prune(record.id);
+      return record;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Looks a run up by id or by a unique id prefix. Throws INVALID_INPUT when
+   * the prefix matches more than one run.
+   */
+  async get(idOrPrefix: string): Promise<RunRecord | undefined> {
+    if (!idOrPrefix) return undefined;
+    const ids = (await this.listIds()).filter((id) => id.startsWith(idOrPrefix));
+    if (ids.length > 1) {
+      throw new UXPilotError(
+        `Run id "${idOrPrefix}" is ambiguous (${ids.length} runs match)`,
+        'INVALID_INPUT',
+        { field: 'runId', received: idOrPrefix, matches: ids.slice(0, 10) },
+      );
+    }
+    const [id] = ids;
+    return id ? this.read(id) : undefined;
+  }
+
+  async list(options: RunListOptions = {}): Promise<RunSummary[]> {
+    const summaries: RunSummary[] = [];
+    for (const id of (await this.listIds()).reverse()) {
+      if (options.limit !== undefined && summaries.length >= options.limit) break;
+      const record = await this.read(id);
+      if (!record || (options.capabilityId && record.capabilityId !== options.capabilityId)) continue;
+      const { input: _input, output: _output, markdownReport: _report, exchanges: _exchanges, ...summary } = record;
+      summaries.push(summary);
+    }
+    return summaries;
+  }
+
+  /** Path of a run's saved Markdown report, if it has one. */
+  reportPath(record: RunRecord): string | undefined {
+    return record.markdownReport === null ? undefined : join(this.dir, record.id, REPORT_FILE);
+  }
+
+  /** Removes every saved run and returns how many were deleted. */
+  async clear(): Promise<number> {
+    const ids = await this.listIds();
+    await Promise.all(ids.map((id) => rm(join(this.dir, id), { recursive: true, force: true })));
+    return ids.length;
+  }
+
+  /** Drops the oldest runs beyond `maxRuns`, never the one just saved. */
+  private async prune(keep: string): Promise<void> {
+    const ids = (await this.listIds()).filter((id) => id !== keep);
+    const excess = ids.slice(0, Math.max(0, ids.length + 1 - this.maxRuns));
+    await Promise.all(excess.map((id) => rm(join(this.dir, id), { recursive: true, force: true })));
+  }
+
+  /** Run ids, oldest first. */
+  private async listIds(): Promise<string[]> {
+    try {
+      const names = await readdir(this.dir);
+      return names.filter((name) => RUN_ID_PATTERN.test(name)).sort();
+    } catch {
+      return [];
+    }
+  }
+
+  private async read(id: string): Promise<RunRecord | undefined> {
+    try {
+      return JSON.parse(await readFile(join(this.dir, id, RUN_FILE), 'utf-8')) as RunRecord;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/** `20261019-142530417-3fa2c1`: UTC timestamp to the millisecond plus a random suffix. */
+function createRunId(date: Date): string {
+  const stamp = date.toISOString().replace(/[-:.]/g, '').replace('T', '-').slice(0, 18);
+  return `${stamp}-${randomBytes(3).toString('hex')}`;
+}
+
+function resolveMaxRuns(): number {
+  const fromEnv = Number(process.env['UX_PILOT_HISTORY_MAX']);
+  return Number.isInteger(fromEnv) && fromEnv > 0 ? fromEnv : DEFAULT_MAX_RUNS;
+}
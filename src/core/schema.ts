@@ -0,0 +1,296 @@
+/**
+ * @file schema.ts
+ * @description Minimal runtime schema builder — validates parsed LLM output with exact failing paths and emits JSON Schema
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import { UXPilotError } from './types.js';
+
+export type JSONSchema = Record<string, unknown>;
+
+export interface SchemaIssue {
+  /** Dotted path to the failing value, e.g. `tokens.colors.semantic` or `findings[2].severity`. */
+  path: string;
+  message: string;
+}
+
+export interface Schema<T> {
+  /** Phantom marker carrying the validated type; never set at runtime. */
+  readonly __type?: T;
+  readonly optional?: boolean;
+  validate(value: unknown, path: string): SchemaIssue[];
+  toJSONSchema(defs: Map<string, JSONSchema>): JSONSchema;
+}
+
+export type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+export interface ObjectSchema<T> extends Schema<T> {
+  readonly shape: Shape<T>;
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: SchemaIssue[] };
+
+/* -------------------------------------------------------------------------- */
+/*  Helpers                                                                   */
+/* -------------------------------------------------------------------------- */
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function issue(path: string, message: string): SchemaIssue[] {
+  return [{ path: path || '(root)', message }];
+}
+
+function mismatch(path: string, expected: string, value: unknown): SchemaIssue[] {
+  return issue(path, `expected ${expected}, received ${describe(value)}`);
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Builders                                                                  */
+/* -------------------------------------------------------------------------- */
+
+function string(): Schema<string> {
+  return {
+    validate: (value, path) => (typeof value === 'string' ? [] : mismatch(path, 'string', value)),
+    toJSONSchema: () => ({ type: 'string' }),
+  };
+}
+
+function number(options: { integer?: boolean; min?: number; max?: number } = {}): Schema<number> {
+  return {
+    validate: (value, path) => {
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        return mismatch(path, options.integer ? 'integer' : 'number', value);
+      }
+      if (options.integer && !Number.isInteger(value)) {
+        return issue(path, `expected integer, received ${value}`);
+      }
+      if (options.min !== undefined && value < options.min) {
+        return issue(path, `expected >= ${options.min}, received ${value}`);
+      }
+      if (options.max !== undefined && value > options.max) {
+        return issue(path, `expected <= ${options.max}, received ${value}`);
+      }
+      return [];
+    },
+    toJSONSchema: () => ({
+      type: options.integer ? 'integer' : 'number',
+      ...(options.min !== undefined ? { minimum: options.min } : {}),
+      ...(options.max !== undefined ? { maximum: options.max } : {}),
+    }),
+  };
+}
+
+function boolean(): Schema<boolean> {
+  return {
+    validate: (value, path) => (typeof value === 'boolean' ? [] : mismatch(path, 'boolean', value)),
+    toJSONSchema: () => ({ type: 'boolean' }),
+  };
+}
+
+/** Accepts any value; for free-form payloads such as tool arguments. */
+function unknown(): Schema<unknown> {
+  return {
+    validate: () => [],
+    toJSONSchema: () => ({}),
+  };
+}
+
+function literal<const V extends readonly (string | number)[]>(...values: V): Schema<V[number]> {
+  const expected = values.map((v) => JSON.stringify(v)).join(' | ');
+  return {
+    validate: (value, path) => (
+      values.includes(value as V[number])
+        ? []
+        : issue(path, `expected one of ${expected}, received ${JSON.stringify(value) ?? 'undefined'}`)
+    ),
+    toJSONSchema: () => ({ enum: [...values] }),
+  };
+}
+
+function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    validate: (value, path) => {
+      if (!Array.isArray(value)) return mismatch(path, 'array', value);
+      return value.flatMap((entry, i) => item.validate(entry, childPath(path, i)));
+    },
+    toJSONSchema: (defs) => ({ type: 'array', items: item.toJSONSchema(defs) }),
+  };
+}
+
+function record<T>(value: Schema<T>): Schema<Record<string, T>> {
+  return {
+    validate: (input, path) => {
+      if (!input || typeof input !== 'object' || Array.isArray(input)) {
+        return mismatch(path, 'object', input);
+      }
+      return Object.entries(input).flatMap(([k, v]) => value.validate(v, childPath(path, k)));
+    },
+    toJSONSchema: (defs) => ({ type: 'object', additionalProperties: value.toJSONSchema(defs) }),
+  };
+}
+
+function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    optional: true,
+    validate: (value, path) => (value === undefined || value === null ? [] : schema.validate(value, path)),
+    toJSONSchema: (defs) => schema.toJSONSchema(defs),
+  };
+}
+
+function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    validate: (value, path) => (value === null ? [] : schema.validate(value, path)),
+    toJSONSchema: (defs) => ({ anyOf: [schema.toJSONSchema(defs), { type: 'null' }] }),
+  };
+}
+
+function object<T>(shape: Shape<T>): ObjectSchema<T> {
+  const entries = Object.entries(shape) as Array<[string, Schema<unknown>]>;
+  return {
+    shape,
+    validate: (value, path) => {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return mismatch(path, 'object', value);
+      }
+      const obj = value as Record<string, unknown>;
+      return entries.flatMap(([key, schema]) => {
+        const child = obj[key];
+        const keyPath = childPath(path, key);
+        if (child === undefined && !schema.optional) {
+          return [{ path: keyPath, message: 'is required' }];
+        }
+        return schema.validate(child, keyPath);
+      });
+    },
+    toJSONSchema: (defs) => ({
+      type: 'object',
+      properties: Object.fromEntries(entries.map(([key, schema]) => [key, schema.toJSONSchema(defs)])),
+      required: entries.filter(([, schema]) => !schema.optional).map(([key]) => key),
+    }),
+  };
+}
+
+/**
+ * Deferred schema for recursive structures (e.g. `ComponentSpec.children`).
+ * Emitted as a `$ref` into `$defs` under `name`.
+ */
+function lazy<T>(name: string, getter: () => Schema<T>): Schema<T> {
+  return {
+    validate: (value, path) => getter().validate(value, path),
+    toJSONSchema: (defs) => {
+      if (!defs.has(name)) {
+        defs.set(name, {});
+        defs.set(name, getter().toJSONSchema(defs));
+      }
+      return { $ref: `#/$defs/${name}` };
+    },
+  };
+}
+
+export const s = {
+  string,
+  number,
+  boolean,
+  unknown,
+  literal,
+  array,
+  record,
+  optional,
+  nullable,
+  object,
+  lazy,
+};
+
+/* -------------------------------------------------------------------------- */
+/*  Entry points                                                              */
+/* -------------------------------------------------------------------------- */
+
+export function validate<T>(schema: Schema<T>, value: unknown): ValidationResult<T> {
+  const issues = schema.validate(value, '');
+  if (issues.length > 0) {
+    return { ok: false, issues };
+  }
+  return { ok: true, value: value as T };
+}
+
+/** Renders a schema (and any recursive definitions) as a standalone JSON Schema document. */
+export function toJSONSchema(schema: Schema<unknown>): JSONSchema {
+  const defs = new Map<string, JSONSchema>();
+  const root = schema.toJSONSchema(defs);
+  if (defs.size === 0) {
+    return root;
+  }
+  return { ...root, $defs: Object.fromEntries(defs) };
+}
+
+export function isObjectSchema<T>(schema: Schema<T>): schema is ObjectSchema<T> {
+  return 'shape' in schema;
+}
+
+/**
+ * Narrows an object schema to the given dotted paths (e.g. `tokens.colors`),
+ * keeping the enclosing objects. Used to generate a large result section by
+ * section. Throws on a path that does not resolve to a property.
+ */
+export function pickPaths(
+  schema: ObjectSchema<unknown>,
+  paths: string[],
+): ObjectSchema<Record<string, unknown>> {
+  const shape = schema.shape as Record<string, Schema<unknown>>;
+  const nested = new Map<string, string[]>();
+  const picked: Record<string, Schema<unknown>> = {};
+
+  for (const path of paths) {
+    const [head = '', ...rest] = path.split('.');
+    const child = shape[head];
+    if (!child) {
+      throw new UXPilotError(
+        `Schema has no property "${head}" (from path "${path}")`,
+        'INVALID_INPUT',
+        { field: 'sections', received: path },
+      );
+    }
+    if (rest.length === 0) {
+      picked[head] = child;
+    } else {
+      nested.set(head, [...(nested.get(head) ?? []), rest.join('.')]);
+    }
+  }
+
+  for (const [head, rests] of nested) {
+    const child = shape[head];
+    if (picked[head] || !child) continue;
+    if (!isObjectSchema(child)) {
+      throw new UXPilotError(
+        `Schema property "${head}" is not an object and cannot be split`,
+        'INVALID_INPUT',
+        { field: 'sections', received: head },
+      );
+    }
+    picked[head] = pickPaths(child, rests);
+  }
+
+  return object<Record<string, unknown>>(picked);
+}
+
+export function formatIssues(issues: SchemaIssue[], limit: number = 10): string {
+  const shown = issues.slice(0, limit).map((issue) => `${issue.path} ${issue.message}`);
+  if (issues.length > limit) {
+    shown.push(`…and ${issues.length - limit} more`);
+  }
+  return shown.join('; ');
+}
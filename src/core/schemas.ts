@@ -0,0 +1,399 @@
+/**
+ * @file schemas.ts
+ * @description Runtime schemas mirroring the capability input and output types in types.ts
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import type { PromptUse } from './prompt-registry.js';
+import type { Redaction } from './redaction.js';
+import type { ObjectSchema, Schema } from './schema.js';
+import { s } from './schema.js';
+import type {
+  AccessibilityAuditInput,
+  AccessibilityAuditOutput,
+  AccessibilityFinding,
+  ColorScale,
+  ComponentArchInput,
+  ComponentArchOutput,
+  ComponentSpec,
+  ContentZone,
+  CritiqueIssue,
+  DesignCritiqueInput,
+  DesignCritiqueOutput,
+  DesignSystemInput,
+  DesignSystemOutput,
+  DesignTokens,
+  FlowStep,
+  HeuristicScore,
+  UsageReport,
+  UserFlowInput,
+  UserFlowOutput,
+  WireframeInput,
+  WireframeOutput,
+} from './types.js';
+
+const level = s.literal('high', 'medium', 'low');
+const wcagLevel = s.optional(s.literal('A', 'AA', 'AAA'));
+const additionalContext = s.optional(s.string());
+
+/* -------------------------------------------------------------------------- */
+/*  Usage                                                                     */
+/* -------------------------------------------------------------------------- */
+
+export const UsageReportSchema: Schema<UsageReport> = s.object<UsageReport>({
+  provider: s.nullable(s.string()),
+  model: s.nullable(s.string()),
+  calls: s.number({ integer: true, min: 0 }),
+  cacheHits: s.number({ integer: true, min: 0 }),
+  inputTokens: s.number({ integer: true, min: 0 }),
+  outputTokens: s.number({ integer: true, min: 0 }),
+  totalTokens: s.number({ integer: true, min: 0 }),
+  latencyMs: s.number({ min: 0 }),
+  estimatedCostUsd: s.nullable(s.number()),
+  estimated: s.boolean(),
+});
+
+const usage = s.optional(UsageReportSchema);
+const runId = s.optional(s.string());
+const prompts = s.optional(s.array(s.object<PromptUse>({
+  id: s.string(),
+  version: s.string(),
+  overridden: s.boolean(),
+  hash: s.string(),
+})));
+const redactions = s.optional(s.array(s.object<Redaction>({
+  placeholder: s.string(),
+  rule: s.string(),
+  fields: s.array(s.string()),
+  occurrences: s.number({ integer: true, min: 1 }),
+})));
+
+/* -------------------------------------------------------------------------- */
+/*  Design System                                                             */
+/* -------------------------------------------------------------------------- */
+
+export const DesignSystemInputSchema: ObjectSchema<DesignSystemInput> = s.object<DesignSystemInput>({
+  brandName: s.string(),
+  colors: s.optional(s.array(s.string())),
+  typographyPreferences: s.optional(s.object<NonNullable<DesignSystemInput['typographyPreferences']>>({
+    headingFont: s.optional(s.string()),
+    bodyFont: s.optional(s.string()),
+    monoFont: s.optional(s.string()),
+    scaleRatio: s.optional(s.literal('minor-third', 'major-third', 'perfect-fourth', 'augmented-fourth', 'perfect-fifth')),
+  })),
+  targetPlatform: s.optional(s.literal('web', 'mobile', 'both')),
+  additionalContext,
+});
+
+export const ColorScaleSchema: Schema<ColorScale> = s.object<ColorScale>({
+  name: s.string(),
+  stops: s.array(s.object({
+    shade: s.number(),
+    hex: s.string(),
+    hsl: s.string(),
+    contrastOnWhite: s.number(),
+    contrastOnBlack: s.number(),
+  })),
+});
+
+export const DesignTokensSchema: ObjectSchema<DesignTokens> = s.object<DesignTokens>({
+  colors: s.object({
+    primary: ColorScaleSchema,
+    secondary: ColorScaleSchema,
+    neutral: ColorScaleSchema,
+    semantic: s.object({
+      success: ColorScaleSchema,
+      warning: ColorScaleSchema,
+      error: ColorScaleSchema,
+      info: ColorScaleSchema,
+    }),
+  }),
+  typography: s.array(s.object({
+    name: s.string(),
+    fontSize: s.string(),
+    fontWeight: s.number(),
+    lineHeight: s.string(),
+    letterSpacing: s.string(),
+    fontFamily: s.string(),
+  })),
+  spacing: s.array(s.object({ name: s.string(), value: s.string(), px: s.number() })),
+  breakpoints: s.array(s.object({ name: s.string(), value: s.string(), minWidth: s.number() })),
+  shadows: s.array(s.object({ name: s.string(), value: s.string() })),
+  borderRadii: s.array(s.object({ name: s.string(), value: s.string() })),
+});
+
+const contrastResult = {
+  ratio: s.number(),
+  passesAA: s.boolean(),
+  passesAAA: s.boolean(),
+  passesAALargeText: s.boolean(),
+};
+
+const contrastSwatch = s.object({ token: s.string(), hex: s.string() });
+
+const semanticRole = s.literal(
+  'background', 'surface', 'surface-muted', 'on-surface', 'text-muted', 'primary', 'on-primary',
+  'border', 'divider', 'focus-ring', 'error', 'warning', 'success', 'info',
+);
+
+export const DesignSystemOutputSchema: ObjectSchema<DesignSystemOutput> = s.object<DesignSystemOutput>({
+  tokens: DesignTokensSchema,
+  contrastReport: s.array(s.object({
+    foreground: s.string(),
+    background: s.string(),
+    ...contrastResult,
+  })),
+  contrastMatrix: s.object({
+    foregrounds: s.array(contrastSwatch),
+    backgrounds: s.array(contrastSwatch),
+    ratios: s.array(s.array(s.number())),
+  }),
+  themes: s.array(s.object({
+    mode: s.literal('light', 'dark', 'high-contrast'),
+    colors: s.array(s.object({
+      role: semanticRole,
+      token: s.string(),
+      hex: s.string(),
+      adjustedFrom: s.optional(s.string()),
+    })),
+    checks: s.array(s.object({
+      foreground: semanticRole,
+      background: semanticRole,
+      kind: s.literal('text', 'non-text'),
+      ratio: s.number(),
+      required: s.number(),
+      passes: s.boolean(),
+    })),
+  })),
+  componentInventory: s.array(s.object({
+    name: s.string(),
+    category: s.string(),
+    priority: s.literal('essential', 'recommended', 'optional'),
+    description: s.string(),
+  })),
+  rationale: s.string(),
+  markdownReport: s.string(),
+  usage,
+  runId,
+  prompts,
+});
+
+/* -------------------------------------------------------------------------- */
+/*  Component Architecture                                                    */
+/* -------------------------------------------------------------------------- */
+
+export const ComponentArchInputSchema: ObjectSchema<ComponentArchInput> = s.object<ComponentArchInput>({
+  description: s.string(),
+  existingCode: s.optional(s.string()),
+  framework: s.optional(s.literal('react', 'vue', 'svelte', 'angular', 'agnostic')),
+  additionalContext,
+});
+
+export const ComponentSpecSchema: Schema<ComponentSpec> = s.object<ComponentSpec>({
+  name: s.string(),
+  description: s.string(),
+  props: s.array(s.object({
+    name: s.string(),
+    type: s.string(),
+    required: s.boolean(),
+    defaultValue: s.optional(s.string()),
+    description: s.string(),
+  })),
+  state: s.array(s.object({
+    name: s.string(),
+    type: s.string(),
+    initialValue: s.string(),
+    description: s.string(),
+  })),
+  events: s.array(s.object({
+    name: s.string(),
+    payload: s.string(),
+    description: s.string(),
+  })),
+  accessibilityRequirements: s.array(s.string()),
+  children: s.array(s.lazy('ComponentSpec', () => ComponentSpecSchema)),
+});
+
+export const ComponentArchOutputSchema: ObjectSchema<ComponentArchOutput> = s.object<ComponentArchOutput>({
+  rootComponent: ComponentSpecSchema,
+  stateManagementApproach: s.string(),
+  compositionPatterns: s.array(s.string()),
+  dataFlowDiagram: s.string(),
+  markdownReport: s.string(),
+  usage,
+  runId,
+  prompts,
+  redactions,
+});
+
+/* -------------------------------------------------------------------------- */
+/*  Accessibility Audit                                                       */
+/* -------------------------------------------------------------------------- */
+
+export const AccessibilityAuditInputSchema: ObjectSchema<AccessibilityAuditInput> = s.object<AccessibilityAuditInput>({
+  target: s.string(),
+  targetType: s.literal('component-code', 'html', 'description'),
+  wcagLevel,
+  additionalContext,
+});
+
+export const AccessibilityFindingSchema: Schema<AccessibilityFinding> = s.object<AccessibilityFinding>({
+  criterion: s.string(),
+  criterionName: s.string(),
+  severity: s.literal('critical', 'major', 'minor'),
+  issue: s.string(),
+  evidence: s.string(),
+  recommendation: s.string(),
+  codeExample: s.string(),
+});
+
+export const AccessibilityAuditOutputSchema: ObjectSchema<AccessibilityAuditOutput> = s.object<AccessibilityAuditOutput>({
+  summary: s.object({
+    totalFindings: s.number({ integer: true, min: 0 }),
+    critical: s.number({ integer: true, min: 0 }),
+    major: s.number({ integer: true, min: 0 }),
+    minor: s.number({ integer: true, min: 0 }),
+    passedCriteria: s.array(s.string()),
+  }),
+  findings: s.array(AccessibilityFindingSchema),
+  markdownReport: s.string(),
+  usage,
+  runId,
+  prompts,
+  redactions,
+});
+
+/* -------------------------------------------------------------------------- */
+/*  User Flow Mapping                                                         */
+/* -------------------------------------------------------------------------- */
+
+export const UserFlowInputSchema: ObjectSchema<UserFlowInput> = s.object<UserFlowInput>({
+  featureDescription: s.string(),
+  userPersona: s.optional(s.string()),
+  existingFlows: s.optional(s.string()),
+  additionalContext,
+});
+
+export const FlowStepSchema: Schema<FlowStep> = s.object<FlowStep>({
+  id: s.string(),
+  label: s.string(),
+  type: s.literal('start', 'action', 'decision', 'end', 'error'),
+  description: s.string(),
+});
+
+export const UserFlowOutputSchema: ObjectSchema<UserFlowOutput> = s.object<UserFlowOutput>({
+  mermaidDiagram: s.string(),
+  entryPoints: s.array(s.string()),
+  happyPath: s.array(FlowStepSchema),
+  decisionPoints: s.array(s.object({
+    step: FlowStepSchema,
+    options: s.array(s.string()),
+  })),
+  errorStates: s.array(s.object({
+    trigger: s.string(),
+    errorDescription: s.string(),
+    recoveryPath: s.string(),
+  })),
+  edgeCases: s.array(s.object({
+    scenario: s.string(),
+    handling: s.string(),
+  })),
+  markdownReport: s.string(),
+  usage,
+  runId,
+  prompts,
+});
+
+/* -------------------------------------------------------------------------- */
+/*  Wireframe Advisor                                                         */
+/* -------------------------------------------------------------------------- */
+
+export const WireframeInputSchema: ObjectSchema<WireframeInput> = s.object<WireframeInput>({
+  requirements: s.string(),
+  pageType: s.optional(s.literal('landing', 'dashboard', 'form', 'detail', 'list', 'settings', 'other')),
+  targetDevices: s.optional(s.array(s.literal('mobile', 'tablet', 'desktop'))),
+  additionalContext,
+});
+
+export const ContentZoneSchema: Schema<ContentZone> = s.object<ContentZone>({
+  name: s.string(),
+  purpose: s.string(),
+  priority: s.number(),
+  suggestedComponents: s.array(s.string()),
+  placement: s.string(),
+});
+
+export const WireframeOutputSchema: ObjectSchema<WireframeOutput> = s.object<WireframeOutput>({
+  informationHierarchy: s.array(s.object({
+    level: s.number(),
+    content: s.string(),
+    rationale: s.string(),
+  })),
+  contentZones: s.array(ContentZoneSchema),
+  navigationPattern: s.object({
+    type: s.string(),
+    rationale: s.string(),
+    items: s.array(s.string()),
+  }),
+  responsiveStrategy: s.array(s.object({
+    breakpoint: s.string(),
+    layoutChanges: s.array(s.string()),
+  })),
+  asciiWireframes: s.record(s.string()),
+  markdownReport: s.string(),
+  usage,
+  runId,
+  prompts,
+});
+
+/* -------------------------------------------------------------------------- */
+/*  Design Critique                                                           */
+/* -------------------------------------------------------------------------- */
+
+export const DesignCritiqueInputSchema: ObjectSchema<DesignCritiqueInput> = s.object<DesignCritiqueInput>({
+  target: s.string(),
+  targetType: s.literal('ui-description', 'component-code', 'design-spec'),
+  focusAreas: s.optional(s.array(s.string())),
+  additionalContext,
+});
+
+export const HeuristicScoreSchema: Schema<HeuristicScore> = s.object<HeuristicScore>({
+  heuristicId: s.number({ integer: true, min: 1, max: 10 }),
+  heuristicName: s.string(),
+  score: s.number({ min: 0, max: 10 }),
+  maxScore: s.number({ min: 1 }),
+});
+
+export const CritiqueIssueSchema: Schema<CritiqueIssue> = s.object<CritiqueIssue>({
+  heuristicId: s.number({ integer: true, min: 1, max: 10 }),
+  heuristicName: s.string(),
+  severity: s.literal(1, 2, 3, 4),
+  issue: s.string(),
+  evidence: s.string(),
+  recommendation: s.string(),
+});
+
+export const DesignCritiqueOutputSchema: ObjectSchema<DesignCritiqueOutput> = s.object<DesignCritiqueOutput>({
+  strengths: s.array(s.object({
+    area: s.string(),
+    description: s.string(),
+    heuristicId: s.number({ integer: true, min: 1, max: 10 }),
+  })),
+  issues: s.array(CritiqueIssueSchema),
+  heuristicScores: s.array(HeuristicScoreSchema),
+  priorityActions: s.array(s.object({
+    priority: s.number(),
+    action: s.string(),
+    impact: level,
+    effort: level,
+  })),
+  overallScore: s.number({ min: 0, max: 100 }),
+  markdownReport: s.string(),
+  usage,
+  runId,
+  prompts,
+  redactions,
+});
@@ -0,0 +1,103 @@
+/**
+ * @file session.ts
+ * @description Multi-turn refinement sessions — follow-up instructions against a capability's previous output
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import type { ProviderMessage } from './llm-provider.js';
+import type { OutputChange } from './output-diff.js';
+import { diffOutputs } from './output-diff.js';
+import type { ExecuteOptions } from './ux-ui-pilot.js';
+import { UXPilotError } from './types.js';
+
+/** One version of the session's output. */
+export interface SessionVersion<TOutput = unknown> {
+  output: TOutput;
+  /** The instruction that produced this version; null for the first. */
+  instruction: string | null;
+  /** History id, when the run was saved. */
+  runId?: string;
+  /** The run's LLM exchanges; the next refinement continues them. */
+  exchanges: ProviderMessage[][];
+}
+
+export interface RefinementResult<TOutput = unknown> {
+  instruction: string;
+  output: TOutput;
+  previous: TOutput;
+  /** What changed from `previous` to `output`, ignoring the report and usage. */
+  changes: OutputChange[];
+  runId?: string;
+}
+
+/** Runs the session's capability once more as a refinement of `previous` (provided by UXPilot). */
+export type SessionRunner<TOutput> = (
+  instruction: string,
+  previous: SessionVersion<TOutput>,
+  options: ExecuteOptions,
+) => Promise<SessionVersion<TOutput>>;
+
+/**
+ * A capability result the caller can keep revising: "make the primary
+ * palette warmer", "split that component further". Each refinement resends
+ * the conversation so far plus the instruction, and the capability turns the
+ * revised answer into a new output of the same type. Create sessions with
+ * UXPilot.startSession or UXPilot.resumeSession.
+ */
+export class RefinementSession<TOutput = unknown> {
+  readonly capabilityId: string;
+  private readonly runner: SessionRunner<TOutput>;
+  private readonly versions: SessionVersion<TOutput>[];
+
+  constructor(capabilityId: string, initial: SessionVersion<TOutput>, runner: SessionRunner<TOutput>) {
+    this.capabilityId = capabilityId;
+    this.runner = runner;
+    this.versions = [initial];
+  }
+
+  /** The latest output. */
+  get output(): TOutput {
+    return this.latest().output;
+  }
+
+  /** Every version so far, oldest first. */
+  history(): ReadonlyArray<SessionVersion<TOutput>> {
+    return [...this.versions];
+  }
+
+  async refine(instruction: string, options: ExecuteOptions = {}): Promise<RefinementResult<TOutput>> {
+    const trimmed = instruction.trim();
+    if (!trimmed) {
+      throw new UXPilotError('Refinement instruction must not be empty', 'INVALID_INPUT', { field: 'instruction' });
+    }
+
+    const previous = this.latest();
+    const next = await this.runner(trimmed, previous, options);
+    this.versions.push(next);
+    return {
+      instruction: trimmed,
+      output: next.output,
+      previous: previous.output,
+      changes: diffOutputs(previous.output, next.output),
+      ...(next.runId ? { runId: next.runId } : {}),
+    };
+  }
+
+  /** Drops the latest refinement so the next one revises the version before it. Returns false at the first version. */
+  undo(): boolean {
+    if (this.versions.length <= 1) return false;
+    this.versions.pop();
+    return true;
+  }
+
+  private latest(): SessionVersion<TOutput> {
+    const latest = this.versions[this.versions.length - 1];
+    if (!latest) {
+      throw new UXPilotError('Refinement session has no output', 'UNKNOWN', { capabilityId: this.capabilityId });
+    }
+    return latest;
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * @file trace-exporters.ts
+ * @description Span exporters — console JSON, JSONL file, and OTLP/HTTP JSON for a local collector
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import type { SpanAttributeValue, SpanExporter, SpanRecord } from './tracing.js';
+import { UXPilotError } from './types.js';
+
+const DEFAULT_OTLP_ENDPOINT = 'http://localhost:4318';
+const OTLP_BATCH_SIZE = 100;
+const OTLP_TIMEOUT_MS = 5_000;
+const SERVICE_NAME = 'ux-ui-pilot';
+
+export const TRACE_EXPORTER_KINDS = ['console', 'file', 'otlp'] as const;
+
+/** One JSON line per span on stderr. */
+export class ConsoleSpanExporter implements SpanExporter {
+  export(span: SpanRecord): void {
+    process.stderr.write(`${JSON.stringify({ type: 'span', ...span })}\n`);
+  }
+}
+
+/** Appends one JSON line per span to a file; writes are serialized and awaited by flush(). */
+export class FileSpanExporter implements SpanExporter {
+  readonly path: string;
+  private pending: Promise<void> = Promise.resolve();
+  private ready: Promise<unknown> | undefined;
+
+  constructor(path: string) {
+    this.path = resolve(path);
+  }
+
+  export(span: SpanRecord): void {
+    this.ready ??= mkdir(dirname(this.path), { recursive: true });
+    const ready = this.ready;
+    this.pending = this.pending
+      .then(() => ready)
+      .then(() => appendFile(this.path, `${JSON.stringify(span)}\n`, 'utf-8'))
+      .catch(() => undefined);
+  }
+
+  flush(): Promise<void> {
+    return this.pending;
+  }
+}
+
+export interface OtlpExporterOptions {
+  /** Full traces URL (default: OTEL_EXPORTER_OTLP_TRACES_ENDPOINT, else `<OTEL_EXPORTER_OTLP_ENDPOINT or http://localhost:4318>/v1/traces`). */
+  url?: string;
+  /** Extra request headers, e.g. a collector token. */
+  headers?: Record<string, string>;
+  /** `service.name` resource attribute (default: OTEL_SERVICE_NAME, else "ux-ui-pilot"). */
+  serviceName?: string;
+}
+
+/**
+ * Buffers spans and POSTs them as OTLP/HTTP JSON, so any OpenTelemetry
+ * collector (or Jaeger / Tempo with OTLP enabled) can ingest them. Batches
+ * go out when full and on flush(); a collector that is down only loses
+ * spans.
+ */
+export class OtlpSpanExporter implements SpanExporter {
+  readonly url: string;
+  private readonly headers: Record<string, string>;
+  private readonly serviceName: string;
+  private buffer: SpanRecord[] = [];
+  private inFlight: Promise<void> = Promise.resolve();
+
+  constructor(options: OtlpExporterOptions = {}) {
+    this.url = options.url ?? defaultOtlpUrl();
+    this.headers = options.headers ?? {};
+    this.serviceName = options.serviceName ?? process.env['OTEL_SERVICE_NAME'] ?? SERVICE_NAME;
+  }
+
+  export(span: SpanRecord): void {
+    this.buffer.push(span);
+    if (this.buffer.length >= OTLP_BATCH_SIZE) {
+      void this.flush();
+    }
+  }
+
+  flush(): Promise<void> {
+    const batch = this.buffer;
+    this.buffer = [];
+    if (batch.length > 0) {
+      this.inFlight = this.inFlight.then(() => this.send(batch));
+    }
+    return this.inFlight;
+  }
+
+  private async send(batch: SpanRecord[]): Promise<void> {
+    try {
+      await fetch(this.url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...this.headers },
+        body: JSON.stringify(this.toOtlp(batch)),
+        signal: AbortSignal.timeout(OTLP_TIMEOUT_MS),
+      });
+    } catch {
+      // Dropped; tracing never fails a run.
+    }
+  }
+
+  private toOtlp(batch: SpanRecord[]): unknown {
+    return {
+      resourceSpans: [{
+        resource: { attributes: toOtlpAttributes({ 'service.name': this.serviceName }) },
+        scopeSpans: [{
+          scope: { name: SERVICE_NAME },
+          spans: batch.map((span) => ({
+            traceId: span.traceId,
+            spanId: span.spanId,
+            ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+            name: span.name,
+            // SPAN_KIND_CLIENT for provider requests, SPAN_KIND_INTERNAL otherwise.
+            kind: span.name === 'llm.call' ? 3 : 1,
+            startTimeUnixNano: toUnixNano(span.startTime),
+            endTimeUnixNano: toUnixNano(span.endTime),
+            attributes: toOtlpAttributes({
+              ...span.attributes,
+              ...(span.error?.code ? { 'error.type': span.error.code } : {}),
+            }),
+            status: span.status === 'error'
+              ? { code: 2, message: span.error?.message ?? '' }
+              : { code: 1 },
+          })),
+        }],
+      }],
+    };
+  }
+}
+
+/**
+ * Exporters from a comma-separated spec: `console`, `file:<path>`, `otlp`,
+ * or `otlp:<traces url>`. Empty or unset means no tracing.
+ */
+export function createTraceExporters(spec: string | undefined = process.env['UX_PILOT_TRACE']): SpanExporter[] {
+  if (!spec?.trim()) {
+    return [];
+  }
+  return spec.split(',').map((entry) => entry.trim()).filter(Boolean).map((entry) => {
+    const separator = entry.indexOf(':');
+    const kind = separator === -1 ? entry : entry.slice(0, separator);
+    const target = separator === -1 ? '' : entry.slice(separator + 1);
+    switch (kind) {
+      case 'console':
+        return new ConsoleSpanExporter();
+      case 'file':
+        if (!target) {
+          throw new UXPilotError(
+            'Trace exporter "file" needs a path, e.g. file:traces.jsonl',
+            'INVALID_INPUT',
+            { field: 'trace', received: entry },
+          );
+        }
+        return new FileSpanExporter(target);
+      case 'otlp':
+        return new OtlpSpanExporter(target ? { url: target } : {});
+      default:
+        throw new UXPilotError(
+          `Unknown trace exporter: ${kind}`,
+          'INVALID_INPUT',
+          { field: 'trace', received: entry, supported: TRACE_EXPORTER_KINDS },
+        );
+    }
+  });
+}
+
+function defaultOtlpUrl(): string {
+  const tracesUrl = process.env['OTEL_EXPORTER_OTLP_TRACES_ENDPOINT'];
+  if (tracesUrl) {
+    return tracesUrl;
+  }
+  const base = process.env['OTEL_EXPORTER_OTLP_ENDPOINT'] ?? DEFAULT_OTLP_ENDPOINT;
+  return `${base.replace(/\/+$/, '')}/v1/traces`;
+}
+
+function toUnixNano(epochMs: number): string {
+  return (BigInt(Math.round(epochMs * 1000)) * 1000n).toString();
+}
+
+function toOtlpAttributes(attributes: Record<string, SpanAttributeValue>): unknown[] {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value: typeof value === 'string'
+      ? { stringValue: value }
+      : typeof value === 'boolean'
+        ? { boolValue: value }
+        : Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value },
+  }));
+}
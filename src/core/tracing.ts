@@ -0,0 +1,179 @@
+/**
+ * @file tracing.ts
+ * @description OpenTelemetry-style spans around capability runs, prompt building, LLM calls, parsing, and reports
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import { randomBytes } from 'node:crypto';
+import type { ExecutionContext } from './types.js';
+import { UXPilotError } from './types.js';
+
+export type SpanAttributeValue = string | number | boolean;
+
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/** A finished span, as exporters receive it. Ids are OTLP-sized hex strings. */
+export interface SpanRecord {
+  /** 32 hex chars, shared by every span of one run. */
+  traceId: string;
+  /** 16 hex chars. */
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  /** Epoch milliseconds (fractional). */
+  startTime: number;
+  endTime: number;
+  durationMs: number;
+  attributes: Record<string, SpanAttributeValue>;
+  status: 'ok' | 'error';
+  error?: { message: string; code?: string };
+}
+
+/**
+ * Receives spans as they end. Exporters must not throw; `flush` lets
+ * buffered ones (file, OTLP) finish before a run returns.
+ */
+export interface SpanExporter {
+  export(span: SpanRecord): void;
+  flush?(): Promise<void>;
+}
+
+/**
+ * One timed operation. Children share the trace id; ending a span more than
+ * once keeps the first end.
+ */
+export class Span {
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly name: string;
+  private readonly parentSpanId: string | undefined;
+  private readonly tracer: Tracer;
+  private readonly startTime: number;
+  private readonly attributes: Record<string, SpanAttributeValue> = {};
+  private error: SpanRecord['error'];
+  private ended = false;
+
+  constructor(tracer: Tracer, name: string, attributes: SpanAttributes, parent?: Span) {
+    this.tracer = tracer;
+    this.name = name;
+    this.traceId = parent?.traceId ?? randomBytes(16).toString('hex');
+    this.spanId = randomBytes(8).toString('hex');
+    this.parentSpanId = parent?.spanId;
+    this.startTime = now();
+    this.setAttributes(attributes);
+  }
+
+  setAttributes(attributes: SpanAttributes): void {
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value !== undefined) this.attributes[key] = value;
+    }
+  }
+
+  child(name: string, attributes: SpanAttributes = {}): Span {
+    return new Span(this.tracer, name, attributes, this);
+  }
+
+  /** Marks the span failed; UXPilotError codes are kept alongside the message. */
+  recordError(error: unknown): void {
+    this.error = {
+      message: error instanceof Error ? error.message : String(error),
+      ...(error instanceof UXPilotError ? { code: error.code } : {}),
+    };
+  }
+
+  end(): void {
+    if (this.ended) return;
+    this.ended = true;
+    const endTime = now();
+    this.tracer.record({
+      traceId: this.traceId,
+      spanId: this.spanId,
+      ...(this.parentSpanId ? { parentSpanId: this.parentSpanId } : {}),
+      name: this.name,
+      startTime: this.startTime,
+      endTime,
+      durationMs: Math.round((endTime - this.startTime) * 1000) / 1000,
+      attributes: { ...this.attributes },
+      status: this.error ? 'error' : 'ok',
+      ...(this.error ? { error: this.error } : {}),
+    });
+  }
+}
+
+/** Starts root spans and hands finished spans to every exporter. */
+export class Tracer {
+  private readonly exporters: readonly SpanExporter[];
+
+  constructor(exporters: readonly SpanExporter[]) {
+    this.exporters = exporters;
+  }
+
+  startSpan(name: string, attributes: SpanAttributes = {}): Span {
+    return new Span(this, name, attributes);
+  }
+
+  /** Called by Span.end. */
+  record(span: SpanRecord): void {
+    for (const exporter of this.exporters) {
+      try {
+        exporter.export(span);
+      } catch {
+        // Tracing never fails a run.
+      }
+    }
+  }
+
+  async flush(): Promise<void> {
+    await Promise.all(this.exporters.map((exporter) => exporter.flush?.().catch(() => undefined)));
+  }
+}
+
+/**
+ * Runs `fn` inside a child of the run's current span and returns its result
+ * (sync or async). Without a span on `context` this is just `fn(context)`.
+ * `fn` receives a context whose `span` is the child, so nested spans attach
+ * under it; the span ends when `fn` returns, throws, or its promise settles.
+ */
+export function traced<C extends ExecutionContext | undefined, T>(
+  context: C,
+  name: string,
+  attributes: SpanAttributes,
+  fn: (context: C, span: Span | undefined) => T,
+): T {
+  const span = context?.span?.child(name, attributes);
+  if (!span) {
+    return fn(context, undefined);
+  }
+
+  let result: T;
+  try {
+    // A span implies a context, so the spread is a C.
+    result = fn({ ...context, span } as C, span);
+  } catch (error: unknown) {
+    span.recordError(error);
+    span.end();
+    throw error;
+  }
+  if (result instanceof Promise) {
+    return result.then(
+      (value: unknown) => {
+        span.end();
+        return value;
+      },
+      (error: unknown) => {
+        span.recordError(error);
+        span.end();
+        throw error;
+      },
+    ) as T;
+  }
+  span.end();
+  return result;
+}
+
+function now(): number {
+  return performance.timeOrigin + performance.now();
+}
@@ -4,26 +4,122 @@
  * @author Charley Scholz, ELEV8
  * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
  * @created 2026-02-23
- * @updated 2026-02-23
+ * @updated 2026-10-19
  */
 
+import type { ProviderMessage } from './llm-provider.js';
+import type { Logger } from './logger.js';
+import type { ProjectProfile } from './project-profile.js';
+import type { PromptUse } from './prompt-registry.js';
+import type { Redaction, RedactionConfig, Redactor } from './redaction.js';
+import type { Span } from './tracing.js';
+import type { UsageTracker } from './usage.js';
+
 /* -------------------------------------------------------------------------- */
 /*  Capability Registry                                                       */
 /* -------------------------------------------------------------------------- */
 
-export type CapabilityId =
-  | 'design-system'
-  | 'component-architecture'
-  | 'accessibility-audit'
-  | 'user-flow'
-  | 'wireframe'
-  | 'design-critique';
+/**
+ * Ids with a typed input/output pair. Plugins extend the set by augmenting
+ * CapabilityInputMap and CapabilityOutputMap; untyped plugin ids still run
+ * through UXPilot.execute(id: string, ...).
+ */
+export type CapabilityId = Extract<keyof CapabilityInputMap, string>;
 
 export interface Capability<TInput, TOutput> {
-  readonly id: CapabilityId;
+  readonly id: string;
   readonly name: string;
   readonly description: string;
-  execute(input: TInput): Promise<TOutput>;
+  execute(input: TInput, context?: ExecutionContext): Promise<TOutput>;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Execution Context & Progress Events                                       */
+/* -------------------------------------------------------------------------- */
+
+export type CapabilityPhase =
+  | 'prompt-built'
+  | 'streaming'
+  | 'parsing'
+  | 'report-rendering'
+  | 'complete';
+
+export type CapabilityEvent =
+  | { type: 'phase'; phase: CapabilityPhase }
+  | {
+    type: 'tokens';
+    /** Output tokens so far for the current LLM call (estimated from streamed characters). */
+    outputTokens: number;
+    characters: number;
+  };
+
+export type CapabilityEventSink = (event: CapabilityEvent) => void;
+
+/**
+ * Per-run state threaded from UXPilot.execute through a capability into
+ * every LLMClient call it makes.
+ */
+export interface ExecutionContext {
+  onEvent?: CapabilityEventSink;
+  /** Records per-call token usage and enforces the run's token budget. */
+  usage?: UsageTracker;
+  /** Cancels the run; aborts surface as TIMEOUT or CANCELLED errors. */
+  signal?: AbortSignal;
+  /** Project context appended to every system prompt in the run. */
+  profile?: ProjectProfile;
+  /** Records the run's LLM exchanges; on refinement runs, also replays the previous version's. */
+  conversation?: Conversation;
+  /** Prompt templates rendered during the run; PromptRegistry.render appends to it. */
+  prompts?: PromptUse[];
+  /** The enclosing trace span when tracing is on; `traced()` nests work under it. */
+  span?: Span;
+  /** The run's logger, already tagged with its trace id. */
+  logger?: Logger;
+  /** Redaction settings for code and markup sent to the model, or `false` to send it verbatim (default: built-in rules). */
+  redaction?: RedactionConfig | false;
+  /** The run's redactor, built from `redaction`; capabilities redact through it so the run history stores the placeholders the model saw. */
+  redactor?: Redactor;
+  /** Code and markup larger than this (estimated tokens) is analyzed in parts; `0` sends it whole (default: DEFAULT_INPUT_CHUNK_TOKENS). */
+  inputChunkTokens?: number;
+}
+
+/**
+ * The LLM exchanges of one capability run, one message list per
+ * `chat` / `chatJSON` call in call order, each ending with the answer the
+ * capability received. A refinement run continues each exchange of the
+ * previous version with the instruction as the next user turn, so the
+ * capability re-derives its output from a revised answer.
+ */
+export interface Conversation {
+  /** Filled in by LLMClient as the run makes calls. */
+  exchanges: ProviderMessage[][];
+  /** Set on refinement runs. */
+  refine?: {
+    instruction: string;
+    /** The previous version's exchanges. */
+    previous: ProviderMessage[][];
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Usage Accounting                                                          */
+/* -------------------------------------------------------------------------- */
+
+export interface UsageReport {
+  provider: string | null;
+  model: string | null;
+  calls: number;
+  /** Calls answered from the response cache (included in `calls`, zero tokens). */
+  cacheHits: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  /** Summed wall-clock time spent in LLM calls. */
+  latencyMs: number;
+  /** Null when the model has no entry in the price table. */
+  estimatedCostUsd: number | null;
+  /** True when any call's token counts were estimated rather than reported. */
+  estimated: boolean;
 }
 
 /* -------------------------------------------------------------------------- */
@@ -33,8 +129,15 @@ export interface Capability<TInput, TOutput> {
 export type UXPilotErrorCode =
   | 'INVALID_INPUT'
   | 'LLM_ERROR'
+  | 'RATE_LIMITED'
   | 'CAPABILITY_NOT_FOUND'
   | 'PARSE_ERROR'
+  | 'FIXTURE_NOT_FOUND'
+  | 'BUDGET_EXCEEDED'
+  | 'TIMEOUT'
+  | 'CANCELLED'
+  | 'OUTPUT_TRUNCATED'
+  | 'RUN_NOT_FOUND'
   | 'UNKNOWN';
 
 export class UXPilotError extends Error {
@@ -136,23 +239,99 @@ export interface DesignTokens {
   borderRadii: BorderRadiusToken[];
 }
 
+/** A WCAG contrast ratio and the thresholds it meets. */
+export interface ContrastResult {
+  ratio: number;
+  passesAA: boolean;
+  passesAAA: boolean;
+  passesAALargeText: boolean;
+}
+
+export interface ContrastPair extends ContrastResult {
+  foreground: string;
+  background: string;
+}
+
+export interface ContrastSwatch {
+  /** e.g. `primary-700`, `white` */
+  token: string;
+  hex: string;
+}
+
+/** Every text-eligible color on every background it could sit on. */
+export interface ContrastMatrix {
+  foregrounds: ContrastSwatch[];
+  backgrounds: ContrastSwatch[];
+  /** `ratios[i][j]` is foregrounds[i] on backgrounds[j], two decimals rounded down. */
+  ratios: number[][];
+}
+
+export type ThemeMode = 'light' | 'dark' | 'high-contrast';
+
+export type SemanticColorRole =
+  | 'background'
+  | 'surface'
+  | 'surface-muted'
+  | 'on-surface'
+  | 'text-muted'
+  | 'primary'
+  | 'on-primary'
+  | 'border'
+  | 'divider'
+  | 'focus-ring'
+  | 'error'
+  | 'warning'
+  | 'success'
+  | 'info';
+
+/** A semantic role bound to a scale stop in one theme. */
+export interface SemanticColor {
+  role: SemanticColorRole;
+  /** e.g. `neutral-900`, `white` */
+  token: string;
+  hex: string;
+  /** The theme's preferred stop, when it missed a contrast requirement and a stronger one was used. */
+  adjustedFrom?: string;
+}
+
+/** One role on another, against the theme's requirement for that kind of contrast. */
+export interface ThemeContrastCheck {
+  foreground: SemanticColorRole;
+  background: SemanticColorRole;
+  /** `text`: WCAG 1.4.3 / 1.4.6; `non-text`: 1.4.11 (borders, focus indicators). */
+  kind: 'text' | 'non-text';
+  /** Two decimals rounded down. */
+  ratio: number;
+  required: number;
+  passes: boolean;
+}
+
+export interface ColorTheme {
+  mode: ThemeMode;
+  colors: SemanticColor[];
+  checks: ThemeContrastCheck[];
+}
+
 export interface DesignSystemOutput {
   tokens: DesignTokens;
-  contrastReport: Array<{
-    foreground: string;
-    background: string;
-    ratio: number;
-    passesAA: boolean;
-    passesAAA: boolean;
-    passesAALargeText: boolean;
-  }>;
+  contrastReport: ContrastPair[];
+  contrastMatrix: ContrastMatrix;
+  /** Semantic color roles for the light, dark, and high-contrast themes. */
+  themes: ColorTheme[];
   componentInventory: Array<{
     name: string;
     category: string;
     priority: 'essential' | 'recommended' | 'optional';
     description: string;
   }>;
+  /** Why the palette, type scale and inventory suit the brand and platform. */
+  rationale: string;
   markdownReport: string;
+  usage?: UsageReport;
+  /** History id of this run, when it was saved. */
+  runId?: string;
+  /** Prompt template versions that produced this output. */
+  prompts?: PromptUse[];
 }
 
 /* -------------------------------------------------------------------------- */
@@ -197,6 +376,13 @@ export interface ComponentArchOutput {
   compositionPatterns: string[];
   dataFlowDiagram: string;
   markdownReport: string;
+  usage?: UsageReport;
+  /** History id of this run, when it was saved. */
+  runId?: string;
+  /** Prompt template versions that produced this output. */
+  prompts?: PromptUse[];
+  /** Secrets and personal data replaced with placeholders before the input was sent; present when anything was. */
+  redactions?: Redaction[];
 }
 
 /* -------------------------------------------------------------------------- */
@@ -232,6 +418,13 @@ export interface AccessibilityAuditOutput {
   };
   findings: AccessibilityFinding[];
   markdownReport: string;
+  usage?: UsageReport;
+  /** History id of this run, when it was saved. */
+  runId?: string;
+  /** Prompt template versions that produced this output. */
+  prompts?: PromptUse[];
+  /** Secrets and personal data replaced with placeholders before the input was sent; present when anything was. */
+  redactions?: Redaction[];
 }
 
 /* -------------------------------------------------------------------------- */
@@ -277,6 +470,11 @@ export interface UserFlowOutput {
     handling: string;
   }>;
   markdownReport: string;
+  usage?: UsageReport;
+  /** History id of this run, when it was saved. */
+  runId?: string;
+  /** Prompt template versions that produced this output. */
+  prompts?: PromptUse[];
 }
 
 /* -------------------------------------------------------------------------- */
@@ -316,6 +514,11 @@ export interface WireframeOutput {
   }>;
   asciiWireframes: Record<string, string>;
   markdownReport: string;
+  usage?: UsageReport;
+  /** History id of this run, when it was saved. */
+  runId?: string;
+  /** Prompt template versions that produced this output. */
+  prompts?: PromptUse[];
 }
 
 /* -------------------------------------------------------------------------- */
@@ -361,6 +564,13 @@ export interface DesignCritiqueOutput {
   }>;
   overallScore: number;
   markdownReport: string;
+  usage?: UsageReport;
+  /** History id of this run, when it was saved. */
+  runId?: string;
+  /** Prompt template versions that produced this output. */
+  prompts?: PromptUse[];
+  /** Secrets and personal data replaced with placeholders before the input was sent; present when anything was. */
+  redactions?: Redaction[];
 }
 
 /* -------------------------------------------------------------------------- */
@@ -0,0 +1,170 @@
+/**
+ * @file usage.ts
+ * @description Token usage, latency, and cost accounting per capability run, with an optional hard token budget
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import type { ProviderId } from './llm-provider.js';
+import type { UsageReport } from './types.js';
+import { UXPilotError } from './types.js';
+
+/** USD per million tokens. */
+export interface ModelPrice {
+  inputPerMTok: number;
+  outputPerMTok: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * List prices at time of writing. Keys match exactly or as a prefix of the
+ * model id (longest prefix wins), so dated snapshots inherit family pricing.
+ * Override or extend via `UXPilotOptions.prices` / `--prices`.
+ */
+export const DEFAULT_PRICE_TABLE: Readonly<PriceTable> = {
+  'claude-opus-4': { inputPerMTok: 15, outputPerMTok: 75 },
+  'claude-sonnet-4': { inputPerMTok: 3, outputPerMTok: 15 },
+  'claude-3-7-sonnet': { inputPerMTok: 3, outputPerMTok: 15 },
+  'claude-3-5-sonnet': { inputPerMTok: 3, outputPerMTok: 15 },
+  'claude-3-5-haiku': { inputPerMTok: 0.8, outputPerMTok: 4 },
+  'gpt-4o-mini': { inputPerMTok: 0.15, outputPerMTok: 0.6 },
+  'gpt-4o': { inputPerMTok: 2.5, outputPerMTok: 10 },
+  'gpt-4.1': { inputPerMTok: 2, outputPerMTok: 8 },
+};
+
+/** Rough characters-per-token ratio for estimates when a provider reports no usage. */
+export const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function findPrice(model: string, prices: PriceTable): ModelPrice | undefined {
+  if (prices[model]) {
+    return prices[model];
+  }
+  const prefix = Object.keys(prices)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : undefined;
+}
+
+export interface UsageCall {
+  provider: ProviderId;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  /** True when token counts were estimated because the provider reported none. */
+  estimated: boolean;
+  /** True when the response came from the response cache; such calls cost nothing. */
+  cached: boolean;
+}
+
+export interface UsageTrackerOptions {
+  prices?: PriceTable;
+  /** Hard ceiling on input + output tokens for the run. */
+  tokenBudget?: number;
+}
+
+/**
+ * Accumulates usage for one capability run (or one pipeline run). LLMClient records each call and
+ * asks the tracker to reserve worst-case tokens before sending, so a run
+ * aborts before it can exceed its budget rather than after. Reservations
+ * stay held until the call finishes, so calls running side by side (the
+ * parts of a split input) count against the budget together.
+ */
+export class UsageTracker {
+  private readonly calls: UsageCall[] = [];
+  private readonly prices: PriceTable;
+  private readonly tokenBudget: number | undefined;
+  private reservedTokens = 0;
+
+  constructor(options: UsageTrackerOptions = {}) {
+    this.prices = { ...DEFAULT_PRICE_TABLE, ...options.prices };
+    this.tokenBudget = options.tokenBudget;
+  }
+
+  totalTokens(): number {
+    return this.calls.reduce((sum, c) => sum + c.inputTokens + c.outputTokens, 0);
+  }
+
+  /**
+   * Holds worst-case tokens for a call, or throws BUDGET_EXCEEDED if they
+   * could push the run past its token budget given what is already used and
+   * held by calls still in flight. Call the returned function once the call
+   * has been recorded or has failed; it releases the hold.
+   */
+  reserve(estimatedInputTokens: number, maxOutputTokens: number): () => void {
+    if (this.tokenBudget === undefined) {
+      return () => {};
+    }
+
+    const used = this.totalTokens();
+    const needed = estimatedInputTokens + maxOutputTokens;
+    if (used + this.reservedTokens + needed > this.tokenBudget) {
+      throw new UXPilotError(
+        `Token budget of ${this.tokenBudget} would be exceeded (used ${used}, ${this.reservedTokens} reserved by calls in flight, next call needs up to ${needed})`,
+        'BUDGET_EXCEEDED',
+        {
+          tokenBudget: this.tokenBudget,
+          usedTokens: used,
+          reservedTokens: this.reservedTokens,
+          estimatedInputTokens,
+          maxOutputTokens,
+        },
+      );
+    }
+
+    this.reservedTokens += needed;
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.reservedTokens -= needed;
+    };
+  }
+
+  record(call: UsageCall): void {
+    this.calls.push(call);
+  }
+
+  /** Calls recorded so far; pass to report() to cover only later calls. */
+  callCount(): number {
+    return this.calls.length;
+  }
+
+  /** Usage of every call from index `since` on (default: the whole run). */
+  report(since: number = 0): UsageReport {
+    const calls = this.calls.slice(since);
+    const inputTokens = calls.reduce((sum, c) => sum + c.inputTokens, 0);
+    const outputTokens = calls.reduce((sum, c) => sum + c.outputTokens, 0);
+    const last = calls[calls.length - 1];
+
+    let estimatedCostUsd: number | null = 0;
+    for (const call of calls) {
+      const price = findPrice(call.model, this.prices);
+      if (!price) {
+        estimatedCostUsd = null;
+        break;
+      }
+      estimatedCostUsd += (call.inputTokens * price.inputPerMTok + call.outputTokens * price.outputPerMTok) / 1_000_000;
+    }
+
+    return {
+      provider: last?.provider ?? null,
+      model: last?.model ?? null,
+      calls: calls.length,
+      cacheHits: calls.filter((c) => c.cached).length,
+      inputTokens,
+      outputTokens,
+      totalTokens: inputTokens + outputTokens,
+      latencyMs: calls.reduce((sum, c) => sum + c.latencyMs, 0),
+      estimatedCostUsd: estimatedCostUsd === null ? null : Math.round(estimatedCostUsd * 1_000_000) / 1_000_000,
+      estimated: calls.some((c) => c.estimated),
+    };
+  }
+}
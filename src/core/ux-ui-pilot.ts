@@ -1,95 +1,641 @@
 /**
  * @file ux-ui-pilot.ts
- * @description Main orchestrator — routes requests to capabilities via lazy-loading
+ * @description Main orchestrator — routes requests to registered capabilities and runs them
  * @author Charley Scholz, ELEV8
  * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
  * @created 2026-02-23
- * @updated 2026-02-23
+ * @updated 2026-10-19
  */
 
+import { abortError, createRunSignal } from './abort.js';
+import { resolveInputChunkTokens } from './input-chunking.js';
+import type { StructuredOutputMode } from './llm-client.js';
 import { LLMClient } from './llm-client.js';
+import type { LLMProvider, ProviderId } from './llm-provider.js';
+import type { Logger } from './logger.js';
+import { JsonLogger } from './logger.js';
+import type { FixtureOptions } from './providers/fixture-provider.js';
+import type { LocalHandler } from './providers/local-provider.js';
+import type { ResponseCacheOptions } from './response-cache.js';
+import type { RetryOptions } from './retry.js';
+import type { PipelineDefinition, PipelineResult, PipelineScope, PipelineStepResult } from './pipeline.js';
+import { renderPipelineReport, resolveReferences } from './pipeline.js';
+import type { ProjectProfile, ProjectProfileSource } from './project-profile.js';
+import { mergeProfiles, resolveProjectProfile } from './project-profile.js';
+import type { RedactionConfig } from './redaction.js';
+import { Redactor } from './redaction.js';
+import type { PromptUse } from './prompt-registry.js';
+import type { CapabilityRegistry } from './registry.js';
+import { defaultRegistry } from './registry.js';
+import type { RoutePlan, RouteStrategy } from './router.js';
+import { RequestRouter } from './router.js';
+import type { NewRunRecord, RunListOptions, RunRecord, RunStoreOptions, RunSummary } from './run-store.js';
+import { RunStore } from './run-store.js';
+import { formatIssues, validate } from './schema.js';
+import type { SessionRunner, SessionVersion } from './session.js';
+import { RefinementSession } from './session.js';
+import { createTraceExporters } from './trace-exporters.js';
+import type { SpanAttributes, SpanExporter } from './tracing.js';
+import { traced, Tracer } from './tracing.js';
+import type { PriceTable } from './usage.js';
+import { UsageTracker } from './usage.js';
 import type {
   Capability,
   CapabilityId,
+  CapabilityEventSink,
   CapabilityInputMap,
   CapabilityOutputMap,
+  Conversation,
+  ExecutionContext,
   UXPilotErrorCode,
 } from './types.js';
 import { UXPilotError } from './types.js';
 
 type AnyCapability = Capability<unknown, unknown>;
 
-const CAPABILITY_MODULES: Record<CapabilityId, string> = {
-  'design-system': '../capabilities/design-system.js',
-  'component-architecture': '../capabilities/component-architecture.js',
-  'accessibility-audit': '../capabilities/accessibility-audit.js',
-  'user-flow': '../capabilities/user-flow-mapper.js',
-  'wireframe': '../capabilities/wireframe-advisor.js',
-  'design-critique': '../capabilities/design-critique.js',
-};
-
-const CAPABILITY_EXPORTS: Record<CapabilityId, string> = {
-  'design-system': 'DesignSystemCapability',
-  'component-architecture': 'ComponentArchCapability',
-  'accessibility-audit': 'AccessibilityAuditCapability',
-  'user-flow': 'UserFlowMapperCapability',
-  'wireframe': 'WireframeAdvisorCapability',
-  'design-critique': 'DesignCritiqueCapability',
-};
-
-const CAPABILITY_KEYWORDS: Record<CapabilityId, string[]> = {
-  'design-system': ['design system', 'tokens', 'color palette', 'typography', 'spacing', 'brand', 'theme'],
-  'component-architecture': ['component', 'architecture', 'props', 'state', 'composition', 'breakdown'],
-  'accessibility-audit': ['accessibility', 'a11y', 'wcag', 'aria', 'screen reader', 'contrast'],
-  'user-flow': ['user flow', 'journey', 'flowchart', 'navigation path', 'user journey', 'steps'],
-  'wireframe': ['wireframe', 'layout', 'page structure', 'information hierarchy', 'content zones'],
-  'design-critique': ['critique', 'review', 'evaluate', 'heuristic', 'usability', 'feedback'],
-};
-
 export interface UXPilotOptions {
-  apiKey: string;
+  /** API key for the selected provider; required for "anthropic". */
+  apiKey?: string;
   model?: string;
+  /** Provider id or a custom provider instance (default: UX_PILOT_PROVIDER or "anthropic"). */
+  provider?: ProviderId | LLMProvider;
+  /** Endpoint override, e.g. a self-hosted OpenAI-compatible server. */
+  baseUrl?: string;
+  /** Handler for the "local" provider, or a module path exporting one (default: UX_PILOT_LOCAL_HANDLER). */
+  localHandler?: LocalHandler | string;
+  /** Record LLM responses to disk, or replay them offline (default: UX_PILOT_FIXTURES). */
+  fixtures?: FixtureOptions;
+  /** Repair turns spent on schema-invalid JSON before failing with PARSE_ERROR (default: 1). */
+  repairAttempts?: number;
+  /** Backoff policy for rate limits and transient provider failures. */
+  retry?: Partial<RetryOptions>;
+  /** Process-wide ceiling on concurrent LLM requests. */
+  maxConcurrency?: number;
+  /** On-disk response cache settings, or `false` to always call the provider (default: enabled unless UX_PILOT_CACHE=0). */
+  cache?: ResponseCacheOptions | false;
+  /** "tool" forces native tool-use structured output instead of prompt-instructed JSON (default: UX_PILOT_STRUCTURED_OUTPUT, else "prompt"). */
+  structuredOutput?: StructuredOutputMode;
+  /** Follow-up requests that resume a response cut off at its token limit (default: UX_PILOT_MAX_CONTINUATIONS, else 2). */
+  maxContinuations?: number;
+  /** Generate large outputs (design tokens, component trees) section by section up front (default: UX_PILOT_CHUNKED). */
+  chunked?: boolean;
+  /** Per-model prices (USD per million tokens), merged over the built-in table. */
+  prices?: PriceTable;
+  /** Default hard token ceiling (input + output) for each execute() run (default: UX_PILOT_TOKEN_BUDGET, unlimited). */
+  tokenBudget?: number;
+  /** Default wall-clock limit for each execute() run, in ms (default: UX_PILOT_TIMEOUT_MS, none). */
+  timeoutMs?: number;
+  /** Capabilities available to analyzeRequest() and execute() (default: the shared registry, including loaded plugins). */
+  registry?: CapabilityRegistry;
+  /** Project profile (inline or a JSON file path) injected into every run, or `false` for none (default: UX_PILOT_PROFILE, else ./ux-pilot.profile.json if present). */
+  profile?: ProjectProfileSource;
+  /** Run history settings, or `false` to keep no history (default: enabled unless UX_PILOT_HISTORY=0). */
+  history?: RunStoreOptions | false;
+  /** Structured logger for runs, retries, and repairs (default: JSON lines on stderr at UX_PILOT_LOG_LEVEL, silent if unset). */
+  logger?: Logger;
+  /** Span exporters, or `false` for no tracing (default: from UX_PILOT_TRACE, e.g. "console,file:traces.jsonl,otlp"). */
+  tracing?: SpanExporter[] | false;
+  /** Redaction of secrets and personal data in code sent to the model, merged over the profile's `redaction`, or `false` to send code verbatim (default: on). */
+  redaction?: RedactionConfig | false;
+  /** Code and markup above this many estimated tokens is split at component / function boundaries and analyzed part by part; `0` never splits (default: UX_PILOT_INPUT_CHUNK_TOKENS, else 6000). */
+  inputChunkTokens?: number;
+}
+
+export interface ExecuteOptions {
+  /** Receives phase changes and streaming token counts while the capability runs. */
+  onEvent?: CapabilityEventSink;
+  /** Overrides UXPilotOptions.tokenBudget for this run. */
+  tokenBudget?: number;
+  /** Cancels the run; in-flight provider requests are aborted and the call rejects with CANCELLED. */
+  signal?: AbortSignal;
+  /** Overrides UXPilotOptions.timeoutMs for this run; expiry rejects with TIMEOUT. */
+  timeoutMs?: number;
+  /** Fields merged over the loaded project profile for this run, or `false` to run without one. */
+  profile?: ProjectProfile | false;
+}
+
+export interface PipelineStepEvent {
+  id: string;
+  capabilityId: string;
+  title: string;
+  /** Zero-based position of the step. */
+  index: number;
+  total: number;
+}
+
+export interface PipelineRunOptions extends ExecuteOptions {
+  /** Values for `${vars.*}` references; override the pipeline's own `vars`. */
+  vars?: Record<string, unknown>;
+  /** Called before each step starts. */
+  onStep?: (step: PipelineStepEvent) => void;
+}
+
+export interface RouteRequestOptions extends ExecuteOptions {
+  /** `llm` fails instead of falling back to keywords; `keyword` never calls the model (default: `auto`). */
+  strategy?: RouteStrategy | 'auto';
+  /** Upper bound on routed capabilities (default: 3). */
+  maxRoutes?: number;
+}
+
+export interface AskResult {
+  plan: RoutePlan;
+  /** One entry per routed capability, in plan order. */
+  results: Array<{ capabilityId: string; output: unknown }>;
+}
+
+/** Where a run came from; recorded with it in the run history. */
+interface RunOrigin {
+  rerunOf?: string;
+  refinement?: { instruction: string; previous: SessionVersion };
 }
 
 export class UXPilot {
   private readonly llm: LLMClient;
-  private readonly capabilities: Map<CapabilityId, AnyCapability> = new Map();
+  private readonly registry: CapabilityRegistry;
+  private readonly router: RequestRouter;
+  private readonly capabilities: Map<string, AnyCapability> = new Map();
+  private readonly prices: PriceTable | undefined;
+  private readonly tokenBudget: number | undefined;
+  private readonly timeoutMs: number | undefined;
+  private readonly profileSource: ProjectProfileSource | undefined;
+  private readonly history: RunStore | undefined;
+  private readonly logger: Logger;
+  private readonly tracer: Tracer | undefined;
+  private readonly redaction: RedactionConfig | false | undefined;
+  private readonly inputChunkTokens: number | undefined;
+  private profile: Promise<ProjectProfile | undefined> | undefined;
 
   constructor(options: UXPilotOptions) {
+    this.registry = options.registry ?? defaultRegistry;
+    this.profileSource = options.profile;
+    this.prices = options.prices;
+    this.tokenBudget = options.tokenBudget ?? resolveTokenBudget();
+    this.timeoutMs = options.timeoutMs ?? resolveTimeoutMs();
+    this.history = createHistory(options.history);
+    this.logger = options.logger ?? new JsonLogger();
+    this.tracer = createTracer(options.tracing);
+    this.redaction = options.redaction;
+    this.inputChunkTokens = options.inputChunkTokens ?? resolveInputChunkTokens();
+
     this.llm = new LLMClient({
       apiKey: options.apiKey,
       model: options.model,
+      provider: options.provider,
+      baseUrl: options.baseUrl,
+      localHandler: options.localHandler,
+      fixtures: options.fixtures,
+      repairAttempts: options.repairAttempts,
+      retry: options.retry,
+      maxConcurrency: options.maxConcurrency,
+      cache: options.cache,
+      structuredOutput: options.structuredOutput,
+      maxContinuations: options.maxContinuations,
+      chunked: options.chunked,
+      logger: this.logger,
     });
+    this.router = new RequestRouter(this.llm, this.registry);
+  }
+
+  /** Registered capability ids whose keywords appear in `request`, best match first. */
+  analyzeRequest(request: string): string[] {
+    return this.router.matchKeywords(request);
   }
 
-  analyzeRequest(request: string): CapabilityId[] {
-    const lower = request.toLowerCase();
-    const matches: Array<{ id: CapabilityId; score: number }> = [];
+  /**
+   * Classifies a free-form request into capabilities and extracts each one's
+   * input. Falls back to keyword scoring when the model is unavailable.
+   */
+  async route(request: string, options: RouteRequestOptions = {}): Promise<RoutePlan> {
+    const { context, usage, dispose } = await this.openRun(options, 'ux.route', { 'route.strategy': options.strategy ?? 'auto' });
+    try {
+      const plan = await this.router.route(request, {
+        strategy: options.strategy,
+        maxRoutes: options.maxRoutes,
+        context,
+      });
+      context.span?.setAttributes({ 'route.routes': plan.routes.length, 'route.strategy': plan.strategy });
+      context.onEvent?.({ type: 'phase', phase: 'complete' });
+      return { ...plan, usage: usage.report() };
+    } catch (error: unknown) {
+      const failure = context.signal?.aborted ? abortError(context.signal) : error;
+      context.span?.recordError(failure);
+      throw failure;
+    } finally {
+      await dispose();
+    }
+  }
 
-    for (const [id, keywords] of Object.entries(CAPABILITY_KEYWORDS) as Array<[CapabilityId, string[]]>) {
-      let score = 0;
-      for (const keyword of keywords) {
-        if (lower.includes(keyword)) {
-          score += keyword.split(' ').length;
-        }
-      }
-      if (score > 0) {
-        matches.push({ id, score });
-      }
+  /** Routes `request`, then runs every routed capability in order. */
+  async ask(request: string, options: RouteRequestOptions = {}): Promise<AskResult> {
+    const plan = await this.route(request, options);
+    if (plan.routes.length === 0) {
+      throw new UXPilotError(
+        'No capability matches this request',
+        'CAPABILITY_NOT_FOUND',
+        { request, available: this.registry.list().map((d) => d.id) },
+      );
     }
 
-    matches.sort((a, b) => b.score - a.score);
-    return matches.map((m) => m.id);
+    const results: AskResult['results'] = [];
+    for (const route of plan.routes) {
+      const output = await this.execute(route.capabilityId, route.input, options);
+      results.push({ capabilityId: route.capabilityId, output });
+    }
+    return { plan, results };
+  }
+
+  execute<K extends CapabilityId>(
+    capabilityId: K,
+    input: CapabilityInputMap[K],
+    options?: ExecuteOptions,
+  ): Promise<CapabilityOutputMap[K]>;
+  execute(capabilityId: string, input: unknown, options?: ExecuteOptions): Promise<unknown>;
+  async execute(
+    capabilityId: string,
+    input: unknown,
+    options: ExecuteOptions = {},
+  ): Promise<unknown> {
+    return (await this.executeRun(capabilityId, input, options)).output;
   }
 
-  async execute<K extends CapabilityId>(
+  /**
+   * Runs a capability and keeps the conversation so follow-up instructions
+   * ("make the primary palette warmer") can revise the result; see
+   * RefinementSession.refine.
+   */
+  startSession<K extends CapabilityId>(
     capabilityId: K,
     input: CapabilityInputMap[K],
-  ): Promise<CapabilityOutputMap[K]> {
-    const capability = await this.loadCapability(capabilityId);
+    options?: ExecuteOptions,
+  ): Promise<RefinementSession<CapabilityOutputMap[K]>>;
+  startSession(capabilityId: string, input: unknown, options?: ExecuteOptions): Promise<RefinementSession>;
+  async startSession(
+    capabilityId: string,
+    input: unknown,
+    options: ExecuteOptions = {},
+  ): Promise<RefinementSession> {
+    const initial = await this.executeRun(capabilityId, input, options);
+    return new RefinementSession(capabilityId, initial, this.refiner(capabilityId, input));
+  }
+
+  /** A refinement session continuing a saved run (by id or unique id prefix). */
+  async resumeSession(runId: string): Promise<RefinementSession> {
+    const run = await this.requireRun(runId);
+    const initial: SessionVersion = {
+      output: run.output,
+      instruction: run.instruction ?? null,
+      runId: run.id,
+      exchanges: run.exchanges ?? [],
+    };
+    return new RefinementSession(run.capabilityId, initial, this.refiner(run.capabilityId, run.input));
+  }
+
+  /** Saved runs, newest first; empty when history is disabled. */
+  async listRuns(options: RunListOptions = {}): Promise<RunSummary[]> {
+    return this.history ? this.history.list(options) : [];
+  }
+
+  /** A saved run by id or unique id prefix. */
+  async getRun(id: string): Promise<RunRecord | undefined> {
+    return this.history?.get(id);
+  }
+
+  /** Runs a saved run's capability again with the same input; the new run records which one it repeated. */
+  async rerun(id: string, options: ExecuteOptions = {}): Promise<unknown> {
+    const run = await this.requireRun(id);
+    return (await this.executeRun(run.capabilityId, run.input, options, { rerunOf: run.id })).output;
+  }
+
+  /**
+   * Runs pipeline steps in order, resolving each step's `${steps.*}` /
+   * `${vars.*}` references against earlier outputs. The token budget and
+   * timeout apply to the whole pipeline; the first failing step stops it.
+   */
+  async runPipeline(pipeline: PipelineDefinition, options: PipelineRunOptions = {}): Promise<PipelineResult> {
+    for (const step of pipeline.steps) {
+      if (!this.registry.has(step.capability)) {
+        throw new UXPilotError(
+          `Pipeline step "${step.id}" uses unknown capability "${step.capability}"`,
+          'CAPABILITY_NOT_FOUND',
+          { step: step.id, capabilityId: step.capability, available: this.registry.list().map((d) => d.id) },
+        );
+      }
+    }
+
+    const { context, usage, logger, dispose } = await this.openRun(options, 'ux.pipeline', {
+      'pipeline.name': pipeline.name,
+      'pipeline.steps': pipeline.steps.length,
+    });
+    const scope: PipelineScope = { vars: { ...pipeline.vars, ...options.vars }, steps: {} };
+    const results: PipelineStepResult[] = [];
+
     try {
-      return await capability.execute(input) as CapabilityOutputMap[K];
+      for (const [index, step] of pipeline.steps.entries()) {
+        const title = step.title ?? this.registry.get(step.capability)?.name ?? step.capability;
+        options.onStep?.({ id: step.id, capabilityId: step.capability, title, index, total: pipeline.steps.length });
+
+        const input = resolveReferences(step.input, scope, step.id);
+        const since = usage.callCount();
+        const startedAt = Date.now();
+        const conversation: Conversation = { exchanges: [] };
+        const prompts: PromptUse[] = [];
+        const redactor = new Redactor(context.redaction);
+        const run = await traced(
+          { ...context, conversation, prompts, redactor },
+          'pipeline.step',
+          { 'pipeline.step.id': step.id, 'capability.id': step.capability },
+          (stepContext) => this.invoke(step.capability, input, stepContext),
+        );
+        const stepUsage = usage.report(since);
+        const saved = await this.saveRun({
+          capabilityId: step.capability,
+          input: run.input,
+          output: run.output,
+          usage: stepUsage,
+          durationMs: Date.now() - startedAt,
+          pipeline: { name: pipeline.name, stepId: step.id },
+          prompts,
+          exchanges: conversation.exchanges,
+        }, redactor);
+        scope.steps[step.id] = run.output;
+        results.push({
+          id: step.id,
+          capabilityId: step.capability,
+          title,
+          input: run.input,
+          output: run.output,
+          usage: stepUsage,
+          ...(saved ? { runId: saved.id } : {}),
+          ...(prompts.length > 0 ? { prompts } : {}),
+        });
+      }
+      context.onEvent?.({ type: 'phase', phase: 'complete' });
+      const report = usage.report();
+      logger.info('Pipeline completed', { pipeline: pipeline.name, steps: results.length, totalTokens: report.totalTokens });
+
+      return {
+        name: pipeline.name,
+        steps: results,
+        markdownReport: renderPipelineReport(pipeline, results),
+        usage: report,
+      };
     } catch (error: unknown) {
+      context.span?.recordError(error);
+      logger.warn('Pipeline failed', { pipeline: pipeline.name, completedSteps: results.length, error });
+      throw error;
+    } finally {
+      await dispose();
+    }
+  }
+
+  getLLMClient(): LLMClient {
+    return this.llm;
+  }
+
+  /**
+   * Runs a capability, records its LLM exchanges and prompt versions, and
+   * saves it to the run history. Refinement runs replay the previous version's exchanges with the
+   * instruction, and their output is checked against the capability's output
+   * schema.
+   */
+  private async executeRun(
+    capabilityId: string,
+    input: unknown,
+    options: ExecuteOptions,
+    origin: RunOrigin = {},
+  ): Promise<SessionVersion> {
+    const { refinement } = origin;
+    const conversation: Conversation = refinement
+      ? { exchanges: [], refine: { instruction: refinement.instruction, previous: refinement.previous.exchanges } }
+      : { exchanges: [] };
+    const prompts: PromptUse[] = [];
+    const attributes = {
+      'capability.id': capabilityId,
+      'run.refinement': refinement !== undefined,
+      'run.rerun_of': origin.rerunOf,
+    };
+    const { context, usage, logger, dispose } = await this.openRun(options, 'ux.execute', attributes, {
+      conversation,
+      prompts,
+    });
+    try {
+      const startedAt = Date.now();
+      const run = await this.invoke(capabilityId, input, context);
+      if (refinement) {
+        this.validateOutput(capabilityId, run.output);
+      }
+      context.onEvent?.({ type: 'phase', phase: 'complete' });
+      const report = usage.report();
+      const durationMs = Date.now() - startedAt;
+      const saved = await this.saveRun({
+        capabilityId,
+        input: run.input,
+        output: run.output,
+        usage: report,
+        durationMs,
+        prompts,
+        exchanges: conversation.exchanges,
+        ...(origin.rerunOf ? { rerunOf: origin.rerunOf } : {}),
+        ...(refinement?.previous.runId ? { refinedFrom: refinement.previous.runId } : {}),
+        ...(refinement ? { instruction: refinement.instruction } : {}),
+      }, context.redactor);
+      context.span?.setAttributes({ 'run.id': saved?.id, 'usage.total_tokens': report.totalTokens });
+      logger.info('Capability run completed', {
+        capabilityId,
+        runId: saved?.id,
+        durationMs,
+        totalTokens: report.totalTokens,
+        calls: report.calls,
+      });
+      return {
+        output: isPlainObject(run.output)
+          ? {
+            ...run.output,
+            usage: report,
+            ...(saved ? { runId: saved.id } : {}),
+            ...(prompts.length > 0 ? { prompts } : {}),
+          }
+          : run.output,
+        instruction: refinement?.instruction ?? null,
+        exchanges: conversation.exchanges,
+        ...(saved ? { runId: saved.id } : {}),
+      };
+    } catch (error: unknown) {
+      context.span?.recordError(error);
+      logger.warn('Capability run failed', { capabilityId, error });
+      throw error;
+    } finally {
+      await dispose();
+    }
+  }
+
+  private refiner(capabilityId: string, input: unknown): SessionRunner<unknown> {
+    return (instruction, previous, options) => this.executeRun(
+      capabilityId,
+      input,
+      options,
+      { refinement: { instruction, previous } },
+    );
+  }
+
+  private async requireRun(id: string): Promise<RunRecord> {
+    const run = await this.getRun(id);
+    if (!run) {
+      throw new UXPilotError(
+        `No saved run with id "${id}"`,
+        'RUN_NOT_FOUND',
+        { runId: id, historyDir: this.history?.dir ?? null },
+      );
+    }
+    return run;
+  }
+
+  private validateOutput(capabilityId: string, output: unknown): void {
+    const schema = this.registry.get(capabilityId)?.outputSchema;
+    if (!schema) return;
+    const result = validate(schema, output);
+    if (!result.ok) {
+      throw new UXPilotError(
+        `Refined output of capability "${capabilityId}" is invalid: ${formatIssues(result.issues)}`,
+        'PARSE_ERROR',
+        { capabilityId, issues: result.issues },
+      );
+    }
+  }
+
+  /**
+   * Saves a run with its redactor applied to the input, output, report, and
+   * exchanges, so values kept from the model are not written to disk either;
+   * they carry the same placeholders the model saw. Rerunning or refining
+   * the saved run sends the placeholders.
+   */
+  private async saveRun(
+    run: Omit<NewRunRecord, 'markdownReport'>,
+    redactor: Redactor = new Redactor(false),
+  ): Promise<RunRecord | undefined> {
+    if (!this.history) return undefined;
+    const input = redactor.redactValue(run.input, 'input');
+    const output = redactor.redactValue(run.output, 'output');
+    const markdownReport = isPlainObject(output) && typeof output['markdownReport'] === 'string'
+      ? output['markdownReport']
+      : null;
+    const saved = await this.history.save({
+      ...run,
+      input,
+      output,
+      markdownReport,
+      ...(run.exchanges ? { exchanges: redactor.redactValue(run.exchanges, 'exchanges') } : {}),
+    });
+    if (!saved) {
+      this.logger.warn('Run could not be saved to history', { capabilityId: run.capabilityId, dir: this.history.dir });
+    }
+    return saved;
+  }
+
+  /**
+   * Per-run state: a usage tracker with the run's budget, the caller's
+   * signal combined with the run timeout, the effective project profile and
+   * redaction settings, the conversation and prompt recorders when the caller keeps them, and,
+   * with tracing on, a root span named `operation`. `dispose()` ends the
+   * span and flushes the exporters.
+   */
+  private async openRun(
+    options: ExecuteOptions,
+    operation: string,
+    attributes: SpanAttributes = {},
+    recorders: Pick<ExecutionContext, 'conversation' | 'prompts'> = {},
+  ): Promise<{
+    context: ExecutionContext;
+    usage: UsageTracker;
+    logger: Logger;
+    dispose: () => Promise<void>;
+  }> {
+    const profile = options.profile === false
+      ? undefined
+      : mergeProfiles(await this.loadProfile(), options.profile);
+    const usage = new UsageTracker({
+      prices: this.prices,
+      tokenBudget: options.tokenBudget ?? this.tokenBudget,
+    });
+    const redaction = this.redaction === false ? false : { ...profile?.redaction, ...this.redaction };
+    const redactor = new Redactor(redaction);
+    const run = createRunSignal(options.signal, options.timeoutMs ?? this.timeoutMs);
+    const span = this.tracer?.startSpan(operation, attributes);
+    const logger = span ? this.logger.child({ traceId: span.traceId }) : this.logger;
+    return {
+      context: {
+        onEvent: options.onEvent,
+        usage,
+        signal: run.signal,
+        profile,
+        redaction,
+        redactor,
+        inputChunkTokens: this.inputChunkTokens,
+        ...recorders,
+        span,
+        logger,
+      },
+      usage,
+      logger,
+      dispose: async () => {
+        run.dispose();
+        span?.end();
+        await this.tracer?.flush();
+      },
+    };
+  }
+
+  /** Loads the configured profile once; later runs reuse it. */
+  private loadProfile(): Promise<ProjectProfile | undefined> {
+    this.profile ??= resolveProjectProfile(this.profileSource);
+    return this.profile;
+  }
+
+  /**
+   * Applies profile defaults and validates input, then runs the capability
+   * under `context`, normalizing aborts and foreign errors. Returns the input
+   * the capability actually received alongside its output.
+   */
+  private async invoke(
+    capabilityId: string,
+    input: unknown,
+    context: ExecutionContext,
+  ): Promise<{ input: unknown; output: unknown }> {
+    const definition = this.registry.get(capabilityId);
+    const prepared = definition?.applyProfile && context.profile
+      ? definition.applyProfile(input, context.profile)
+      : input;
+    // A rerun's saved input may already hold placeholders; new ones are numbered past them.
+    context.redactor?.reservePlaceholders(JSON.stringify(prepared) ?? '');
+    if (definition?.inputSchema) {
+      const result = validate(definition.inputSchema, prepared);
+      if (!result.ok) {
+        throw new UXPilotError(
+          `Invalid input for capability "${capabilityId}": ${formatIssues(result.issues)}`,
+          'INVALID_INPUT',
+          { capabilityId, issues: result.issues },
+        );
+      }
+    }
+
+    const capability = await traced(
+      context,
+      'capability.load',
+      { 'capability.id': capabilityId, 'capability.cached': this.capabilities.has(capabilityId) },
+      () => this.loadCapability(capabilityId),
+    );
+    try {
+      const output = await traced(
+        context,
+        'capability.execute',
+        { 'capability.id': capabilityId },
+        (capabilityContext) => capability.execute(prepared, capabilityContext),
+      );
+      return { input: prepared, output };
+    } catch (error: unknown) {
+      if (context.signal?.aborted) {
+        throw abortError(context.signal);
+      }
       if (error instanceof UXPilotError) {
         throw error;
       }
@@ -102,38 +648,23 @@ export class UXPilot {
     }
   }
 
-  getLLMClient(): LLMClient {
-    return this.llm;
-  }
-
-  private async loadCapability(id: CapabilityId): Promise<AnyCapability> {
+  private async loadCapability(id: string): Promise<AnyCapability> {
     const cached = this.capabilities.get(id);
     if (cached) {
       return cached;
     }
 
-    const modulePath = CAPABILITY_MODULES[id];
-    const exportName = CAPABILITY_EXPORTS[id];
-    if (!modulePath || !exportName) {
+    const definition = this.registry.get(id);
+    if (!definition) {
       throw new UXPilotError(
         `Unknown capability: ${id}`,
         'CAPABILITY_NOT_FOUND',
-        { capabilityId: id },
+        { capabilityId: id, available: this.registry.list().map((d) => d.id) },
       );
     }
 
     try {
-      const mod = await import(modulePath) as Record<string, unknown>;
-      const CapClass = mod[exportName] as new (llm: LLMClient) => AnyCapability;
-      if (typeof CapClass !== 'function') {
-        throw new UXPilotError(
-          `Capability module "${id}" does not export class "${exportName}"`,
-          'CAPABILITY_NOT_FOUND',
-          { modulePath, exportName },
-        );
-      }
-
-      const instance = new CapClass(this.llm);
+      const instance = await definition.create(this.llm);
       this.capabilities.set(id, instance);
       return instance;
     } catch (error: unknown) {
@@ -144,8 +675,37 @@ export class UXPilot {
       throw new UXPilotError(
         `Failed to load capability "${id}": ${message}`,
         'CAPABILITY_NOT_FOUND',
-        { modulePath, originalError: message },
+        { capabilityId: id, originalError: message },
       );
     }
   }
 }
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function createHistory(history: RunStoreOptions | false | undefined): RunStore | undefined {
+  if (history === false) {
+    return undefined;
+  }
+  if (history === undefined && ['0', 'false', 'off'].includes(process.env['UX_PILOT_HISTORY'] ?? '')) {
+    return undefined;
+  }
+  return new RunStore(history);
+}
+
+function createTracer(tracing: SpanExporter[] | false | undefined): Tracer | undefined {
+  const exporters = tracing === false ? [] : tracing ?? createTraceExporters();
+  return exporters.length > 0 ? new Tracer(exporters) : undefined;
+}
+
+function resolveTokenBudget(): number | undefined {
+  const fromEnv = Number(process.env['UX_PILOT_TOKEN_BUDGET']);
+  return Number.isInteger(fromEnv) && fromEnv > 0 ? fromEnv : undefined;
+}
+
+function resolveTimeoutMs(): number | undefined {
+  const fromEnv = Number(process.env['UX_PILOT_TIMEOUT_MS']);
+  return Number.isFinite(fromEnv) && fromEnv > 0 ? fromEnv : undefined;
+}
@@ -0,0 +1,497 @@
+/**
+ * @file mobile-exporters.ts
+ * @description Design token exporters for native apps — Swift (UIKit / SwiftUI), Android XML resources, and Jetpack Compose
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import type { ColorScale, DesignTokens, TypographyToken } from '../core/types.js';
+import type { RgbColor } from '../knowledge/color-math.js';
+import { parseHex } from '../knowledge/color-math.js';
+import type { ExportedFile, ShadowLayer } from './token-tree.js';
+import {
+  codeIdentifier,
+  cssLengthToPx,
+  flattenTokens,
+  formatNumber,
+  GENERATED_NOTICE,
+  keyShadowLayer,
+  primaryFontFamily,
+  ROOT_FONT_SIZE_PX,
+  shadowElevation,
+  tokenName,
+} from './token-tree.js';
+
+/** Swift `Font.Weight` / `UIFont.Weight` case for each CSS weight. */
+const SWIFT_WEIGHTS: Readonly<Record<number, string>> = {
+  100: 'ultraLight',
+  200: 'thin',
+  300: 'light',
+  400: 'regular',
+  500: 'medium',
+  600: 'semibold',
+  700: 'bold',
+  800: 'heavy',
+  900: 'black',
+};
+
+const SWIFT_KEYWORDS: ReadonlySet<string> = new Set([
+  'default', 'extension', 'import', 'init', 'internal', 'private', 'public', 'return', 'self', 'static', 'struct', 'super', 'Type',
+]);
+
+/** Material 3 typography roles and the type-scale step each uses. */
+const MATERIAL_TYPE_ROLES: ReadonlyArray<[role: string, step: string]> = [
+  ['displayLarge', 'display'],
+  ['displayMedium', '5xl'],
+  ['displaySmall', '4xl'],
+  ['headlineLarge', '3xl'],
+  ['headlineMedium', '2xl'],
+  ['headlineSmall', 'xl'],
+  ['titleLarge', 'lg'],
+  ['titleMedium', 'base'],
+  ['titleSmall', 'sm'],
+  ['bodyLarge', 'base'],
+  ['bodyMedium', 'sm'],
+  ['bodySmall', 'xs'],
+  ['labelLarge', 'sm'],
+  ['labelMedium', 'xs'],
+  ['labelSmall', 'xs'],
+];
+
+/** Material 3 shape sizes and the border radius each uses. */
+const MATERIAL_SHAPE_ROLES: ReadonlyArray<[role: string, radius: string]> = [
+  ['extraSmall', 'sm'],
+  ['small', 'md'],
+  ['medium', 'lg'],
+  ['large', 'xl'],
+  ['extraLarge', '2xl'],
+];
+
+/** A type-scale step in points / sp. */
+interface TextMetrics {
+  name: string;
+  size: number;
+  weight: number;
+  lineHeight: number;
+  /** Fraction of the font size, as Android and Compose take it. */
+  letterSpacingEm: number;
+  /** A custom family to bundle, if the stack names one. */
+  fontName?: string;
+  generic: 'sans-serif' | 'serif' | 'monospace';
+}
+
+/** A named length in points / dp. */
+interface Dimension {
+  name: string;
+  value: number;
+}
+
+interface ShadowColor {
+  rgb: RgbColor;
+  alpha: number;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  iOS                                                                       */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * `ios/DesignTokens.swift`: `UIColor` and SwiftUI `Color` extensions, a
+ * `DesignTextStyle` per type-scale step (with `font` / `uiFont`), spacing,
+ * radius, and breakpoint constants in points, and `DesignShadow` values for
+ * `.designShadow(_:)`. 1rem is 16pt; CSS shadows map to their key layer, with
+ * the blur halved to SwiftUI's shadow radius.
+ */
+export function toSwift(tokens: DesignTokens): ExportedFile[] {
+  const colors = colorTokens(tokens);
+  const lines = [
+    `// ${GENERATED_NOTICE}`,
+    '',
+    'import SwiftUI',
+    'import UIKit',
+    '',
+    '// MARK: - Colors',
+    '',
+    'public extension UIColor {',
+    ...colors.map(({ family, shade, hex }) => {
+      const rgb = parseHex(hex) ?? { r: 0, g: 0, b: 0 };
+      return `    static let ${swiftName(`${family}-${shade}`, family)} = UIColor(${swiftRgb(rgb)}, alpha: 1) // ${hex}`;
+    }),
+    '}',
+    '',
+    'public extension Color {',
+    ...colors.map(({ family, shade }) => {
+      const name = swiftName(`${family}-${shade}`, family);
+      return `    static let ${name} = Color(uiColor: .${name})`;
+    }),
+    '}',
+    '',
+    '// MARK: - Typography',
+    '',
+    'public struct DesignTextStyle {',
+    '    /// PostScript name of a bundled font; nil uses the system font.',
+    '    public let fontName: String?',
+    '    public let size: CGFloat',
+    '    public let weight: Font.Weight',
+    '    public let uiWeight: UIFont.Weight',
+    '    public let lineHeight: CGFloat',
+    '    public let kerning: CGFloat',
+    '',
+    '    public var font: Font {',
+    '        fontName.map { Font.custom($0, size: size).weight(weight) } ?? .system(size: size, weight: weight)',
+    '    }',
+    '',
+    '    public var uiFont: UIFont {',
+    '        fontName.flatMap { UIFont(name: $0, size: size) } ?? .systemFont(ofSize: size, weight: uiWeight)',
+    '    }',
+    '',
+    '    /// Extra leading for SwiftUI\'s `lineSpacing(_:)` to reach `lineHeight`.',
+    '    public var lineSpacing: CGFloat { max(0, lineHeight - uiFont.lineHeight) }',
+    '}',
+    '',
+    'public extension DesignTextStyle {',
+    ...textMetrics(tokens.typography).map((text) => {
+      const weight = SWIFT_WEIGHTS[Math.min(900, Math.max(100, Math.round(text.weight / 100) * 100))] ?? 'regular';
+      const fontName = text.fontName ? JSON.stringify(text.fontName) : 'nil';
+      return `    static let ${swiftName(text.name, 'text')} = DesignTextStyle(fontName: ${fontName}, size: ${formatNumber(text.size)}, `
+        + `weight: .${weight}, uiWeight: .${weight}, lineHeight: ${formatNumber(text.lineHeight)}, `
+        + `kerning: ${formatNumber(text.letterSpacingEm * text.size)})`;
+    }),
+    '}',
+    '',
+    '// MARK: - Spacing, radii, breakpoints',
+    '',
+    ...swiftConstants('DesignSpacing', 'spacing', dimensions(tokens.spacing)),
+    ...swiftConstants('DesignRadius', 'radius', dimensions(tokens.borderRadii)),
+    ...swiftConstants('DesignBreakpoint', 'breakpoint', dimensions(tokens.breakpoints)),
+    '// MARK: - Shadows',
+    '',
+    'public struct DesignShadow {',
+    '    public let color: Color',
+    '    public let radius: CGFloat',
+    '    public let x: CGFloat',
+    '    public let y: CGFloat',
+    '}',
+    '',
+    'public extension DesignShadow {',
+    ...tokens.shadows.map((shadow) => {
+      const layer = keyShadowLayer(shadow.value);
+      const color = layer ? parseShadowColor(layer.color) : undefined;
+      if (!layer || !color) return `    // ${shadow.name}: ${shadow.value} (inset or unparseable; no SwiftUI equivalent)`;
+      return `    /// ${shadow.value}\n    static let ${swiftName(shadow.name, 'shadow')} = DesignShadow(`
+        + `color: Color(.sRGB, ${swiftRgb(color.rgb)}, opacity: ${formatNumber(color.alpha)}), `
+        + `radius: ${formatNumber(layerLength(layer, 'blur') / 2)}, `
+        + `x: ${formatNumber(layerLength(layer, 'offsetX'))}, y: ${formatNumber(layerLength(layer, 'offsetY'))})`;
+    }),
+    '}',
+    '',
+    'public extension View {',
+    '    func designShadow(_ shadow: DesignShadow) -> some View {',
+    '        self.shadow(color: shadow.color, radius: shadow.radius, x: shadow.x, y: shadow.y)',
+    '    }',
+    '}',
+    '',
+  ];
+  return [{ path: 'ios/DesignTokens.swift', content: lines.join('\n') }];
+}
+
+function swiftConstants(type: string, prefix: string, values: readonly Dimension[]): string[] {
+  if (values.length === 0) return [];
+  return [
+    `public enum ${type} {`,
+    ...values.map(({ name, value }) => `    public static let ${swiftName(name, prefix)}: CGFloat = ${formatNumber(value)}`),
+    '}',
+    '',
+  ];
+}
+
+function swiftName(name: string, prefix: string): string {
+  const identifier = codeIdentifier(name, prefix);
+  return SWIFT_KEYWORDS.has(identifier) ? `\`${identifier}\`` : identifier;
+}
+
+function swiftRgb(rgb: RgbColor): string {
+  const channel = (value: number): string => String(Math.round((value / 255) * 1000) / 1000);
+  return `red: ${channel(rgb.r)}, green: ${channel(rgb.g)}, blue: ${channel(rgb.b)}`;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Android resources                                                         */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * `android/res/values/` resources: `colors.xml`, `dimens.xml` (spacing,
+ * radii, breakpoints and shadow elevations in dp, text sizes in sp), and
+ * `type.xml` with a `TextAppearance.DesignTokens.*` style per step.
+ * Shadows become Material elevations, since views cast one system shadow.
+ */
+export function toAndroidResources(tokens: DesignTokens): ExportedFile[] {
+  const texts = textMetrics(tokens.typography);
+
+  const colors = colorTokens(tokens).map(({ family, shade, hex }) => (
+    `    <color name="${tokenName([family, shade], '_')}">${hex}</color>`
+  ));
+
+  const dimens = [
+    ...dimensions(tokens.spacing).map(({ name, value }) => androidDimen(['spacing', name], `${formatNumber(value)}dp`)),
+    ...dimensions(tokens.borderRadii).map(({ name, value }) => androidDimen(['radius', name], `${formatNumber(value)}dp`)),
+    ...dimensions(tokens.breakpoints).map(({ name, value }) => androidDimen(['breakpoint', name], `${formatNumber(value)}dp`)),
+    ...tokens.shadows
+      .filter((shadow) => keyShadowLayer(shadow.value))
+      .map((shadow) => androidDimen(['elevation', shadow.name], `${shadowElevation(shadow.value)}dp`)),
+    ...texts.map((text) => androidDimen(['text', 'size', text.name], `${formatNumber(text.size)}sp`)),
+  ];
+
+  const styles = texts.flatMap((text) => [
+    `    <style name="TextAppearance.DesignTokens.${codeIdentifier(text.name, 'Text', true)}">`,
+    `        <item name="android:textSize">@dimen/${tokenName(['text', 'size', text.name], '_')}</item>`,
+    `        <item name="android:textFontWeight">${text.weight}</item>`,
+    `        <item name="android:lineHeight">${formatNumber(text.lineHeight)}sp</item>`,
+    `        <item name="android:letterSpacing">${formatNumber(text.letterSpacingEm)}</item>`,
+    text.fontName
+      ? `        <item name="android:fontFamily">${text.generic}</item> <!-- ${text.fontName}: add it under res/font and use @font/… -->`
+      : `        <item name="android:fontFamily">${text.generic}</item>`,
+    '    </style>',
+  ]);
+
+  return [
+    { path: 'android/res/values/colors.xml', content: androidResources(colors) },
+    { path: 'android/res/values/dimens.xml', content: androidResources(dimens) },
+    {
+      path: 'android/res/values/type.xml',
+      content: androidResources([
+        '    <!-- textFontWeight and lineHeight need API 28+ -->',
+        '    <style name="TextAppearance.DesignTokens" parent="android:TextAppearance" />',
+        ...styles,
+      ]),
+    },
+  ];
+}
+
+function androidDimen(path: readonly string[], value: string): string {
+  return `    <dimen name="${tokenName(path, '_')}">${value}</dimen>`;
+}
+
+function androidResources(entries: readonly string[]): string {
+  return ['<?xml version="1.0" encoding="utf-8"?>', `<!-- ${GENERATED_NOTICE} -->`, '<resources>', ...entries, '</resources>', ''].join('\n');
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Jetpack Compose                                                           */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * `compose/DesignTokens.kt`: `DesignColors`, `DesignTypography`, spacing,
+ * radius, elevation and breakpoint objects, plus a Material 3 color scheme,
+ * typography, and shapes wired into `DesignTokensTheme { … }`. Shadows
+ * become elevations in dp, as in the Android resources.
+ */
+export function toCompose(tokens: DesignTokens): ExportedFile[] {
+  const texts = textMetrics(tokens.typography);
+  const colors = colorTokens(tokens);
+  const radii = dimensions(tokens.borderRadii);
+  const textNames = new Set(texts.map((text) => text.name));
+  const radiusNames = new Set(radii.map((radius) => radius.name));
+
+  const fontFamilies = new Map<string, TextMetrics>();
+  for (const text of texts) {
+    fontFamilies.set(composeFontName(text), text);
+  }
+
+  const lines = [
+    `// ${GENERATED_NOTICE}`,
+    '',
+    'package designtokens',
+    '',
+    'import androidx.compose.foundation.shape.RoundedCornerShape',
+    'import androidx.compose.material3.MaterialTheme',
+    'import androidx.compose.material3.Shapes',
+    'import androidx.compose.material3.Typography',
+    'import androidx.compose.material3.lightColorScheme',
+    'import androidx.compose.runtime.Composable',
+    'import androidx.compose.ui.graphics.Color',
+    'import androidx.compose.ui.text.TextStyle',
+    'import androidx.compose.ui.text.font.FontFamily',
+    'import androidx.compose.ui.text.font.FontWeight',
+    'import androidx.compose.ui.unit.dp',
+    'import androidx.compose.ui.unit.em',
+    'import androidx.compose.ui.unit.sp',
+    '',
+    'object DesignColors {',
+    ...colors.map(({ family, shade, hex }) => (
+      `    val ${codeIdentifier(`${family}-${shade}`, family, true)} = Color(0xFF${hex.slice(1).toUpperCase()})`
+    )),
+    '}',
+    '',
+    'object DesignFonts {',
+    ...[...fontFamilies].map(([name, text]) => {
+      const generic = { 'sans-serif': 'SansSerif', 'serif': 'Serif', 'monospace': 'Monospace' }[text.generic];
+      const note = text.fontName ? ` // ${text.fontName}: bundle it and use FontFamily(Font(R.font.…))` : '';
+      return `    val ${name}: FontFamily = FontFamily.${generic}${note}`;
+    }),
+    '}',
+    '',
+    'object DesignTypography {',
+    ...texts.map((text) => (
+      `    val ${codeIdentifier(text.name, 'Text', true)} = TextStyle(fontFamily = DesignFonts.${composeFontName(text)}, `
+      + `fontWeight = FontWeight.W${Math.min(900, Math.max(100, Math.round(text.weight / 100) * 100))}, `
+      + `fontSize = ${formatNumber(text.size)}.sp, lineHeight = ${formatNumber(text.lineHeight)}.sp, `
+      + `letterSpacing = ${formatNumber(text.letterSpacingEm)}.em)`
+    )),
+    '}',
+    '',
+    ...composeDimensions('DesignSpacing', 'Spacing', dimensions(tokens.spacing)),
+    ...composeDimensions('DesignRadius', 'Radius', radii),
+    ...composeDimensions('DesignElevation', 'Elevation', tokens.shadows
+      .filter((shadow) => keyShadowLayer(shadow.value))
+      .map((shadow) => ({ name: shadow.name, value: shadowElevation(shadow.value) }))),
+    ...composeDimensions('DesignBreakpoints', 'Breakpoint', dimensions(tokens.breakpoints)),
+    'val DesignColorScheme = lightColorScheme(',
+    ...colorSchemeEntries(tokens).map(([role, value]) => `    ${role} = ${value},`),
+    ')',
+    '',
+    'val DesignMaterialTypography = Typography(',
+    ...MATERIAL_TYPE_ROLES
+      .filter(([, step]) => textNames.has(step))
+      .map(([role, step]) => `    ${role} = DesignTypography.${codeIdentifier(step, 'Text', true)},`),
+    ')',
+    '',
+    'val DesignShapes = Shapes(',
+    ...MATERIAL_SHAPE_ROLES
+      .filter(([, radius]) => radiusNames.has(radius))
+      .map(([role, radius]) => `    ${role} = RoundedCornerShape(DesignRadius.${codeIdentifier(radius, 'Radius', true)}),`),
+    ')',
+    '',
+    '@Composable',
+    'fun DesignTokensTheme(content: @Composable () -> Unit) {',
+    '    MaterialTheme(',
+    '        colorScheme = DesignColorScheme,',
+    '        typography = DesignMaterialTypography,',
+    '        shapes = DesignShapes,',
+    '        content = content,',
+    '    )',
+    '}',
+    '',
+  ];
+  return [{ path: 'compose/DesignTokens.kt', content: lines.join('\n') }];
+}
+
+function composeDimensions(object: string, prefix: string, values: readonly Dimension[]): string[] {
+  if (values.length === 0) return [];
+  return [
+    `object ${object} {`,
+    ...values.map(({ name, value }) => `    val ${codeIdentifier(name, prefix, true)} = ${formatNumber(value)}.dp`),
+    '}',
+    '',
+  ];
+}
+
+/** `DesignFonts` member for a step: the family to bundle (`InterDisplay`) or the generic one (`SansSerif`). */
+function composeFontName(text: TextMetrics): string {
+  return codeIdentifier((text.fontName ?? text.generic).replace(/[^a-z0-9]+/gi, '-'), 'Font', true);
+}
+
+/**
+ * Material 3 roles from the scales: 600 fills with 100 / 900 containers,
+ * white surfaces with neutral text and outlines. `on*` colors are white when
+ * it reaches AA on the fill, otherwise the darkest neutral.
+ */
+function colorSchemeEntries(tokens: DesignTokens): Array<[role: string, value: string]> {
+  const darkest = tokens.colors.neutral.stops[tokens.colors.neutral.stops.length - 1];
+  const onDark = darkest ? composeColorRef('neutral', darkest.shade) : 'Color.Black';
+  const entries: Array<[string, string]> = [];
+
+  const fill = (role: string, family: string, scale: ColorScale): void => {
+    const main = scale.stops.find((stop) => stop.shade === 600);
+    if (main) {
+      entries.push([role, composeColorRef(family, 600)]);
+      entries.push([`on${capitalize(role)}`, main.contrastOnWhite >= 4.5 ? 'Color.White' : onDark]);
+    }
+    if (scale.stops.some((stop) => stop.shade === 100)) entries.push([`${role}Container`, composeColorRef(family, 100)]);
+    if (scale.stops.some((stop) => stop.shade === 900)) entries.push([`on${capitalize(role)}Container`, composeColorRef(family, 900)]);
+  };
+  fill('primary', 'primary', tokens.colors.primary);
+  fill('secondary', 'secondary', tokens.colors.secondary);
+  fill('error', 'error', tokens.colors.semantic.error);
+
+  const neutral = (role: string, shade: number): void => {
+    if (tokens.colors.neutral.stops.some((stop) => stop.shade === shade)) entries.push([role, composeColorRef('neutral', shade)]);
+  };
+  entries.push(['background', 'Color.White'], ['surface', 'Color.White']);
+  neutral('onBackground', 900);
+  neutral('onSurface', 900);
+  neutral('surfaceVariant', 100);
+  neutral('onSurfaceVariant', 700);
+  neutral('outline', 500);
+  neutral('outlineVariant', 200);
+  return entries;
+}
+
+function composeColorRef(family: string, shade: number): string {
+  return `DesignColors.${codeIdentifier(`${family}-${shade}`, family, true)}`;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Helpers                                                                   */
+/* -------------------------------------------------------------------------- */
+
+function colorTokens(tokens: DesignTokens): Array<{ family: string; shade: string; hex: string }> {
+  return flattenTokens(tokens).flatMap((token) => {
+    const [category, family, shade] = token.path;
+    return category === 'color' && family && shade ? [{ family, shade, hex: String(token.value) }] : [];
+  });
+}
+
+/** Named CSS lengths in points / dp; values that do not convert (`%`, `calc()`) are left out. */
+function dimensions(values: ReadonlyArray<{ name: string; value: string }>): Dimension[] {
+  return values.flatMap(({ name, value }) => {
+    const px = cssLengthToPx(value);
+    return px === undefined ? [] : [{ name, value: px }];
+  });
+}
+
+/**
+ * Type-scale steps in points / sp. Unitless line heights multiply the font
+ * size; letter spacing becomes a fraction of it.
+ */
+function textMetrics(typography: readonly TypographyToken[]): TextMetrics[] {
+  return typography.map((step) => {
+    const size = cssLengthToPx(step.fontSize) ?? ROOT_FONT_SIZE_PX;
+    const multiplier = Number(step.lineHeight);
+    const lineHeight = step.lineHeight.trim() !== '' && Number.isFinite(multiplier)
+      ? multiplier * size
+      : cssLengthToPx(step.lineHeight, size) ?? size;
+    const { family, generic } = primaryFontFamily(step.fontFamily);
+    return {
+      name: step.name,
+      size,
+      weight: step.fontWeight,
+      lineHeight,
+      letterSpacingEm: (cssLengthToPx(step.letterSpacing, size) ?? 0) / size,
+      ...(family ? { fontName: family } : {}),
+      generic,
+    };
+  });
+}
+
+function layerLength(layer: ShadowLayer, field: 'offsetX' | 'offsetY' | 'blur'): number {
+  return cssLengthToPx(layer[field]) ?? 0;
+}
+
+/** `rgba(0, 0, 0, 0.1)`, `rgb(…)`, or a hex. */
+function parseShadowColor(value: string): ShadowColor | undefined {
+  const hex = parseHex(value);
+  if (hex) return { rgb: hex, alpha: 1 };
+  const match = /^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)$/i.exec(value.trim());
+  if (!match) return undefined;
+  const alpha = match[4] === undefined
+    ? 1
+    : match[4].endsWith('%') ? Number.parseFloat(match[4]) / 100 : Number.parseFloat(match[4]);
+  return { rgb: { r: Number(match[1]), g: Number(match[2]), b: Number(match[3]) }, alpha };
+}
@@ -0,0 +1,83 @@
+/**
+ * @file token-exporters.ts
+ * @description Design token export formats and the entry point that writes DesignTokens in any of them
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import type { DesignSystemInput, DesignTokens } from '../core/types.js';
+import { UXPilotError } from '../core/types.js';
+import { toAndroidResources, toCompose, toSwift } from './mobile-exporters.js';
+import type { ExportedFile } from './token-tree.js';
+import { toCssVariables, toDtcg, toScssMaps, toStyleDictionary, toTailwindPreset } from './web-exporters.js';
+
+export const TOKEN_EXPORT_FORMATS = ['dtcg', 'css', 'scss', 'tailwind', 'style-dictionary', 'ios', 'android', 'compose'] as const;
+
+export type TokenExportFormat = typeof TOKEN_EXPORT_FORMATS[number];
+
+const WEB_FORMATS: readonly TokenExportFormat[] = ['dtcg', 'css', 'scss', 'tailwind', 'style-dictionary'];
+const MOBILE_FORMATS: readonly TokenExportFormat[] = ['ios', 'android', 'compose'];
+
+/** Format groups accepted wherever format names are. */
+const FORMAT_GROUPS: ReadonlyMap<string, readonly TokenExportFormat[]> = new Map([
+  ['all', TOKEN_EXPORT_FORMATS],
+  ['web', WEB_FORMATS],
+  ['mobile', MOBILE_FORMATS],
+]);
+
+const EXPORTERS: Readonly<Record<TokenExportFormat, (tokens: DesignTokens) => ExportedFile[]>> = {
+  'dtcg': toDtcg,
+  'css': toCssVariables,
+  'scss': toScssMaps,
+  'tailwind': toTailwindPreset,
+  'style-dictionary': toStyleDictionary,
+  'ios': toSwift,
+  'android': toAndroidResources,
+  'compose': toCompose,
+};
+
+/** The files for each format, in the order given (duplicates ignored). */
+export function exportTokens(tokens: DesignTokens, formats: readonly TokenExportFormat[]): ExportedFile[] {
+  return [...new Set(formats)].flatMap((format) => EXPORTERS[format](tokens));
+}
+
+/**
+ * Formats from CLI or tool arguments: names, comma-separated lists, or the
+ * groups `all`, `web`, and `mobile`. Unknown names fail with INVALID_INPUT.
+ */
+export function parseTokenExportFormats(values: string | readonly string[]): TokenExportFormat[] {
+  const names = (typeof values === 'string' ? [values] : values)
+    .flatMap((value) => value.split(','))
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const formats = names.flatMap((name): TokenExportFormat[] => {
+    const group = FORMAT_GROUPS.get(name);
+    if (group) return [...group];
+    if (isTokenExportFormat(name)) return [name];
+    throw new UXPilotError(
+      `Unknown token export format: ${name} (supported: ${TOKEN_EXPORT_FORMATS.join(', ')}, ${[...FORMAT_GROUPS.keys()].join(', ')})`,
+      'INVALID_INPUT',
+      { field: 'format', received: name, supported: TOKEN_EXPORT_FORMATS },
+    );
+  });
+  return [...new Set(formats)];
+}
+
+/** The formats a design system's target platform calls for: native for `mobile`, everything for `both`, web otherwise. */
+export function platformTokenExportFormats(platform: DesignSystemInput['targetPlatform'] | undefined): TokenExportFormat[] {
+  switch (platform) {
+    case 'mobile':
+      return [...MOBILE_FORMATS];
+    case 'both':
+      return [...TOKEN_EXPORT_FORMATS];
+    default:
+      return [...WEB_FORMATS];
+  }
+}
+
+function isTokenExportFormat(value: string): value is TokenExportFormat {
+  return (TOKEN_EXPORT_FORMATS as readonly string[]).includes(value);
+}
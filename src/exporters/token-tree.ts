@@ -0,0 +1,260 @@
+/**
+ * @file token-tree.ts
+ * @description Flat, format-neutral view of DesignTokens shared by the token exporters
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import type { DesignTokens, TypographyToken } from '../core/types.js';
+import { STANDARD_SHADOWS } from '../knowledge/design-tokens.js';
+
+export const GENERATED_NOTICE = 'Generated by UX Pilot from design-system tokens. Do not edit by hand.';
+
+/** One file an exporter produces. */
+export interface ExportedFile {
+  /** Relative to the export directory, `/`-separated, e.g. `style-dictionary/tokens/color.json`. */
+  path: string;
+  content: string;
+}
+
+/** DTCG token types (https://tr.designtokens.org/format/). */
+export type TokenType = 'color' | 'dimension' | 'fontFamily' | 'fontWeight' | 'number' | 'shadow';
+
+export interface FlatToken {
+  /** e.g. `['color', 'primary', '500']`, `['font', 'size', 'xl']`, `['spacing', '0.5']` */
+  path: string[];
+  type: TokenType;
+  value: string | number;
+}
+
+export type FontRole = 'body' | 'heading' | 'mono';
+
+/** CSS pixels per rem; one CSS px is one iOS point and one Android dp. */
+export const ROOT_FONT_SIZE_PX = 16;
+
+const GENERIC_FAMILIES: Readonly<Record<string, 'sans-serif' | 'serif' | 'monospace'>> = {
+  'system-ui': 'sans-serif',
+  '-apple-system': 'sans-serif',
+  'blinkmacsystemfont': 'sans-serif',
+  'segoe ui': 'sans-serif',
+  'roboto': 'sans-serif',
+  'helvetica neue': 'sans-serif',
+  'arial': 'sans-serif',
+  'sans-serif': 'sans-serif',
+  'ui-sans-serif': 'sans-serif',
+  'serif': 'serif',
+  'ui-serif': 'serif',
+  'monospace': 'monospace',
+  'ui-monospace': 'monospace',
+  'sfmono-regular': 'monospace',
+  'menlo': 'monospace',
+  'consolas': 'monospace',
+};
+
+export interface ShadowLayer {
+  inset: boolean;
+  offsetX: string;
+  offsetY: string;
+  blur: string;
+  spread: string;
+  color: string;
+}
+
+/**
+ * Every token in a fixed order: colors (primary, secondary, neutral, then
+ * status colors), font families by role, per-step font size / weight / line
+ * height / letter spacing, spacing, breakpoints, shadows, and radii.
+ */
+export function flattenTokens(tokens: DesignTokens): FlatToken[] {
+  const families = [
+    ['primary', tokens.colors.primary],
+    ['secondary', tokens.colors.secondary],
+    ['neutral', tokens.colors.neutral],
+    ...Object.entries(tokens.colors.semantic),
+  ] as const;
+
+  return [
+    ...families.flatMap(([family, scale]) => scale.stops.map((stop): FlatToken => ({
+      path: ['color', family, String(stop.shade)],
+      type: 'color',
+      value: stop.hex.toLowerCase(),
+    }))),
+    ...fontRoles(tokens.typography).map(({ role, stack }): FlatToken => ({
+      path: ['font', 'family', role],
+      type: 'fontFamily',
+      value: stack,
+    })),
+    ...tokens.typography.flatMap((step): FlatToken[] => [
+      { path: ['font', 'size', step.name], type: 'dimension', value: step.fontSize },
+      { path: ['font', 'weight', step.name], type: 'fontWeight', value: step.fontWeight },
+      { path: ['font', 'line-height', step.name], type: 'number', value: step.lineHeight },
+      { path: ['font', 'letter-spacing', step.name], type: 'dimension', value: step.letterSpacing },
+    ]),
+    ...tokens.spacing.map((step): FlatToken => ({ path: ['spacing', step.name], type: 'dimension', value: step.value })),
+    ...tokens.breakpoints.map((bp): FlatToken => ({ path: ['breakpoint', bp.name], type: 'dimension', value: bp.value })),
+    ...tokens.shadows.map((shadow): FlatToken => ({ path: ['shadow', shadow.name], type: 'shadow', value: shadow.value })),
+    ...tokens.borderRadii.map((radius): FlatToken => ({ path: ['radius', radius.name], type: 'dimension', value: radius.value })),
+  ];
+}
+
+/**
+ * Font stacks by role. Typography tokens carry a family per step; body is
+ * the `base` step's (else the first), heading the largest non-mono step's,
+ * and mono the `mono` step's when there is one.
+ */
+export function fontRoles(typography: readonly TypographyToken[]): Array<{ role: FontRole; stack: string }> {
+  const text = typography.filter((step) => step.name !== 'mono');
+  const body = typography.find((step) => step.name === 'base') ?? text[0];
+  const heading = text[text.length - 1];
+  const mono = typography.find((step) => step.name === 'mono');
+
+  const roles: Array<{ role: FontRole; stack: string }> = [];
+  if (body) roles.push({ role: 'body', stack: body.fontFamily });
+  if (heading) roles.push({ role: 'heading', stack: heading.fontFamily });
+  if (mono) roles.push({ role: 'mono', stack: mono.fontFamily });
+  return roles;
+}
+
+/** The role whose stack a typography step uses (body first when several match). */
+export function fontRoleOf(step: TypographyToken, typography: readonly TypographyToken[]): FontRole | undefined {
+  if (step.name === 'mono') return 'mono';
+  return fontRoles(typography).find((entry) => entry.stack === step.fontFamily)?.role;
+}
+
+/**
+ * The first family of a stack that is not a system or generic font (the one
+ * to bundle), and the generic fallback the stack ends in.
+ */
+export function primaryFontFamily(stack: string): { family?: string; generic: 'sans-serif' | 'serif' | 'monospace' } {
+  const families = splitFontStack(stack);
+  const generic = families.map((family) => GENERIC_FAMILIES[family.toLowerCase()]).find(Boolean) ?? 'sans-serif';
+  const custom = families.find((family) => !GENERIC_FAMILIES[family.toLowerCase()]);
+  return custom ? { family: custom, generic } : { generic };
+}
+
+/**
+ * A CSS length in px (= pt / dp): `rem` at 16px, `em` relative to
+ * `fontSizePx`, unitless `0`. Undefined for anything else (`%`, `calc()`).
+ */
+export function cssLengthToPx(value: string, fontSizePx: number = ROOT_FONT_SIZE_PX): number | undefined {
+  const match = /^(-?\d*\.?\d+)(px|rem|em)?$/.exec(value.trim());
+  if (!match?.[1]) return undefined;
+  const amount = Number.parseFloat(match[1]);
+  switch (match[2]) {
+    case 'px':
+      return amount;
+    case 'rem':
+      return amount * ROOT_FONT_SIZE_PX;
+    case 'em':
+      return amount * fontSizePx;
+    default:
+      return amount === 0 ? 0 : undefined;
+  }
+}
+
+/**
+ * Material elevation (dp) approximating a CSS box-shadow: the documented
+ * elevation for the knowledge base's standard shadows, otherwise the larger
+ * of the key layer's y-offset and half its blur. Inset shadows have none.
+ */
+export function shadowElevation(value: string): number {
+  const standard = STANDARD_SHADOWS.find((shadow) => shadow.value === value);
+  const documented = standard ? Number.parseFloat(standard.elevation) : Number.NaN;
+  if (standard && !Number.isNaN(documented)) return documented;
+
+  const layer = keyShadowLayer(value);
+  if (!layer) return 0;
+  return Math.round(Math.max(cssLengthToPx(layer.offsetY) ?? 0, (cssLengthToPx(layer.blur) ?? 0) / 2));
+}
+
+/** The outer layer with the largest blur, which platforms with a single shadow should reproduce. */
+export function keyShadowLayer(value: string): ShadowLayer | undefined {
+  return (parseBoxShadow(value) ?? [])
+    .filter((layer) => !layer.inset)
+    .reduce<ShadowLayer | undefined>((key, layer) => (
+      !key || (cssLengthToPx(layer.blur) ?? 0) > (cssLengthToPx(key.blur) ?? 0) ? layer : key
+    ), undefined);
+}
+
+/**
+ * A code identifier from a token name: `2xl` → `text2xl` (with prefix
+ * `text`), `line-height` → `lineHeight`, `0.5` → `spacing0_5`. Names that
+ * start with a digit get `prefix`; `upper` gives PascalCase.
+ */
+export function codeIdentifier(name: string, prefix: string, upper: boolean = false): string {
+  const words = name.replace(/\./g, '_').split(/[-\s]+/).filter(Boolean);
+  const joined = words.map((word, i) => (i === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1))).join('');
+  const identifier = /^\d/.test(joined) ? `${prefix}${joined}` : joined;
+  return upper ? identifier.charAt(0).toUpperCase() + identifier.slice(1) : identifier;
+}
+
+/** Up to two decimals, without trailing zeros: `10.24`, `16`, `-0.16`. */
+export function formatNumber(value: number): string {
+  const rounded = Math.round(value * 100) / 100;
+  return String(Object.is(rounded, -0) ? 0 : rounded);
+}
+
+/** Path segments joined into one identifier; `.` becomes `_` (`spacing-0_5`), since most formats reserve it. */
+export function tokenName(path: readonly string[], separator: string = '-'): string {
+  return path.map((segment) => segment.replace(/\./g, '_')).join(separator);
+}
+
+/** `Inter, "Segoe UI", sans-serif` → `['Inter', 'Segoe UI', 'sans-serif']`. */
+export function splitFontStack(stack: string): string[] {
+  return splitTopLevel(stack).map((family) => family.replace(/^["']|["']$/g, ''));
+}
+
+/** CSS box-shadow layers; undefined when the value is not a plain `[inset] x y [blur [spread]] color` list. */
+export function parseBoxShadow(value: string): ShadowLayer[] | undefined {
+  const layers: ShadowLayer[] = [];
+  for (const layer of splitTopLevel(value)) {
+    const parts: string[] = layer.match(/(?:[a-z-]+\([^)]*\)|\S)+/gi) ?? [];
+    const inset = parts.includes('inset');
+    const rest = parts.filter((part) => part !== 'inset');
+    const color = rest.find((part) => !/^-?[\d.]/.test(part));
+    const lengths = rest.filter((part) => part !== color);
+    if (!color || lengths.length < 2 || lengths.length > 4) return undefined;
+    layers.push({
+      inset,
+      offsetX: withUnit(lengths[0] ?? '0'),
+      offsetY: withUnit(lengths[1] ?? '0'),
+      blur: withUnit(lengths[2] ?? '0'),
+      spread: withUnit(lengths[3] ?? '0'),
+      color,
+    });
+  }
+  return layers.length > 0 ? layers : undefined;
+}
+
+/** A length with a unit; a bare `0` becomes `0px`. */
+export function withUnit(length: string): string {
+  return /^-?0(?:\.0+)?$/.test(length) ? '0px' : length;
+}
+
+/** `value` split on commas outside parentheses and quotes, trimmed. */
+export function splitTopLevel(value: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | undefined;
+  let current = '';
+  for (const char of value) {
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
@@ -0,0 +1,270 @@
+/**
+ * @file web-exporters.ts
+ * @description Design token exporters for the web — W3C DTCG JSON, CSS custom properties, SCSS maps, Tailwind, and Style Dictionary
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import type { DesignTokens } from '../core/types.js';
+import type { ExportedFile, FlatToken } from './token-tree.js';
+import {
+  flattenTokens,
+  fontRoleOf,
+  fontRoles,
+  GENERATED_NOTICE,
+  parseBoxShadow,
+  splitFontStack,
+  splitTopLevel,
+  tokenName,
+  withUnit,
+} from './token-tree.js';
+
+/** SCSS map name for each token group (first one or two path segments). */
+const SCSS_MAPS: ReadonlyArray<{ group: string[]; name: string }> = [
+  { group: ['color'], name: 'colors' },
+  { group: ['font', 'family'], name: 'font-families' },
+  { group: ['font', 'size'], name: 'font-sizes' },
+  { group: ['font', 'weight'], name: 'font-weights' },
+  { group: ['font', 'line-height'], name: 'line-heights' },
+  { group: ['font', 'letter-spacing'], name: 'letter-spacings' },
+  { group: ['spacing'], name: 'spacing' },
+  { group: ['breakpoint'], name: 'breakpoints' },
+  { group: ['shadow'], name: 'shadows' },
+  { group: ['radius'], name: 'radii' },
+];
+
+/* -------------------------------------------------------------------------- */
+/*  W3C Design Tokens Community Group                                         */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * `design.tokens.json` in the DTCG format: `$type` / `$value` leaves, shadow
+ * composites, and one `typography` composite per step that references the
+ * font tokens (`{font.size.xl}`).
+ */
+export function toDtcg(tokens: DesignTokens): ExportedFile[] {
+  const root: Record<string, unknown> = {
+    $description: GENERATED_NOTICE,
+  };
+  for (const token of flattenTokens(tokens)) {
+    setPath(root, token.path.map(dtcgSegment), { $type: token.type, $value: dtcgValue(token) });
+  }
+
+  for (const step of tokens.typography) {
+    const role = fontRoleOf(step, tokens.typography);
+    const ref = (group: string): string => `{font.${group}.${dtcgSegment(step.name)}}`;
+    setPath(root, ['typography', dtcgSegment(step.name)], {
+      $type: 'typography',
+      $value: {
+        fontFamily: role ? `{font.family.${role}}` : splitFontStack(step.fontFamily),
+        fontSize: ref('size'),
+        fontWeight: ref('weight'),
+        lineHeight: ref('line-height'),
+        letterSpacing: ref('letter-spacing'),
+      },
+    });
+  }
+
+  return [{ path: 'design.tokens.json', content: `${JSON.stringify(root, null, 2)}\n` }];
+}
+
+function dtcgValue(token: FlatToken): unknown {
+  switch (token.type) {
+    case 'fontFamily':
+      return splitFontStack(String(token.value));
+    case 'fontWeight':
+      return Number(token.value);
+    case 'number':
+      return Number.parseFloat(String(token.value));
+    case 'dimension':
+      return withUnit(String(token.value));
+    case 'shadow': {
+      const layers = parseBoxShadow(String(token.value));
+      if (!layers) return token.value;
+      return layers.length === 1 ? layers[0] : layers;
+    }
+    default:
+      return token.value;
+  }
+}
+
+/** DTCG names must not contain `.`, `{` or `}`. */
+function dtcgSegment(segment: string): string {
+  return segment.replace(/[.{}]/g, '_');
+}
+
+/* -------------------------------------------------------------------------- */
+/*  CSS custom properties                                                     */
+/* -------------------------------------------------------------------------- */
+
+/** `tokens.css`: every token as a custom property on `:root`, e.g. `--color-primary-500`. */
+export function toCssVariables(tokens: DesignTokens): ExportedFile[] {
+  const lines = [`/* ${GENERATED_NOTICE} */`, '', ':root {'];
+  let previousGroup: string | undefined;
+  for (const token of flattenTokens(tokens)) {
+    const group = token.path.slice(0, token.path[0] === 'font' ? 2 : 1).join('.');
+    if (previousGroup !== undefined && group !== previousGroup) lines.push('');
+    previousGroup = group;
+    lines.push(`  --${tokenName(token.path)}: ${token.value};`);
+  }
+  lines.push('}', '');
+  return [{ path: 'tokens.css', content: lines.join('\n') }];
+}
+
+/* -------------------------------------------------------------------------- */
+/*  SCSS                                                                      */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * `_tokens.scss`: one map per group (`$colors`, `$font-sizes`, `$spacing`,
+ * …). Numeric keys stay numbers, so `map.get($colors, 'primary', 500)` works.
+ */
+export function toScssMaps(tokens: DesignTokens): ExportedFile[] {
+  const flat = flattenTokens(tokens);
+  const lines = [`// ${GENERATED_NOTICE}`, ''];
+
+  for (const { group, name } of SCSS_MAPS) {
+    const members = flat.filter((token) => group.every((segment, i) => token.path[i] === segment));
+    if (members.length === 0) continue;
+
+    const tree: Record<string, unknown> = {};
+    for (const token of members) {
+      setPath(tree, token.path.slice(group.length), token.value);
+    }
+    lines.push(`$${name}: ${scssMap(tree, '')};`, '');
+  }
+
+  return [{ path: '_tokens.scss', content: lines.join('\n') }];
+}
+
+function scssMap(tree: Record<string, unknown>, indent: string): string {
+  const inner = `${indent}  `;
+  const entries = Object.entries(tree).map(([key, value]) => {
+    const rendered = typeof value === 'object' && value !== null
+      ? scssMap(value as Record<string, unknown>, inner)
+      : scssValue(value);
+    return `${inner}${/^\d+(?:\.\d+)?$/.test(key) ? key : `'${key}'`}: ${rendered},`;
+  });
+  return `(\n${entries.join('\n')}\n${indent})`;
+}
+
+/** Comma lists (font stacks, layered shadows) need parentheses inside a map. */
+function scssValue(value: unknown): string {
+  const text = String(value);
+  return splitTopLevel(text).length > 1 ? `(${text})` : text;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Tailwind                                                                  */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * `tailwind.preset.js`: a preset that extends the theme (colors, font
+ * families and sizes, spacing, screens, shadows, radii). Use it with
+ * `presets: [require('./tailwind.preset.js')]`.
+ */
+export function toTailwindPreset(tokens: DesignTokens): ExportedFile[] {
+  const colors: Record<string, Record<string, string>> = {};
+  for (const token of flattenTokens(tokens)) {
+    const [category, family, shade] = token.path;
+    if (category !== 'color' || !family || !shade) continue;
+    (colors[family] ??= {})[shade] = String(token.value);
+  }
+
+  const extend = {
+    colors,
+    fontFamily: Object.fromEntries(fontRoles(tokens.typography).map(({ role, stack }) => [role, splitFontStack(stack)])),
+    fontSize: Object.fromEntries(tokens.typography.map((step) => [step.name, [step.fontSize, {
+      lineHeight: step.lineHeight,
+      letterSpacing: step.letterSpacing,
+      fontWeight: String(step.fontWeight),
+    }]])),
+    spacing: Object.fromEntries(tokens.spacing.map((step) => [step.name, step.value])),
+    screens: Object.fromEntries(tokens.breakpoints.map((bp) => [bp.name, bp.value])),
+    boxShadow: Object.fromEntries(tokens.shadows.map((shadow) => [shadow.name, shadow.value])),
+    borderRadius: Object.fromEntries(tokens.borderRadii.map((radius) => [radius.name, radius.value])),
+  };
+
+  const content = [
+    `// ${GENERATED_NOTICE}`,
+    '// Use as a preset: presets: [require(\'./tailwind.preset.js\')]',
+    '',
+    '/** @type {import(\'tailwindcss\').Config} */',
+    `module.exports = ${JSON.stringify({ theme: { extend } }, null, 2)};`,
+    '',
+  ].join('\n');
+  return [{ path: 'tailwind.preset.js', content }];
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Style Dictionary                                                          */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * A Style Dictionary source tree: `style-dictionary/tokens/<category>.json`
+ * (`value` / `type` leaves) and a `config.json` building CSS, SCSS, and
+ * ES module outputs. Run `npx style-dictionary build` in that directory.
+ */
+export function toStyleDictionary(tokens: DesignTokens): ExportedFile[] {
+  const categories = new Map<string, Record<string, unknown>>();
+  for (const token of flattenTokens(tokens)) {
+    const [category] = token.path;
+    if (!category) continue;
+    const tree = categories.get(category) ?? {};
+    categories.set(category, tree);
+    setPath(tree, token.path.map((segment) => segment.replace(/\./g, '_')), { value: token.value, type: token.type });
+  }
+
+  const config = {
+    source: ['tokens/**/*.json'],
+    platforms: {
+      css: {
+        transformGroup: 'css',
+        buildPath: 'build/css/',
+        files: [{ destination: 'variables.css', format: 'css/variables' }],
+      },
+      scss: {
+        transformGroup: 'scss',
+        buildPath: 'build/scss/',
+        files: [{ destination: '_variables.scss', format: 'scss/variables' }],
+      },
+      js: {
+        transformGroup: 'js',
+        buildPath: 'build/js/',
+        files: [{ destination: 'tokens.js', format: 'javascript/es6' }],
+      },
+    },
+  };
+
+  return [
+    { path: 'style-dictionary/config.json', content: `${JSON.stringify(config, null, 2)}\n` },
+    ...[...categories].map(([category, tree]) => ({
+      path: `style-dictionary/tokens/${category}.json`,
+      content: `${JSON.stringify(tree, null, 2)}\n`,
+    })),
+  ];
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Helpers                                                                   */
+/* -------------------------------------------------------------------------- */
+
+function setPath(root: Record<string, unknown>, path: readonly string[], value: unknown): void {
+  let node = root;
+  path.forEach((segment, i) => {
+    if (i === path.length - 1) {
+      node[segment] = value;
+      return;
+    }
+    const next = node[segment];
+    if (typeof next === 'object' && next !== null) {
+      node = next as Record<string, unknown>;
+    } else {
+      const created: Record<string, unknown> = {};
+      node[segment] = created;
+      node = created;
+    }
+  });
+}
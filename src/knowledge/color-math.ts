@@ -0,0 +1,152 @@
+/**
+ * @file color-math.ts
+ * @description Hex / RGB / HSL conversion and WCAG 2.x relative luminance and contrast ratios
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+/* -------------------------------------------------------------------------- */
+/*  Conversion                                                                */
+/* -------------------------------------------------------------------------- */
+
+export interface RgbColor {
+  /** 0–255 */
+  r: number;
+  g: number;
+  b: number;
+}
+
+export interface HslColor {
+  /** 0–360 */
+  h: number;
+  /** 0–100 */
+  s: number;
+  /** 0–100 */
+  l: number;
+}
+
+const HEX_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+export function isHexColor(value: string): boolean {
+  return HEX_PATTERN.test(value.trim());
+}
+
+/** Parses `#rgb` or `#rrggbb` (the `#` is optional); undefined for anything else. */
+export function parseHex(hex: string): RgbColor | undefined {
+  const match = HEX_PATTERN.exec(hex.trim());
+  if (!match?.[1]) return undefined;
+  const digits = match[1].length === 3
+    ? [...match[1]].map((digit) => digit + digit).join('')
+    : match[1];
+  return {
+    r: parseInt(digits.slice(0, 2), 16),
+    g: parseInt(digits.slice(2, 4), 16),
+    b: parseInt(digits.slice(4, 6), 16),
+  };
+}
+
+/** Lowercase `#rrggbb`. */
+export function rgbToHex(color: RgbColor): string {
+  const channel = (value: number): string => Math.round(Math.min(255, Math.max(0, value))).toString(16).padStart(2, '0');
+  return `#${channel(color.r)}${channel(color.g)}${channel(color.b)}`;
+}
+
+/** Lowercase `#rrggbb` for a hex in either short or long form; undefined when it is not one. */
+export function normalizeHex(hex: string): string | undefined {
+  const rgb = parseHex(hex);
+  return rgb ? rgbToHex(rgb) : undefined;
+}
+
+export function rgbToHsl(color: RgbColor): HslColor {
+  const r = color.r / 255;
+  const g = color.g / 255;
+  const b = color.b / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const delta = max - min;
+
+  if (delta === 0) {
+    return { h: 0, s: 0, l: l * 100 };
+  }
+
+  const s = delta / (1 - Math.abs(2 * l - 1));
+  const h = max === r
+    ? ((g - b) / delta) % 6
+    : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+  return { h: (h * 60 + 360) % 360, s: s * 100, l: l * 100 };
+}
+
+export function hslToHex(h: number, s: number, l: number): string {
+  const lNorm = l / 100;
+  const a = (s / 100) * Math.min(lNorm, 1 - lNorm);
+
+  const f = (n: number): string => {
+    const k = (n + h / 30) % 12;
+    const color = lNorm - a * Math.max(Math.min(k - 3, 9 - k, 1), -1);
+    return Math.round(255 * color).toString(16).padStart(2, '0');
+  };
+
+  return `#${f(0)}${f(8)}${f(4)}`;
+}
+
+/** HSL of a hex color, rounded to whole degrees and percents; undefined when it is not a hex color. */
+export function hexToHsl(hex: string): HslColor | undefined {
+  const rgb = parseHex(hex);
+  if (!rgb) return undefined;
+  const hsl = rgbToHsl(rgb);
+  return { h: Math.round(hsl.h) % 360, s: Math.round(hsl.s), l: Math.round(hsl.l) };
+}
+
+export function formatHsl(color: HslColor): string {
+  return `hsl(${color.h}, ${color.s}%, ${color.l}%)`;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  WCAG Contrast                                                             */
+/* -------------------------------------------------------------------------- */
+
+/** WCAG 2.x minimum contrast ratios. */
+export const WCAG_CONTRAST = {
+  /** 1.4.3 — normal text, Level AA. */
+  AA: 4.5,
+  /** 1.4.6 — normal text, Level AAA. */
+  AAA: 7,
+  /** 1.4.3 — large text (18pt, or 14pt bold), Level AA; also 1.4.11 non-text contrast. */
+  AA_LARGE: 3,
+  /** 1.4.6 — large text, Level AAA. */
+  AAA_LARGE: 4.5,
+} as const;
+
+/** WCAG 2.x relative luminance (0 for black, 1 for white). */
+export function relativeLuminance(color: RgbColor): number {
+  const linear = (channel: number): number => {
+    const value = channel / 255;
+    return value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * linear(color.r) + 0.7152 * linear(color.g) + 0.0722 * linear(color.b);
+}
+
+/**
+ * WCAG 2.x contrast ratio between two colors, 1 to 21, unrounded: the
+ * thresholds apply to the exact value, so round only for display.
+ */
+export function contrastRatio(first: RgbColor, second: RgbColor): number {
+  const a = relativeLuminance(first);
+  const b = relativeLuminance(second);
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+}
+
+/** contrastRatio for hex colors; undefined when either is not one. */
+export function hexContrastRatio(first: string, second: string): number | undefined {
+  const a = parseHex(first);
+  const b = parseHex(second);
+  return a && b ? contrastRatio(a, b) : undefined;
+}
+
+/** Two decimals, rounded down so a displayed ratio never overstates a pass (4.499 shows as 4.49, not 4.50). */
+export function roundContrast(ratio: number): number {
+  return Math.floor(ratio * 100) / 100;
+}
@@ -0,0 +1,109 @@
+/**
+ * @file contrast-verifier.ts
+ * @description Contrast evaluation for design-system tokens — WCAG ratios and pass flags, token label resolution, and the full text contrast matrix
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import type {
+  ColorScale,
+  ColorStop,
+  ContrastMatrix,
+  ContrastResult,
+  ContrastSwatch,
+  DesignTokens,
+} from '../core/types.js';
+import { contrastRatio, normalizeHex, parseHex, roundContrast, WCAG_CONTRAST } from './color-math.js';
+
+const HEX_IN_TEXT = /#(?:[0-9a-f]{6}|[0-9a-f]{3})\b/i;
+const TOKEN_REFERENCE = /^([a-z]+)[-\s]?(\d{2,3})$/i;
+
+const WHITE = '#ffffff';
+const NAMED_COLORS: Readonly<Record<string, string>> = { white: WHITE, black: '#000000' };
+
+/** Light tints used as page and alert backgrounds. */
+const SURFACE_SHADES: readonly number[] = [50, 100];
+
+/** Ratio (two decimals rounded down) and pass flags; the flags use the unrounded ratio. */
+export function evaluateContrast(foreground: string, background: string): ContrastResult | undefined {
+  const fg = parseHex(foreground);
+  const bg = parseHex(background);
+  if (!fg || !bg) return undefined;
+  const ratio = contrastRatio(fg, bg);
+  return {
+    ratio: roundContrast(ratio),
+    passesAA: ratio >= WCAG_CONTRAST.AA,
+    passesAAA: ratio >= WCAG_CONTRAST.AAA,
+    passesAALargeText: ratio >= WCAG_CONTRAST.AA_LARGE,
+  };
+}
+
+/**
+ * The hex value a report label refers to: a hex anywhere in it
+ * (`primary-600 (#135dbe)`), `white` / `black`, or a token reference such as
+ * `neutral-900` or `error 700` looked up in `tokens`.
+ */
+export function resolveContrastColor(label: string, tokens?: DesignTokens): string | undefined {
+  const hex = HEX_IN_TEXT.exec(label)?.[0];
+  if (hex) return normalizeHex(hex);
+
+  const name = label.trim().toLowerCase();
+  const named = NAMED_COLORS[name];
+  if (named) return named;
+
+  const reference = TOKEN_REFERENCE.exec(name);
+  if (!reference?.[1] || !reference[2] || !tokens) return undefined;
+  const shade = Number(reference[2]);
+  return findColorScale(tokens, reference[1])?.stops.find((stop) => stop.shade === shade)?.hex;
+}
+
+/** The scale for a color family name (`primary`, `neutral`, `error`, …). */
+export function findColorScale(tokens: DesignTokens, family: string): ColorScale | undefined {
+  switch (family) {
+    case 'primary':
+    case 'secondary':
+    case 'neutral':
+      return tokens.colors[family];
+    case 'success':
+    case 'warning':
+    case 'error':
+    case 'info':
+      return tokens.colors.semantic[family];
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Every text-eligible stop of the primary, neutral and semantic scales, plus
+ * white, against every background: white, each scale's 50 and 100 tints
+ * (page and alert surfaces), and the text-eligible stops again as solid fills
+ * (buttons, badges). A stop is text-eligible when it reaches AA for body text
+ * on white.
+ */
+export function buildContrastMatrix(tokens: DesignTokens): ContrastMatrix {
+  const scales: Array<[string, ColorScale]> = [
+    ['primary', tokens.colors.primary],
+    ['neutral', tokens.colors.neutral],
+    ...Object.entries(tokens.colors.semantic),
+  ];
+  const swatches = (include: (stop: ColorStop) => boolean): ContrastSwatch[] => scales.flatMap(([family, scale]) => (
+    scale.stops
+      .filter(include)
+      .map((stop) => ({ token: `${family}-${stop.shade}`, hex: normalizeHex(stop.hex) ?? stop.hex }))
+  ));
+
+  const white = { token: 'white', hex: WHITE };
+  const text = swatches((stop) => evaluateContrast(stop.hex, WHITE)?.passesAA === true);
+  const tints = swatches((stop) => SURFACE_SHADES.includes(stop.shade));
+  const foregrounds = [white, ...text];
+  const backgrounds = [white, ...tints, ...text];
+
+  return {
+    foregrounds,
+    backgrounds,
+    ratios: foregrounds.map((fg) => backgrounds.map((bg) => evaluateContrast(fg.hex, bg.hex)?.ratio ?? 1)),
+  };
+}
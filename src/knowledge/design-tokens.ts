@@ -4,9 +4,11 @@
  * @author Charley Scholz, ELEV8
  * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
  * @created 2026-02-23
- * @updated 2026-02-23
+ * @updated 2026-10-19
  */
 
+import { formatHsl, hexContrastRatio, hexToHsl, hslToHex, normalizeHex, roundContrast } from './color-math.js';
+
 /* -------------------------------------------------------------------------- */
 /*  Type Scale Ratios                                                         */
 /* -------------------------------------------------------------------------- */
@@ -115,19 +117,10 @@ export interface GeneratedColorStop {
   shade: number;
   hsl: string;
   hex: string;
-}
-
-function hslToHex(h: number, s: number, l: number): string {
-  const lNorm = l / 100;
-  const a = (s / 100) * Math.min(lNorm, 1 - lNorm);
-
-  const f = (n: number): string => {
-    const k = (n + h / 30) % 12;
-    const color = lNorm - a * Math.max(Math.min(k - 3, 9 - k, 1), -1);
-    return Math.round(255 * color).toString(16).padStart(2, '0');
-  };
-
-  return `#${f(0)}${f(8)}${f(4)}`;
+  /** WCAG contrast ratio against #ffffff, two decimals rounded down. */
+  contrastOnWhite: number;
+  /** WCAG contrast ratio against #000000, two decimals rounded down. */
+  contrastOnBlack: number;
 }
 
 /**
@@ -140,14 +133,42 @@ export function generateColorScale(config: ColorScaleConfig): readonly Generated
       ? config.saturation * 0.7
       : config.saturation;
 
-    return {
-      shade: stop.shade,
-      hsl: `hsl(${config.hue}, ${Math.round(satAdjust)}%, ${stop.lightness}%)`,
-      hex: hslToHex(config.hue, Math.round(satAdjust), stop.lightness),
-    };
+    return withContrast(
+      stop.shade,
+      hslToHex(config.hue, Math.round(satAdjust), stop.lightness),
+      `hsl(${config.hue}, ${Math.round(satAdjust)}%, ${stop.lightness}%)`,
+    );
   });
 }
 
+/**
+ * A 10-stop scale in the hue and saturation of `hex`. The stop nearest the
+ * color's own lightness takes the color exactly, so a brand color appears in
+ * its scale unchanged. Undefined when `hex` is not a hex color.
+ */
+export function generateColorScaleFromHex(name: string, hex: string): readonly GeneratedColorStop[] | undefined {
+  const base = normalizeHex(hex);
+  const hsl = hexToHsl(hex);
+  if (!base || !hsl) return undefined;
+
+  const anchor = STANDARD_COLOR_SHADES.reduce((nearest, stop) => (
+    Math.abs(stop.lightness - hsl.l) < Math.abs(nearest.lightness - hsl.l) ? stop : nearest
+  ));
+  return generateColorScale({ name, hue: hsl.h, saturation: hsl.s }).map((stop) => (
+    stop.shade === anchor.shade ? withContrast(stop.shade, base, formatHsl(hsl)) : stop
+  ));
+}
+
+function withContrast(shade: number, hex: string, hsl: string): GeneratedColorStop {
+  return {
+    shade,
+    hsl,
+    hex,
+    contrastOnWhite: roundContrast(hexContrastRatio(hex, '#ffffff') ?? 1),
+    contrastOnBlack: roundContrast(hexContrastRatio(hex, '#000000') ?? 1),
+  };
+}
+
 /* -------------------------------------------------------------------------- */
 /*  Spacing Scale                                                             */
 /* -------------------------------------------------------------------------- */
@@ -0,0 +1,239 @@
+/**
+ * @file semantic-themes.ts
+ * @description Semantic color roles (surface, on-surface, border, focus ring, …) mapped onto the color scales for light, dark, and high-contrast themes, with WCAG verification
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import type {
+  ColorTheme,
+  DesignTokens,
+  SemanticColor,
+  SemanticColorRole,
+  ThemeContrastCheck,
+  ThemeMode,
+} from '../core/types.js';
+import { hexContrastRatio, roundContrast, WCAG_CONTRAST } from './color-math.js';
+import { findColorScale, resolveContrastColor } from './contrast-verifier.js';
+
+export interface SemanticRoleDefinition {
+  role: SemanticColorRole;
+  /**
+   * `background`: a fill other roles sit on; `text` and `non-text`: checked
+   * against each role in `on`; `decorative`: not checked (WCAG exempts
+   * dividers and other non-essential lines).
+   */
+  kind: 'background' | 'text' | 'non-text' | 'decorative';
+  on: readonly SemanticColorRole[];
+  useCase: string;
+}
+
+export interface ThemeDefinition {
+  mode: ThemeMode;
+  /** Minimum ratio for text roles. */
+  text: number;
+  /** Minimum ratio for non-text roles. */
+  nonText: number;
+  /** Which way foregrounds move along a scale to gain contrast. */
+  direction: 'darker' | 'lighter';
+  /** Preferred token per role: `<family>-<shade>`, `white`, or `black`. */
+  tokens: Readonly<Record<SemanticColorRole, string>>;
+}
+
+const PAGE: readonly SemanticColorRole[] = ['background', 'surface', 'surface-muted'];
+
+export const SEMANTIC_ROLES: readonly SemanticRoleDefinition[] = [
+  { role: 'background', kind: 'background', on: [], useCase: 'Page background' },
+  { role: 'surface', kind: 'background', on: [], useCase: 'Cards, sheets, menus, inputs' },
+  { role: 'surface-muted', kind: 'background', on: [], useCase: 'Subtle panels, table stripes, hover fills' },
+  { role: 'on-surface', kind: 'text', on: PAGE, useCase: 'Body text and icons' },
+  { role: 'text-muted', kind: 'text', on: PAGE, useCase: 'Secondary text, captions, placeholders' },
+  { role: 'primary', kind: 'text', on: ['background', 'surface'], useCase: 'Links and primary button fills' },
+  { role: 'on-primary', kind: 'text', on: ['primary'], useCase: 'Labels on primary fills' },
+  { role: 'border', kind: 'non-text', on: ['background', 'surface'], useCase: 'Input and control outlines' },
+  { role: 'divider', kind: 'decorative', on: [], useCase: 'Separators and card edges' },
+  { role: 'focus-ring', kind: 'non-text', on: ['background', 'surface'], useCase: 'Keyboard focus indicator' },
+  { role: 'error', kind: 'text', on: ['background', 'surface'], useCase: 'Error messages and icons' },
+  { role: 'warning', kind: 'text', on: ['background', 'surface'], useCase: 'Warning messages and icons' },
+  { role: 'success', kind: 'text', on: ['background', 'surface'], useCase: 'Success messages and icons' },
+  { role: 'info', kind: 'text', on: ['background', 'surface'], useCase: 'Informational messages and icons' },
+];
+
+/**
+ * Light and dark follow WCAG AA (4.5:1 text, 3:1 non-text); high contrast
+ * targets AAA text (7:1) and holds outlines and focus rings to 4.5:1.
+ */
+export const THEME_DEFINITIONS: readonly ThemeDefinition[] = [
+  {
+    mode: 'light',
+    text: WCAG_CONTRAST.AA,
+    nonText: WCAG_CONTRAST.AA_LARGE,
+    direction: 'darker',
+    tokens: {
+      'background': 'neutral-50',
+      'surface': 'white',
+      'surface-muted': 'neutral-100',
+      'on-surface': 'neutral-900',
+      'text-muted': 'neutral-600',
+      'primary': 'primary-600',
+      'on-primary': 'white',
+      'border': 'neutral-500',
+      'divider': 'neutral-200',
+      'focus-ring': 'primary-600',
+      'error': 'error-600',
+      'warning': 'warning-700',
+      'success': 'success-700',
+      'info': 'info-700',
+    },
+  },
+  {
+    mode: 'dark',
+    text: WCAG_CONTRAST.AA,
+    nonText: WCAG_CONTRAST.AA_LARGE,
+    direction: 'lighter',
+    tokens: {
+      'background': 'neutral-900',
+      'surface': 'neutral-800',
+      'surface-muted': 'neutral-700',
+      'on-surface': 'neutral-50',
+      'text-muted': 'neutral-300',
+      'primary': 'primary-300',
+      'on-primary': 'neutral-900',
+      'border': 'neutral-400',
+      'divider': 'neutral-700',
+      'focus-ring': 'primary-300',
+      'error': 'error-300',
+      'warning': 'warning-300',
+      'success': 'success-300',
+      'info': 'info-300',
+    },
+  },
+  {
+    mode: 'high-contrast',
+    text: WCAG_CONTRAST.AAA,
+    nonText: WCAG_CONTRAST.AA,
+    direction: 'darker',
+    tokens: {
+      'background': 'white',
+      'surface': 'white',
+      'surface-muted': 'neutral-50',
+      'on-surface': 'black',
+      'text-muted': 'neutral-800',
+      'primary': 'primary-800',
+      'on-primary': 'white',
+      'border': 'neutral-700',
+      'divider': 'neutral-500',
+      'focus-ring': 'primary-800',
+      'error': 'error-800',
+      'warning': 'warning-800',
+      'success': 'success-800',
+      'info': 'info-800',
+    },
+  },
+];
+
+/**
+ * Every theme's roles resolved against `tokens`, with each text and non-text
+ * pair checked. A foreground that misses its requirement with the preferred
+ * stop moves along its scale (darker on light themes, lighter on dark) to
+ * the first stop that meets it, recording `adjustedFrom`; when no stop does,
+ * the strongest is kept and its checks fail.
+ */
+export function buildSemanticThemes(tokens: DesignTokens): ColorTheme[] {
+  return THEME_DEFINITIONS.map((theme) => buildTheme(theme, tokens));
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Helpers                                                                   */
+/* -------------------------------------------------------------------------- */
+
+interface RolePair {
+  foreground: SemanticColorRole;
+  background: SemanticColorRole;
+  kind: 'text' | 'non-text';
+}
+
+const PAIRS: readonly RolePair[] = SEMANTIC_ROLES.flatMap(({ role, kind, on }) => (
+  kind === 'text' || kind === 'non-text' ? on.map((background) => ({ foreground: role, background, kind })) : []
+));
+
+/**
+ * Roles that are tuned for contrast: text and non-text roles drawn only on
+ * backgrounds. The rest (backgrounds, dividers, and labels on other roles
+ * such as `on-primary`) stay at their preferred stop.
+ */
+const ADJUSTABLE: ReadonlySet<SemanticColorRole> = new Set(SEMANTIC_ROLES
+  .filter(({ kind, on }) => (kind === 'text' || kind === 'non-text') && on.every(isBackgroundRole))
+  .map(({ role }) => role));
+
+function buildTheme(theme: ThemeDefinition, tokens: DesignTokens): ColorTheme {
+  const colors = new Map<SemanticColorRole, SemanticColor>();
+  for (const { role } of SEMANTIC_ROLES) {
+    if (!ADJUSTABLE.has(role)) colors.set(role, resolveRole(role, theme.tokens[role], tokens));
+  }
+
+  for (const { role } of SEMANTIC_ROLES) {
+    if (!ADJUSTABLE.has(role)) continue;
+    const preferred = theme.tokens[role];
+    const candidates = candidateTokens(preferred, theme.direction, tokens);
+    const meets = (color: SemanticColor): boolean => PAIRS
+      .filter((pair) => (pair.foreground === role && colors.has(pair.background)) || (pair.background === role && colors.has(pair.foreground)))
+      .every((pair) => {
+        const foreground = pair.foreground === role ? color : colors.get(pair.foreground);
+        const background = pair.background === role ? color : colors.get(pair.background);
+        return foreground && background ? ratioOf(foreground, background) >= required(theme, pair) : true;
+      });
+
+    const resolved = candidates.map((token) => resolveRole(role, token, tokens));
+    const chosen = resolved.find(meets) ?? resolved[resolved.length - 1] ?? resolveRole(role, preferred, tokens);
+    colors.set(role, chosen.token === preferred ? chosen : { ...chosen, adjustedFrom: preferred });
+  }
+
+  const ordered = SEMANTIC_ROLES.flatMap(({ role }) => {
+    const color = colors.get(role);
+    return color ? [color] : [];
+  });
+  const checks = PAIRS.flatMap((pair): ThemeContrastCheck[] => {
+    const foreground = colors.get(pair.foreground);
+    const background = colors.get(pair.background);
+    if (!foreground || !background) return [];
+    const ratio = ratioOf(foreground, background);
+    const minimum = required(theme, pair);
+    return [{ ...pair, ratio: roundContrast(ratio), required: minimum, passes: ratio >= minimum }];
+  });
+
+  return { mode: theme.mode, colors: ordered, checks };
+}
+
+/** The preferred token, then each stop beyond it in `direction`; just the token for `white` / `black`. */
+function candidateTokens(preferred: string, direction: ThemeDefinition['direction'], tokens: DesignTokens): string[] {
+  const match = /^([a-z]+)-(\d+)$/.exec(preferred);
+  const scale = match?.[1] ? findColorScale(tokens, match[1]) : undefined;
+  if (!match?.[1] || !scale) return [preferred];
+
+  const shade = Number(match[2]);
+  const family = match[1];
+  const shades = scale.stops
+    .map((stop) => stop.shade)
+    .filter((candidate) => (direction === 'darker' ? candidate >= shade : candidate <= shade))
+    .sort((a, b) => (direction === 'darker' ? a - b : b - a));
+  return shades.map((candidate) => `${family}-${candidate}`);
+}
+
+function resolveRole(role: SemanticColorRole, token: string, tokens: DesignTokens): SemanticColor {
+  return { role, token, hex: resolveContrastColor(token, tokens) ?? '#000000' };
+}
+
+function ratioOf(foreground: SemanticColor, background: SemanticColor): number {
+  return hexContrastRatio(foreground.hex, background.hex) ?? 1;
+}
+
+function required(theme: ThemeDefinition, pair: RolePair): number {
+  return pair.kind === 'text' ? theme.text : theme.nonText;
+}
+
+function isBackgroundRole(role: SemanticColorRole): boolean {
+  return SEMANTIC_ROLES.find((definition) => definition.role === role)?.kind === 'background';
+}
@@ -1,10 +1,10 @@
 /**
  * @file server.ts
- * @description MCP server for UX Pilot — exposes 6 UX/UI design tools via stdio transport
+ * @description MCP server for UX Pilot — exposes registered UX/UI design capabilities as tools via stdio transport
  * @author Charley Scholz, ELEV8
  * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
  * @created 2026-02-23
- * @updated 2026-02-23
+ * @updated 2026-10-19
  */
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
@@ -13,280 +13,181 @@ import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
+import { JsonLogger, resolveLogLevel } from '../core/logger.js';
+import type { CapabilityDefinition, McpToolDefinition } from '../core/registry.js';
+import { defaultRegistry, loadPlugins, resolvePluginSpecifiers } from '../core/registry.js';
+import { formatIssues, toJSONSchema, validate } from '../core/schema.js';
+import { DesignTokensSchema } from '../core/schemas.js';
+import { RunStore } from '../core/run-store.js';
 import { UXPilot } from '../core/ux-ui-pilot.js';
+import type { CapabilityEvent, DesignTokens, UXPilotErrorCode } from '../core/types.js';
+import { UXPilotError } from '../core/types.js';
+import { exportTokens, parseTokenExportFormats, TOKEN_EXPORT_FORMATS } from '../exporters/token-exporters.js';
 
-type CapabilityId =
-  | 'design-system'
-  | 'component-architecture'
-  | 'accessibility-audit'
-  | 'user-flow'
-  | 'wireframe'
-  | 'design-critique';
+/** Minimum streamed-token delta between progress notifications. */
+const TOKEN_PROGRESS_STEP = 250;
 
-interface ToolDefinition {
-  name: string;
-  description: string;
-  capabilityId: CapabilityId;
-  inputSchema: {
-    type: 'object';
-    properties: Record<string, unknown>;
-    required?: string[];
+/** JSON lines on stderr (stdout carries the protocol); UX_PILOT_LOG_LEVEL defaults to info here. */
+const logger = new JsonLogger({ level: resolveLogLevel(process.env.UX_PILOT_LOG_LEVEL || 'info') });
+
+type ProgressSender = (progress: number, message: string) => void;
+
+/**
+ * Maps capability events onto MCP progress notifications. Token events are
+ * throttled so long generations do not flood the client.
+ */
+function createProgressReporter(send: ProgressSender): (event: CapabilityEvent) => void {
+  let progress = 0;
+  let lastTokens = 0;
+
+  return (event) => {
+    if (event.type === 'tokens') {
+      if (event.outputTokens < lastTokens) lastTokens = 0;
+      if (event.outputTokens - lastTokens < TOKEN_PROGRESS_STEP) return;
+      lastTokens = event.outputTokens;
+      send(++progress, `Streaming (~${event.outputTokens} tokens)`);
+      return;
+    }
+    send(++progress, event.phase);
   };
 }
 
-const TOOLS: ToolDefinition[] = [
-  {
-    name: 'ux_design_system',
-    description:
-      'Generate a comprehensive design system with tokens, typography, spacing, and color palettes',
-    capabilityId: 'design-system',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        brandColors: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Brand color hex values (e.g. ["#1a73e8", "#ff5722"])',
-        },
-        typography: {
-          type: 'string',
-          description: 'Typography preferences or font family name',
-        },
-        targetPlatform: {
-          type: 'string',
-          enum: ['web', 'ios', 'android', 'cross-platform'],
-          description: 'Target platform for the design system',
-        },
-        requirements: {
-          type: 'string',
-          description: 'Additional design system requirements or constraints',
-        },
+/** Extra guidance appended to tool errors the client can act on. */
+const ERROR_HINTS: Partial<Record<UXPilotErrorCode, string>> = {
+  RATE_LIMITED: ' The provider is rate limiting requests; retry this tool call later.',
+  TIMEOUT: ' Raise UX_PILOT_TIMEOUT_MS or narrow the input.',
+  OUTPUT_TRUNCATED: ' The model hit its output token limit; narrow the input.',
+  CAPABILITY_NOT_FOUND: ' Rephrase the request or call a specific ux_* tool.',
+  RUN_NOT_FOUND: ' Pass the runId from an earlier ux_* tool result; run history must be enabled (UX_PILOT_HISTORY).',
+};
+
+/** Routes a plain-language request to the matching capabilities (see UXPilot.ask). */
+const ASK_TOOL = {
+  name: 'ux_ask',
+  description:
+    'Describe what you need in plain language; UX Pilot picks the matching design capabilities, extracts their input, and runs them',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      request: {
+        type: 'string',
+        description: 'The request, e.g. "Audit this signup form for WCAG AA" or "Design system using #1a73e8"',
       },
-    },
-  },
-  {
-    name: 'ux_component_architecture',
-    description:
-      'Analyze component architecture — break down UI into reusable components with hierarchy and data flow',
-    capabilityId: 'component-architecture',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        description: {
-          type: 'string',
-          description: 'Description of the UI or feature to analyze',
-        },
-        code: {
-          type: 'string',
-          description: 'Existing component code to analyze',
-        },
-        framework: {
-          type: 'string',
-          description: 'UI framework (e.g. React, Vue, Angular, Svelte)',
-        },
+      planOnly: {
+        type: 'boolean',
+        description: 'Return the routing plan (capabilities and extracted input) without running it',
       },
-      required: ['description'],
     },
+    required: ['request'],
   },
-  {
-    name: 'ux_accessibility_audit',
-    description:
-      'Run an accessibility audit against WCAG guidelines — identify issues and suggest fixes',
-    capabilityId: 'accessibility-audit',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        code: {
-          type: 'string',
-          description: 'Component or page code to audit',
-        },
-        html: {
-          type: 'string',
-          description: 'Raw HTML markup to audit',
-        },
-        description: {
-          type: 'string',
-          description: 'Description of the UI being audited',
-        },
-        standard: {
-          type: 'string',
-          enum: [
-            'WCAG2.0-A',
-            'WCAG2.0-AA',
-            'WCAG2.0-AAA',
-            'WCAG2.1-A',
-            'WCAG2.1-AA',
-            'WCAG2.1-AAA',
-            'WCAG2.2-AA',
-          ],
-          description:
-            'Accessibility standard to audit against (default: WCAG2.1-AA)',
-        },
+};
+
+/** Revises an earlier tool result by its `runId` (see UXPilot.resumeSession). */
+const REFINE_TOOL = {
+  name: 'ux_refine',
+  description:
+    'Revise an earlier UX Pilot result with a follow-up instruction (e.g. "make the primary palette warmer") and get the new result plus a list of what changed',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      runId: {
+        type: 'string',
+        description: 'The runId from an earlier ux_* tool result',
       },
-    },
-  },
-  {
-    name: 'ux_user_flow',
-    description:
-      'Map user flows with Mermaid diagrams — analyze steps, decision points, and edge cases',
-    capabilityId: 'user-flow',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        feature: {
-          type: 'string',
-          description: 'Feature or task to map the user flow for',
-        },
-        userType: {
-          type: 'string',
-          description: 'Target user persona or type',
-        },
-        context: {
-          type: 'string',
-          description:
-            'Additional context about the application or domain',
-        },
+      instruction: {
+        type: 'string',
+        description: 'What to change',
       },
-      required: ['feature'],
     },
+    required: ['runId', 'instruction'],
   },
-  {
-    name: 'ux_wireframe',
-    description:
-      'Generate wireframe recommendations with layout structure and ASCII wireframes',
-    capabilityId: 'wireframe',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        feature: {
-          type: 'string',
-          description: 'Feature or screen to wireframe',
-        },
-        platform: {
-          type: 'string',
-          enum: ['web', 'mobile', 'tablet', 'desktop'],
-          description: 'Target platform for the wireframe',
-        },
-        constraints: {
-          type: 'string',
-          description: 'Design constraints or requirements',
-        },
+};
+
+/** Converts design-system tokens to code formats (see exportTokens); makes no model call. */
+const EXPORT_TOKENS_TOOL = {
+  name: 'ux_export_tokens',
+  description:
+    'Export design tokens from a ux_design_system result as W3C DTCG JSON, CSS custom properties, SCSS maps, a Tailwind preset, a Style Dictionary source tree, Swift (iOS), Android XML resources, or a Jetpack Compose theme',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      runId: {
+        type: 'string',
+        description: 'The runId of an earlier ux_design_system result',
       },
-      required: ['feature'],
-    },
-  },
-  {
-    name: 'ux_design_critique',
-    description:
-      "Critique a design using Nielsen's heuristics — evaluate usability, consistency, and error prevention",
-    capabilityId: 'design-critique',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        description: {
-          type: 'string',
-          description: 'Description of the design to critique',
-        },
-        code: {
-          type: 'string',
-          description: 'UI code implementing the design',
-        },
-        screenshot: {
-          type: 'string',
-          description:
-            'Base64-encoded screenshot or image URL of the design',
-        },
+      tokens: {
+        type: 'object',
+        description: 'The `tokens` object of a ux_design_system result (instead of runId)',
+      },
+      formats: {
+        type: 'array',
+        items: { type: 'string', enum: [...TOKEN_EXPORT_FORMATS, 'web', 'mobile', 'all'] },
+        description: 'Formats or groups (web, mobile) to export (default: all)',
       },
     },
   },
-];
-
-const TOOL_CAPABILITY_MAP = new Map<string, CapabilityId>(
-  TOOLS.map((t) => [t.name, t.capabilityId]),
-);
+};
 
-function parseWcagLevel(standard?: string): 'A' | 'AA' | 'AAA' | undefined {
-  if (!standard) return undefined;
-  const match = /-(A{1,3})$/.exec(standard);
-  return (match?.[1] as 'A' | 'AA' | 'AAA') ?? undefined;
+/** The files for ux_export_tokens, from inline `tokens` or a saved design-system run. */
+async function exportTokenFiles(args: Record<string, unknown>): Promise<unknown> {
+  const formats = parseTokenExportFormats(Array.isArray(args['formats']) ? args['formats'].map(String) : 'all');
+  return { files: exportTokens(await toolTokens(args), formats) };
 }
 
-function transformInput(
-  capabilityId: CapabilityId,
-  args: Record<string, unknown>,
-): Record<string, unknown> {
-  switch (capabilityId) {
-    case 'design-system': {
-      const input: Record<string, unknown> = {
-        brandName: 'Design System',
-      };
-      if (args.brandColors) input.colors = args.brandColors;
-      if (args.typography) {
-        input.typographyPreferences = { headingFont: args.typography };
-      }
-      if (args.targetPlatform) input.targetPlatform = args.targetPlatform;
-      if (args.requirements) input.additionalContext = args.requirements;
-      return input;
-    }
-
-    case 'component-architecture': {
-      const input: Record<string, unknown> = {};
-      if (args.description) input.description = args.description;
-      if (args.code) input.existingCode = args.code;
-      if (args.framework) input.framework = args.framework;
-      return input;
-    }
-
-    case 'accessibility-audit': {
-      const input: Record<string, unknown> = {};
-      if (args.code) {
-        input.target = args.code;
-        input.targetType = 'component-code';
-      } else if (args.html) {
-        input.target = args.html;
-        input.targetType = 'html';
-      } else if (args.description) {
-        input.target = args.description;
-        input.targetType = 'description';
-      }
-      if (args.standard) input.wcagLevel = parseWcagLevel(args.standard as string);
-      return input;
+async function toolTokens(args: Record<string, unknown>): Promise<DesignTokens> {
+  if (args['tokens'] !== undefined) {
+    const result = validate(DesignTokensSchema, args['tokens']);
+    if (!result.ok) {
+      throw new UXPilotError(
+        `Invalid tokens: ${formatIssues(result.issues)}`,
+        'INVALID_INPUT',
+        { field: 'tokens', issues: result.issues },
+      );
     }
+    return result.value;
+  }
 
-    case 'user-flow': {
-      const input: Record<string, unknown> = {};
-      if (args.feature) input.featureDescription = args.feature;
-      if (args.userType) input.userPersona = args.userType;
-      if (args.context) input.additionalContext = args.context;
-      return input;
-    }
+  const runId = typeof args['runId'] === 'string' ? args['runId'] : '';
+  if (!runId) {
+    throw new UXPilotError('Pass runId or tokens', 'INVALID_INPUT', { field: 'runId' });
+  }
+  const store = new RunStore();
+  const run = await store.get(runId);
+  if (!run) {
+    throw new UXPilotError(`No saved run with id "${runId}"`, 'RUN_NOT_FOUND', { runId, historyDir: store.dir });
+  }
+  const tokens = validate(DesignTokensSchema, (run.output as { tokens?: unknown } | null)?.tokens);
+  if (run.capabilityId !== 'design-system' || !tokens.ok) {
+    throw new UXPilotError(
+      `Run "${run.id}" is not a design-system run`,
+      'INVALID_INPUT',
+      { field: 'runId', runId: run.id, capabilityId: run.capabilityId },
+    );
+  }
+  return tokens.value;
+}
 
-    case 'wireframe': {
-      const input: Record<string, unknown> = {};
-      if (args.feature) input.requirements = args.feature;
-      if (args.platform) input.targetDevices = [args.platform];
-      if (args.constraints) input.additionalContext = args.constraints;
-      return input;
-    }
+interface RegisteredTool {
+  definition: CapabilityDefinition;
+  tool: McpToolDefinition<unknown>;
+}
 
-    case 'design-critique': {
-      const input: Record<string, unknown> = {};
-      if (args.code) {
-        input.target = args.code;
-        input.targetType = 'component-code';
-      } else if (args.description) {
-        input.target = args.description;
-        input.targetType = 'ui-description';
-      } else if (args.screenshot) {
-        input.target = args.screenshot;
-        input.targetType = 'design-spec';
-      }
-      return input;
+/** Registered capabilities that declare an MCP tool, keyed by tool name. */
+function registeredTools(): Map<string, RegisteredTool> {
+  const tools = new Map<string, RegisteredTool>();
+  for (const definition of defaultRegistry.list()) {
+    if (definition.mcp) {
+      tools.set(definition.mcp.name, { definition, tool: definition.mcp });
     }
-
-    default:
-      return args;
   }
+  return tools;
+}
+
+/** The tool's own JSON Schema, else one derived from the capability's input schema. */
+function toolInputSchema({ definition, tool }: RegisteredTool): Record<string, unknown> {
+  if (tool.inputSchema) return { ...tool.inputSchema };
+  if (definition.inputSchema) return toJSONSchema(definition.inputSchema);
+  return { type: 'object', properties: {} };
 }
 
 function createServer(): Server {
@@ -296,26 +197,47 @@ function createServer(): Server {
   );
 
   server.setRequestHandler(ListToolsRequestSchema, async () => ({
-    tools: TOOLS.map(({ name, description, inputSchema }) => ({
-      name,
-      description,
-      inputSchema,
-    })),
+    tools: [
+      ASK_TOOL,
+      REFINE_TOOL,
+      EXPORT_TOKENS_TOOL,
+      ...[...registeredTools().values()].map((registered) => ({
+        name: registered.tool.name,
+        description: registered.tool.description,
+        inputSchema: toolInputSchema(registered),
+      })),
+    ],
   }));
 
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params;
+    const progressToken = request.params._meta?.progressToken;
 
-    const capabilityId = TOOL_CAPABILITY_MAP.get(name);
-    if (!capabilityId) {
+    const registered = registeredTools().get(name);
+    if (!registered && name !== ASK_TOOL.name && name !== REFINE_TOOL.name && name !== EXPORT_TOKENS_TOOL.name) {
       return {
         content: [{ type: 'text' as const, text: `Unknown tool: ${name}` }],
         isError: true,
       };
     }
 
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
+    const startedAt = Date.now();
+    if (name === EXPORT_TOKENS_TOOL.name) {
+      try {
+        const result = await exportTokenFiles((args ?? {}) as Record<string, unknown>);
+        logger.info('Tool call completed', { tool: name, durationMs: Date.now() - startedAt });
+        return { content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }] };
+      } catch (error) {
+        return toolError(name, error, startedAt);
+      }
+    }
+
+    const provider = process.env.UX_PILOT_PROVIDER ?? 'anthropic';
+    const apiKey = provider === 'openai'
+      ? process.env.OPENAI_API_KEY
+      : process.env.ANTHROPIC_API_KEY;
+    const replaying = process.env.UX_PILOT_FIXTURES === 'replay';
+    if (provider === 'anthropic' && !apiKey && !replaying) {
       return {
         content: [
           {
@@ -328,32 +250,65 @@ function createServer(): Server {
     }
 
     try {
-      const pilot = new UXPilot({ apiKey, model: process.env.ANTHROPIC_MODEL });
-      const input = transformInput(capabilityId, (args ?? {}) as Record<string, unknown>);
-      const result = await pilot.execute(capabilityId, input as never);
+      const pilot = new UXPilot({ apiKey, logger });
+      const toolArgs = (args ?? {}) as Record<string, unknown>;
+      const onEvent = progressToken === undefined
+        ? undefined
+        : createProgressReporter((progress, message) => {
+          extra.sendNotification({
+            method: 'notifications/progress',
+            params: { progressToken, progress, message },
+          }).catch(() => undefined);
+        });
+      // extra.signal fires on notifications/cancelled; the run-level timeout
+      // comes from UX_PILOT_TIMEOUT_MS.
+      const options = { onEvent, signal: extra.signal };
+      let result: unknown;
+      if (registered) {
+        const input = registered.tool.toInput ? registered.tool.toInput(toolArgs) : toolArgs;
+        result = await pilot.execute(registered.definition.id, input, options);
+      } else if (name === REFINE_TOOL.name) {
+        const runId = typeof toolArgs['runId'] === 'string' ? toolArgs['runId'] : '';
+        const instruction = typeof toolArgs['instruction'] === 'string' ? toolArgs['instruction'] : '';
+        const session = await pilot.resumeSession(runId);
+        result = await session.refine(instruction, options);
+      } else {
+        const askRequest = typeof toolArgs['request'] === 'string' ? toolArgs['request'] : '';
+        result = toolArgs['planOnly'] === true
+          ? await pilot.route(askRequest, options)
+          : await pilot.ask(askRequest, options);
+      }
       const text =
         typeof result === 'string' ? result : JSON.stringify(result, null, 2);
 
+      logger.info('Tool call completed', { tool: name, durationMs: Date.now() - startedAt });
       return { content: [{ type: 'text' as const, text }] };
     } catch (error) {
-      const message =
-        error instanceof Error ? error.message : String(error);
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: `Error executing ${name}: ${message}`,
-          },
-        ],
-        isError: true,
-      };
+      return toolError(name, error, startedAt);
     }
   });
 
   return server;
 }
 
+function toolError(name: string, error: unknown, startedAt: number): { content: Array<{ type: 'text'; text: string }>; isError: true } {
+  const message =
+    error instanceof Error ? error.message : String(error);
+  const hint = error instanceof UXPilotError ? ERROR_HINTS[error.code] ?? '' : '';
+  logger.warn('Tool call failed', { tool: name, durationMs: Date.now() - startedAt, error });
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: `Error executing ${name}: ${message}${hint}`,
+      },
+    ],
+    isError: true,
+  };
+}
+
 async function main(): Promise<void> {
+  await loadPlugins(resolvePluginSpecifiers());
   const server = createServer();
   const transport = new StdioServerTransport();
 
@@ -363,10 +318,10 @@ async function main(): Promise<void> {
   });
 
   await server.connect(transport);
-  console.error('UX Pilot MCP server running on stdio');
+  logger.info('UX Pilot MCP server running on stdio', { tools: registeredTools().size + 3 });
 }
 
 main().catch((error) => {
-  console.error('Fatal error starting UX Pilot MCP server:', error);
+  logger.error('Fatal error starting UX Pilot MCP server', { error });
   process.exit(1);
 });
@@ -0,0 +1,321 @@
+/**
+ * @file builtin-prompts.ts
+ * @description Versioned prompt templates for the built-in capabilities
+ * @author Charley Scholz, ELEV8
+ * @coauthor Claude 4.6 Opus, Claude Code (coding assistant), Cursor (IDE)
+ * @created 2026-10-19
+ * @updated 2026-10-19
+ */
+
+import type { PromptTemplate } from '../core/prompt-registry.js';
+
+// Bump a template's version whenever its wording changes: outputs record the
+// version (and a hash of the effective text) that produced them.
+
+export const DESIGN_SYSTEM_PROMPT: PromptTemplate = {
+  id: 'design-system',
+  version: '2.0.0',
+  description: 'Color family names, rationale, and component inventory for computed design tokens',
+  variables: ['brandName', 'colors', 'headingFont', 'bodyFont', 'monoFont', 'scaleRatio', 'targetPlatform', 'palette', 'additionalContext'],
+  system: `You are an expert design systems engineer. You create production-quality design token sets that follow industry best practices.
+
+The color scales, WCAG contrast ratios, typography, spacing, breakpoints, shadows, and border radii have already been computed from the brand requirements. Do not change or restate them. You must:
+1. Give the primary, secondary, and neutral color families short, evocative names that suit the brand
+2. Explain in a short paragraph why the palette and type scale suit the brand and platform, calling out any contrast pairs that only pass for large text or fail
+3. Recommend a component inventory prioritized by necessity
+
+Output valid JSON matching the exact schema requested. No commentary outside JSON.`,
+  user: `Brand: {{brandName}}
+{{#colors}}
+Brand colors: {{colors}}
+{{/colors}}
+{{#headingFont}}
+Heading font: {{headingFont}}
+{{/headingFont}}
+{{#bodyFont}}
+Body font: {{bodyFont}}
+{{/bodyFont}}
+{{#monoFont}}
+Mono font: {{monoFont}}
+{{/monoFont}}
+{{#scaleRatio}}
+Type scale ratio: {{scaleRatio}}
+{{/scaleRatio}}
+{{#targetPlatform}}
+Target platform: {{targetPlatform}}
+{{/targetPlatform}}
+{{#additionalContext}}
+Additional context: {{additionalContext}}
+{{/additionalContext}}
+
+Computed palette:
+{{palette}}
+
+Respond with a JSON object containing:
+- "colorNames": {primary, secondary, neutral} — a name for each color family
+- "rationale": a short paragraph explaining the design decisions
+- "componentInventory": array of {name, category, priority: "essential"|"recommended"|"optional", description}`,
+};
+
+export const COMPONENT_ARCHITECTURE_PROMPT: PromptTemplate = {
+  id: 'component-architecture',
+  version: '1.1.0',
+  description: 'Component tree, state, composition, and data flow',
+  variables: ['description', 'existingCode', 'chunk', 'framework', 'additionalContext'],
+  system: `You are an expert frontend architect specializing in component-based UI systems.
+
+Analyze the given page, feature, or code and produce a comprehensive component architecture recommendation. You must:
+
+1. Break the UI into a hierarchical component tree
+2. Define a typed props interface for each component
+3. Identify all local and shared state
+4. Recommend composition patterns (compound components, render props, slots, etc.)
+5. Produce a Mermaid data flow diagram showing how data moves between components
+6. Include accessibility requirements for every component
+
+Each component spec must include:
+- name: PascalCase component name
+- description: what it renders and why
+- props: array of {name, type, required, defaultValue?, description}
+- state: array of {name, type, initialValue, description}
+- events: array of {name, payload, description}
+- accessibilityRequirements: array of strings
+- children: nested component specs (recursive)
+
+Output valid JSON. No commentary outside JSON.`,
+  user: `## Feature / Page Description
+{{description}}
+{{#existingCode}}
+
+## Existing Code
+\`\`\`
+{{existingCode}}
+\`\`\`
+{{/existingCode}}
+{{#chunk}}
+
+## Scope
+{{chunk}}
+{{/chunk}}
+{{#framework}}
+
+Framework: {{framework}}
+{{/framework}}
+{{#additionalContext}}
+
+## Additional Context
+{{additionalContext}}
+{{/additionalContext}}
+
+Respond with JSON: {rootComponent, stateManagementApproach, compositionPatterns, dataFlowDiagram}
+
+dataFlowDiagram must be valid Mermaid flowchart syntax.`,
+};
+
+export const ACCESSIBILITY_AUDIT_PROMPT: PromptTemplate = {
+  id: 'accessibility-audit',
+  version: '1.1.0',
+  description: 'WCAG audit findings and passed criteria',
+  variables: ['targetType', 'target', 'chunk', 'wcagLevel', 'criteria', 'additionalContext'],
+  system: `You are a senior accessibility specialist with deep expertise in WCAG 2.2.
+
+Audit the provided content against WCAG criteria. For each issue found:
+1. Reference the specific WCAG criterion (e.g., "1.4.3 Contrast (Minimum)")
+2. Classify severity: "critical" (blocks access), "major" (significant barrier), "minor" (inconvenience)
+3. Describe the issue clearly
+4. Provide specific evidence from the content
+5. Give an actionable recommendation
+6. Include a corrected code example where applicable
+
+Also identify criteria that are satisfied — list these as passedCriteria.
+
+Output valid JSON. No commentary outside JSON.`,
+  user: `## Target ({{targetType}})
+
+{{target}}
+{{#chunk}}
+
+## Scope
+
+{{chunk}}
+{{/chunk}}
+
+## WCAG Level: {{wcagLevel}}
+
+## Applicable Criteria
+
+{{criteria}}
+{{#additionalContext}}
+
+## Additional Context
+
+{{additionalContext}}
+{{/additionalContext}}
+
+Respond with JSON: {findings: [...], passedCriteria: [...]}
+findings items: {criterion, criterionName, severity, issue, evidence, recommendation, codeExample}`,
+};
+
+export const USER_FLOW_PROMPT: PromptTemplate = {
+  id: 'user-flow',
+  version: '1.0.0',
+  description: 'User flow diagram, paths, errors, and edge cases',
+  variables: ['featureDescription', 'userPersona', 'existingFlows', 'additionalContext'],
+  system: `You are a UX researcher and information architect specializing in user flow analysis.
+
+Given a feature description, produce a comprehensive user flow analysis:
+
+1. Create a Mermaid flowchart diagram using flowchart TD syntax
+2. Identify all entry points into the flow
+3. Map the happy path (ideal user journey) as an ordered list of steps
+4. Identify all decision points with their possible outcomes
+5. Map error states with triggers, descriptions, and recovery paths
+6. Identify edge cases with their handling strategies
+
+Each flow step must have: id, label, type (start|action|decision|end|error), description.
+Transitions between steps: from (id), to (id), label, optional condition.
+
+The Mermaid diagram should use:
+- Rounded rectangles for start/end
+- Rectangles for actions
+- Diamonds for decisions
+- Hexagons for error states
+
+Output valid JSON. No commentary outside JSON.`,
+  user: `## Feature Description
+
+{{featureDescription}}
+{{#userPersona}}
+
+## User Persona
+
+{{userPersona}}
+{{/userPersona}}
+{{#existingFlows}}
+
+## Existing Flows
+
+{{existingFlows}}
+{{/existingFlows}}
+{{#additionalContext}}
+
+## Additional Context
+
+{{additionalContext}}
+{{/additionalContext}}
+
+Respond with JSON: {mermaidDiagram, entryPoints, happyPath, decisionPoints, errorStates, edgeCases}`,
+};
+
+export const WIREFRAME_PROMPT: PromptTemplate = {
+  id: 'wireframe',
+  version: '1.0.0',
+  description: 'Layout hierarchy, zones, navigation, and ASCII wireframes',
+  variables: ['requirements', 'pageType', 'devices', 'additionalContext'],
+  system: `You are a senior UX designer specializing in information architecture and layout design.
+
+Given page/feature requirements, produce layout recommendations:
+
+1. Information Hierarchy — ordered list of content by importance (level 1 = most important), with rationale
+2. Content Zones — named regions with purpose, priority (1 = highest), suggested components, and placement description
+3. Navigation Pattern — which pattern to use (sidebar, top nav, tabs, breadcrumbs, etc.), why, and what items to include
+4. Responsive Strategy — for each breakpoint (mobile, tablet, desktop), specify layout changes
+5. ASCII Wireframes — one per target device, using box-drawing characters:
+   ┌─────────────────────┐
+   │  HEADER / NAV       │
+   ├─────┬───────────────┤
+   │ SB  │  MAIN CONTENT │
+   │     │               │
+   ├─────┴───────────────┤
+   │  FOOTER             │
+   └─────────────────────┘
+
+Keep wireframes clear with labeled zones. Use reasonable widths (60-80 chars for desktop, 30-40 for mobile).
+
+Output valid JSON. No commentary outside JSON.`,
+  user: `## Page Requirements
+
+{{requirements}}
+{{#pageType}}
+
+Page type: {{pageType}}
+{{/pageType}}
+
+Target devices: {{devices}}
+Create ASCII wireframes for: {{devices}}
+{{#additionalContext}}
+
+## Additional Context
+
+{{additionalContext}}
+{{/additionalContext}}
+
+Respond with JSON: {informationHierarchy, contentZones, navigationPattern, responsiveStrategy, asciiWireframes}
+asciiWireframes keys should be device names (e.g. "mobile", "desktop").`,
+};
+
+export const DESIGN_CRITIQUE_PROMPT: PromptTemplate = {
+  id: 'design-critique',
+  version: '1.0.0',
+  description: 'Heuristic evaluation with strengths, issues, scores, and actions',
+  variables: ['targetType', 'target', 'heuristics', 'focusAreas', 'additionalContext'],
+  system: `You are a senior UX design critic with deep knowledge of usability principles.
+
+Evaluate the given UI against Nielsen's 10 Usability Heuristics. Your approach:
+1. ALWAYS lead with strengths — what the design does well, mapped to specific heuristics
+2. Then identify issues — each mapped to a heuristic, with severity 1-4:
+   - 1: Cosmetic — fix if time permits
+   - 2: Minor — low priority fix
+   - 3: Major — important to fix, top priority
+   - 4: Catastrophe — must fix before release
+3. Score each heuristic 0-10 (10 = perfect adherence)
+4. Provide priority actions sorted by impact and effort
+
+The 10 heuristics:
+1. Visibility of System Status
+2. Match Between System and Real World
+3. User Control and Freedom
+4. Consistency and Standards
+5. Error Prevention
+6. Recognition Rather Than Recall
+7. Flexibility and Efficiency of Use
+8. Aesthetic and Minimalist Design
+9. Help Users Recognize, Diagnose, and Recover from Errors
+10. Help and Documentation
+
+Output valid JSON. No commentary outside JSON.`,
+  user: `## Target ({{targetType}})
+
+{{target}}
+
+## Nielsen's Heuristics Reference
+
+{{heuristics}}
+{{#focusAreas}}
+
+## Focus Areas
+
+{{focusAreas}}
+{{/focusAreas}}
+{{#additionalContext}}
+
+## Additional Context
+
+{{additionalContext}}
+{{/additionalContext}}
+
+Respond with JSON: {strengths, issues, heuristicScores, priorityActions}
+strengths: [{area, description, heuristicId}]
+issues: [{heuristicId, heuristicName, severity (1-4), issue, evidence, recommendation}]
+heuristicScores: [{heuristicId, heuristicName, score (0-10), maxScore: 10}]
+priorityActions: [{priority, action, impact, effort}]`,
+};
+
+export const BUILTIN_PROMPTS: readonly PromptTemplate[] = [
+  DESIGN_SYSTEM_PROMPT,
+  COMPONENT_ARCHITECTURE_PROMPT,
+  ACCESSIBILITY_AUDIT_PROMPT,
+  USER_FLOW_PROMPT,
+  WIREFRAME_PROMPT,
+  DESIGN_CRITIQUE_PROMPT,
+];